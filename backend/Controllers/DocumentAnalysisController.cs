@@ -11,13 +11,16 @@ namespace MTAnalyzer.Controllers
     public class DocumentAnalysisController : ControllerBase
     {
         private readonly IDocumentAnalysisService _documentAnalysisService;
+        private readonly IDocumentAnalysisHistoryStore _historyStore;
         private readonly ILogger<DocumentAnalysisController> _logger;
 
         public DocumentAnalysisController(
             IDocumentAnalysisService documentAnalysisService,
+            IDocumentAnalysisHistoryStore historyStore,
             ILogger<DocumentAnalysisController> logger)
         {
             _documentAnalysisService = documentAnalysisService;
+            _historyStore = historyStore;
             _logger = logger;
         }
 
@@ -61,6 +64,7 @@ namespace MTAnalyzer.Controllers
                     return BadRequest(result.ErrorMessage);
                 }
 
+                _historyStore.Add(result);
                 _logger.LogInformation($"PDF analysis completed successfully. Overall score: {result.QualityScore.Overall:F1}");
                 return Ok(result);
             }
@@ -109,7 +113,8 @@ namespace MTAnalyzer.Controllers
                     PerformGrammarCheck = request.PerformGrammarCheck,
                     PerformStyleCheck = request.PerformStyleCheck,
                     PerformTechnicalReview = request.PerformTechnicalReview,
-                    PerformComplianceCheck = request.PerformComplianceCheck
+                    PerformComplianceCheck = request.PerformComplianceCheck,
+                    ComplianceFramework = request.ComplianceFramework
                 };
 
                 var result = await _documentAnalysisService.AnalyzeDocumentAsync(request.DocumentText, analysisRequest);
@@ -119,6 +124,7 @@ namespace MTAnalyzer.Controllers
                     return BadRequest(result.ErrorMessage);
                 }
 
+                _historyStore.Add(result);
                 _logger.LogInformation($"Text analysis completed successfully. Overall score: {result.QualityScore.Overall:F1}");
                 return Ok(result);
             }
@@ -170,20 +176,18 @@ namespace MTAnalyzer.Controllers
         }
 
         /// <summary>
-        /// Get analysis history for documents (placeholder for future implementation)
+        /// Get recent successful analyses, newest first (kept in memory until the service restarts)
         /// </summary>
         /// <returns>List of previous analyses</returns>
         [HttpGet("history")]
         [ProducesResponseType(typeof(List<DocumentAnalysisHistoryItem>), 200)]
         [ProducesResponseType(typeof(string), 500)]
-        public async Task<ActionResult<List<DocumentAnalysisHistoryItem>>> GetAnalysisHistory()
+        public ActionResult<List<DocumentAnalysisHistoryItem>> GetAnalysisHistory()
         {
             try
             {
                 _logger.LogInformation("Retrieving analysis history");
-                
-                // Placeholder for future database implementation
-                return Ok(new List<DocumentAnalysisHistoryItem>());
+                return Ok(_historyStore.GetHistory());
             }
             catch (Exception ex)
             {
@@ -192,6 +196,25 @@ namespace MTAnalyzer.Controllers
             }
         }
 
+        /// <summary>
+        /// Get the full result of a previous analysis
+        /// </summary>
+        /// <param name="documentId">Document analysis ID</param>
+        /// <returns>The stored analysis result</returns>
+        [HttpGet("history/{documentId}")]
+        [ProducesResponseType(typeof(DocumentAnalysisResult), 200)]
+        [ProducesResponseType(typeof(string), 404)]
+        public ActionResult<DocumentAnalysisResult> GetAnalysisHistoryEntry(string documentId)
+        {
+            var result = _historyStore.Get(documentId);
+            if (result == null)
+            {
+                return NotFound($"No analysis found for document {documentId}");
+            }
+
+            return Ok(result);
+        }
+
         /// <summary>
         /// Get supported document types and analysis capabilities
         /// </summary>
@@ -237,16 +260,8 @@ namespace MTAnalyzer.Controllers
         public bool PerformTechnicalReview { get; set; } = true;
 
         public bool PerformComplianceCheck { get; set; } = false;
-    }
 
-    public class DocumentAnalysisHistoryItem
-    {
-        public string DocumentId { get; set; } = string.Empty;
-        public string FileName { get; set; } = string.Empty;
-        public DateTime AnalysisDate { get; set; }
-        public double OverallScore { get; set; }
-        public QualityRating Rating { get; set; }
-        public int IssuesFound { get; set; }
+        public string? ComplianceFramework { get; set; }
     }
 
     public class AnalysisCapabilities
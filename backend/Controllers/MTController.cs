@@ -3,6 +3,8 @@ using MTAnalyzer.Models;         // Our data models (request/response classes)
 using MTAnalyzer.Services;       // Our business logic services
 using Microsoft.AspNetCore.Mvc; // ASP.NET Core MVC framework for creating APIs
 using System.Text.Json;          // JSON serialization and deserialization
+using System.Text.RegularExpressions; // Reference extraction from AI guidance
+using System.Text;               // Accumulating streamed chat responses
 
 namespace MTAnalyzer.Controllers
 {
@@ -23,19 +25,25 @@ namespace MTAnalyzer.Controllers
         private readonly IAzureOpenAIService _aiService;        // Service for Azure OpenAI API calls
         private readonly IMTDecisionEngine _decisionEngine;     // Service for MT decision tree logic
         private readonly IIntelligentMTService _intelligentService; // Main service for intelligent document analysis
+        private readonly IDocumentAnalysisService _documentAnalysisService; // Document quality analysis for uploaded PDFs
+        private readonly IDocumentAnalysisHistoryStore _analysisHistory;    // Recent document analyses, listed by api/DocumentAnalysis/history
 
         // Constructor - ASP.NET Core automatically injects the required services
         // The services are registered in Program.cs and created when needed
         public MTController(
             IAzureOpenAIService aiService,           // Injected Azure OpenAI service
             IMTDecisionEngine decisionEngine,        // Injected decision engine service
-            IIntelligentMTService intelligentService // Injected intelligent MT service
+            IIntelligentMTService intelligentService, // Injected intelligent MT service
+            IDocumentAnalysisService documentAnalysisService, // Injected document analysis service
+            IDocumentAnalysisHistoryStore analysisHistory     // Injected analysis history (singleton)
         )
         {
             // Store the injected services in private fields for use in action methods
             _aiService = aiService;
             _decisionEngine = decisionEngine;
             _intelligentService = intelligentService;
+            _documentAnalysisService = documentAnalysisService;
+            _analysisHistory = analysisHistory;
         }
 
         // ============================================================================
@@ -106,6 +114,56 @@ namespace MTAnalyzer.Controllers
             }
         }
 
+        // ============================================================================
+        // API ENDPOINT: STREAMING INTELLIGENT CHAT
+        // POST: api/MT/intelligent-chat/stream
+        // Purpose: Same as intelligent-chat, sent as server-sent events while GPT-4 generates
+        //   event: delta  data: { "text": "..." }          one per generated chunk
+        //   event: done   data: IntelligentChatResponse    full text, once the stream completes
+        //   event: error  data: { "error": "...", "details": "..." }
+        // Closing the connection stops generation.
+        // ============================================================================
+
+        [HttpPost("intelligent-chat/stream")]
+        public async Task StreamIntelligentChatAsync([FromBody] IntelligentChatRequest request)
+        {
+            var cancellationToken = HttpContext.RequestAborted;
+            var fullResponse = new StringBuilder();
+
+            Response.ContentType = "text/event-stream";
+            Response.Headers.CacheControl = "no-cache";
+            Response.Headers["X-Accel-Buffering"] = "no"; // Stop reverse proxies from buffering the stream
+
+            try
+            {
+                Console.WriteLine($"🎯 RECEIVED STREAMING CHAT REQUEST: {request.Message}");
+
+                await foreach (var delta in _intelligentService.StreamIntelligentResponseAsync(
+                    request.Message, request.ConversationHistory, cancellationToken))
+                {
+                    fullResponse.Append(delta);
+                    await WriteServerSentEventAsync("delta", new { text = delta }, cancellationToken);
+                }
+
+                await WriteServerSentEventAsync("done", new IntelligentChatResponse
+                {
+                    Response = fullResponse.ToString(),
+                    Timestamp = DateTime.UtcNow,
+                    ProcessedByGPT4 = true
+                }, cancellationToken);
+                Console.WriteLine($"✅ STREAMING CHAT RESPONSE COMPLETED");
+            }
+            catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+            {
+                Console.WriteLine($"⏹️ STREAMING CHAT CANCELLED BY CLIENT after {fullResponse.Length} characters");
+            }
+            catch (Exception ex)
+            {
+                Console.WriteLine($"❌ STREAMING CHAT ERROR: {ex.Message}");
+                await WriteServerSentEventAsync("error", new { error = ex.Message, details = "Intelligent chat failed" }, CancellationToken.None);
+            }
+        }
+
         [HttpPost("classify-mt")]
         public async Task<ActionResult<MTClassificationResult>> ClassifyMTAsync([FromBody] ClassificationRequest request)
         {
@@ -294,8 +352,95 @@ namespace MTAnalyzer.Controllers
             }
         }
 
+        // ============================================================================
+        // FIGURE 1 GUIDED DECISION ENDPOINT
+        // Purpose: Walks the Figure 1 decision tree one question at a time
+        // ============================================================================
+
+        [HttpPost("figure1-step")]  // HTTP POST endpoint at "api/MT/figure1-step"
+        public ActionResult<Figure1StepResponse> EvaluateFigure1Step([FromBody] Figure1StepRequest request)
+        {
+            try
+            {
+                return Ok(_decisionEngine.EvaluateFigure1Step(request));
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, new { error = ex.Message, details = "Figure 1 evaluation failed" });
+            }
+        }
+
+        [HttpPost("validate-input")]
+        public ActionResult<MTInputValidationResult> ValidateInput([FromBody] ModificationTravelerInput input)
+        {
+            try
+            {
+                return Ok(_decisionEngine.ValidateInput(input));
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, new { error = ex.Message, details = "Input validation failed" });
+            }
+        }
+
+        [HttpPost("guidance")]
+        public async Task<ActionResult<MTGuidanceResponse>> GetGuidanceAsync([FromBody] MTGuidanceRequest request)
+        {
+            if (string.IsNullOrWhiteSpace(request.Question))
+            {
+                return BadRequest(new { error = "Question is required" });
+            }
+
+            try
+            {
+                var prompt = $"Answer this question about Modification Traveler requirements (TFC-ENG-DESIGN-C-10, Figure 1). " +
+                             $"Cite the procedures or regulations the answer relies on.\n\nQuestion: {request.Question}";
+                var guidance = await _intelligentService.GenerateIntelligentResponseAsync(prompt, request.Context);
+
+                return Ok(new MTGuidanceResponse
+                {
+                    Guidance = guidance,
+                    References = ExtractReferences(guidance),
+                    Timestamp = DateTime.UtcNow
+                });
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, new { error = ex.Message, details = "MT guidance failed" });
+            }
+        }
+
+        [HttpGet("health")]
+        public ActionResult<object> Health()
+        {
+            return Ok(new
+            {
+                status = "healthy",
+                version = typeof(MTController).Assembly.GetName().Version?.ToString() ?? "1.0.0",
+                timestamp = DateTime.UtcNow
+            });
+        }
+
         #region Helper Methods
 
+        private static readonly JsonSerializerOptions ServerSentEventJsonOptions = new(JsonSerializerDefaults.Web);
+
+        private async Task WriteServerSentEventAsync(string eventName, object payload, CancellationToken cancellationToken)
+        {
+            var data = JsonSerializer.Serialize(payload, ServerSentEventJsonOptions);
+            await Response.WriteAsync($"event: {eventName}\ndata: {data}\n\n", cancellationToken);
+            await Response.Body.FlushAsync(cancellationToken);
+        }
+
+        // Procedure numbers (TFC-ENG-DESIGN-C-10), CFR parts and DOE orders cited in a reply
+        private static List<string> ExtractReferences(string text)
+        {
+            return Regex.Matches(text, @"\b(?:TFC(?:-[A-Z0-9]+)+|\d+\s+CFR\s+\d+(?:\.\d+)?|DOE\s+O\s+\d+(?:\.\d+)*[A-Z]?)")
+                .Select(match => match.Value)
+                .Distinct()
+                .ToList();
+        }
+
         private double CalculateConfidenceScore(string enhancedAnalysis, MTAnalysisResult standardAnalysis)
         {
             // Remove hardcoded confidence calculation - let AI/backend determine confidence
@@ -507,76 +652,23 @@ namespace MTAnalyzer.Controllers
         // ============================================================================
         
         [HttpPost("analyze-pdf")]
-        public async Task<ActionResult<object>> AnalyzePdfAsync([FromForm] IFormFile pdfFile, [FromForm] string documentType = "nuclear")
+        public async Task<ActionResult<DocumentAnalysisResult>> AnalyzePdfAsync([FromForm] DocumentAnalysisRequest request)
         {
             try
             {
-                if (pdfFile == null || pdfFile.Length == 0)
+                if (request.PdfFile == null || request.PdfFile.Length == 0)
                 {
                     return BadRequest("PDF file is required");
                 }
 
-                // For now, return a basic response indicating PDF was received
-                // This matches the expected DocumentAnalysisResult structure
-                var response = new
-                {
-                    message = "PDF received and processing initiated",
-                    fileName = pdfFile.FileName,
-                    fileSize = pdfFile.Length,
-                    documentType = documentType,
-                    timestamp = DateTime.UtcNow,
-                    qualityScore = new
-                    {
-                        overall = 85.0,
-                        grammar = 90.0,
-                        technical = 80.0,
-                        compliance = 85.0
-                    },
-                    // Add the missing grammar object that frontend expects
-                    grammar = new
-                    {
-                        totalIssues = 3,
-                        issues = new[]
-                        {
-                            new { type = "Minor", description = "Consider reviewing technical terminology consistency" },
-                            new { type = "Style", description = "Some sentences could be more concise" },
-                            new { type = "Format", description = "Table formatting could be improved" }
-                        }
-                    },
-                    // Add missing style object that frontend expects
-                    style = new
-                    {
-                        issues = new[]
-                        {
-                            new { type = "Formatting", description = "Inconsistent heading styles" },
-                            new { type = "Consistency", description = "Mixed numbering formats" }
-                        }
-                    },
-                    // Add missing technical object that frontend expects
-                    technical = new
-                    {
-                        issues = new[]
-                        {
-                            new { type = "Specification", description = "Some technical specifications could be more detailed" },
-                            new { type = "Reference", description = "Consider adding more regulatory references" }
-                        }
-                    },
-                    summary = $"Document '{pdfFile.FileName}' has been analyzed. This is a nuclear facility modification traveler with good technical quality and minimal grammar issues.",
-                    suggestions = new[]
-                    {
-                        new { title = "Review Technical Specifications", impact = "Medium", description = "Ensure all technical specifications are clearly documented" },
-                        new { title = "Verify Safety Classifications", impact = "High", description = "Confirm safety-related component classifications" },
-                        new { title = "Check Regulatory Compliance", impact = "High", description = "Verify compliance with applicable nuclear regulations" }
-                    },
-                    metadata = new
-                    {
-                        documentType = "modification_traveler",
-                        pageCount = 5,
-                        wordCount = 1500
-                    }
-                };
+                // Run the full document analysis; failures come back as IsAnalysisSuccessful = false
+                // with an ErrorMessage, which the frontend reports instead of the scores
+                var result = await _documentAnalysisService.AnalyzePdfDocumentAsync(request.PdfFile, request);
 
-                return Ok(response);
+                // Successful analyses are listed by api/DocumentAnalysis/history
+                _analysisHistory.Add(result);
+
+                return Ok(result);
             }
             catch (Exception ex)
             {
@@ -11,6 +11,7 @@ namespace MTAnalyzer.Models
         public bool PerformStyleCheck { get; set; } = true;
         public bool PerformTechnicalReview { get; set; } = true;
         public bool PerformComplianceCheck { get; set; } = false;
+        public string? ComplianceFramework { get; set; } // One of the capabilities' ComplianceFrameworks; defaults to the configured framework
     }
 
     public class DocumentAnalysisResult
@@ -162,6 +163,18 @@ namespace MTAnalyzer.Models
         public bool IsActionable { get; set; } = true;
     }
 
+    // Summary row for api/DocumentAnalysis/history
+    public class DocumentAnalysisHistoryItem
+    {
+        public string DocumentId { get; set; } = string.Empty;
+        public string FileName { get; set; } = string.Empty;
+        public string DocumentType { get; set; } = string.Empty;
+        public DateTime AnalysisDate { get; set; }
+        public double OverallScore { get; set; }
+        public QualityRating Rating { get; set; }
+        public int IssuesFound { get; set; }
+    }
+
     [JsonConverter(typeof(JsonStringEnumConverter))]
     public enum QualityRating
     {
@@ -0,0 +1,128 @@
+using Newtonsoft.Json;
+
+namespace MTAnalyzer.Models
+{
+    // ============================================================================
+    // FIGURE 1 GUIDANCE, INPUT VALIDATION AND MT GUIDANCE MODELS
+    // Request/response contracts for api/MT/figure1-step, validate-input and guidance
+    // ============================================================================
+
+    public class Figure1StepRequest
+    {
+        // Answers so far, keyed by ModificationTravelerInput flag name (e.g. "isTemporary")
+        [JsonProperty("answers")]
+        public Dictionary<string, bool> Answers { get; set; } = new();
+
+        // Used to pick the design type once the tree reaches an outcome
+        [JsonProperty("problemDescription")]
+        public string ProblemDescription { get; set; } = string.Empty;
+
+        [JsonProperty("proposedSolution")]
+        public string ProposedSolution { get; set; } = string.Empty;
+    }
+
+    public class Figure1StepResponse
+    {
+        // Flag name of the next question; empty once the tree is complete
+        [JsonProperty("currentStep")]
+        public string CurrentStep { get; set; } = string.Empty;
+
+        [JsonProperty("stepNumber")]
+        public int StepNumber { get; set; }
+
+        [JsonProperty("question")]
+        public string Question { get; set; } = string.Empty;
+
+        [JsonProperty("guidance")]
+        public string Guidance { get; set; } = string.Empty;
+
+        [JsonProperty("options")]
+        public List<string> Options { get; set; } = new();
+
+        // 0-100, based on the remaining steps of the current branch
+        [JsonProperty("progress")]
+        public int Progress { get; set; }
+
+        [JsonProperty("isComplete")]
+        public bool IsComplete { get; set; }
+
+        // Steps answered on the way to the current question, in tree order
+        [JsonProperty("path")]
+        public List<Figure1AnsweredStep> Path { get; set; } = new();
+
+        [JsonProperty("determination")]
+        public Figure1Determination? Determination { get; set; }
+    }
+
+    public class Figure1AnsweredStep
+    {
+        [JsonProperty("step")]
+        public string Step { get; set; } = string.Empty;
+
+        [JsonProperty("question")]
+        public string Question { get; set; } = string.Empty;
+
+        [JsonProperty("answer")]
+        public bool Answer { get; set; }
+    }
+
+    public class Figure1Determination
+    {
+        [JsonProperty("mtRequired")]
+        public bool MTRequired { get; set; }
+
+        [JsonProperty("reason")]
+        public string Reason { get; set; } = string.Empty;
+
+        // 1-5 for Design Type I-V
+        [JsonProperty("designType")]
+        public int DesignType { get; set; }
+
+        [JsonProperty("designTypeName")]
+        public string DesignTypeName { get; set; } = string.Empty;
+    }
+
+    public class MTInputValidationResult
+    {
+        [JsonProperty("isValid")]
+        public bool IsValid { get; set; }
+
+        [JsonProperty("errors")]
+        public List<MTInputValidationMessage> Errors { get; set; } = new();
+
+        [JsonProperty("warnings")]
+        public List<MTInputValidationMessage> Warnings { get; set; } = new();
+    }
+
+    public class MTInputValidationMessage
+    {
+        [JsonProperty("field")]
+        public string Field { get; set; } = string.Empty;
+
+        [JsonProperty("message")]
+        public string Message { get; set; } = string.Empty;
+    }
+
+    public class MTGuidanceRequest
+    {
+        [JsonProperty("question")]
+        public string Question { get; set; } = string.Empty;
+
+        // Optional description of the modification the question is about
+        [JsonProperty("context")]
+        public string Context { get; set; } = string.Empty;
+    }
+
+    public class MTGuidanceResponse
+    {
+        [JsonProperty("guidance")]
+        public string Guidance { get; set; } = string.Empty;
+
+        // Procedures and regulations cited in the guidance (e.g. "TFC-ENG-DESIGN-C-67", "10 CFR 830")
+        [JsonProperty("references")]
+        public List<string> References { get; set; } = new();
+
+        [JsonProperty("timestamp")]
+        public DateTime Timestamp { get; set; }
+    }
+}
@@ -81,6 +81,9 @@ builder.Services.AddScoped<IPdfProcessingService, PdfProcessingService>();
 // Register Document Analysis Service - comprehensive document quality analysis
 builder.Services.AddScoped<IDocumentAnalysisService, DocumentAnalysisService>();
 
+// Register Document Analysis History - singleton so results outlive the request that produced them
+builder.Services.AddSingleton<IDocumentAnalysisHistoryStore, DocumentAnalysisHistoryStore>();
+
 // Configure logging for the application
 // Logging helps debug issues and monitor application behavior
 builder.Services.AddLogging(loggingBuilder =>
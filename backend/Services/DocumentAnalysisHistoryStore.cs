@@ -0,0 +1,65 @@
+using System.Collections.Concurrent;
+using MTAnalyzer.Models;
+
+namespace MTAnalyzer.Services
+{
+    // ============================================================================
+    // DOCUMENT ANALYSIS HISTORY
+    // Keeps recent successful analyses in memory so the frontend can list them,
+    // reopen a full result and compare two runs of the same document.
+    // Registered as a singleton; history is lost when the service restarts.
+    // ============================================================================
+
+    public interface IDocumentAnalysisHistoryStore
+    {
+        void Add(DocumentAnalysisResult result);
+        List<DocumentAnalysisHistoryItem> GetHistory();
+        DocumentAnalysisResult? Get(string documentId);
+    }
+
+    public class DocumentAnalysisHistoryStore : IDocumentAnalysisHistoryStore
+    {
+        // Oldest entries are dropped past this many analyses
+        private const int MaxEntries = 100;
+
+        private readonly ConcurrentDictionary<string, DocumentAnalysisResult> _results = new();
+
+        public void Add(DocumentAnalysisResult result)
+        {
+            if (!result.IsAnalysisSuccessful) return;
+
+            _results[result.DocumentId] = result;
+
+            var excess = _results.Values
+                .OrderByDescending(r => r.AnalysisTimestamp)
+                .Skip(MaxEntries)
+                .Select(r => r.DocumentId)
+                .ToList();
+            excess.ForEach(id => _results.TryRemove(id, out _));
+        }
+
+        // Newest first
+        public List<DocumentAnalysisHistoryItem> GetHistory()
+        {
+            return _results.Values
+                .OrderByDescending(r => r.AnalysisTimestamp)
+                .Select(r => new DocumentAnalysisHistoryItem
+                {
+                    DocumentId = r.DocumentId,
+                    FileName = r.Metadata.FileName,
+                    DocumentType = r.Metadata.DocumentType,
+                    AnalysisDate = r.AnalysisTimestamp,
+                    OverallScore = r.QualityScore.Overall,
+                    Rating = r.QualityScore.Rating,
+                    IssuesFound = r.Grammar.TotalIssues + r.Style.Issues.Count + r.Technical.Issues.Count
+                        + (r.Compliance?.Issues.Count ?? 0)
+                })
+                .ToList();
+        }
+
+        public DocumentAnalysisResult? Get(string documentId)
+        {
+            return _results.TryGetValue(documentId, out var result) ? result : null;
+        }
+    }
+}
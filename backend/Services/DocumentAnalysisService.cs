@@ -134,7 +134,7 @@ namespace MTAnalyzer.Services
 
                 if (request.PerformComplianceCheck)
                 {
-                    result.Compliance = await PerformComplianceAnalysisAsync(documentText, request.DocumentType ?? "general");
+                    result.Compliance = await PerformComplianceAnalysisAsync(documentText, request.DocumentType ?? "general", request.ComplianceFramework);
                 }
 
                 // Calculate overall quality scores
@@ -320,9 +320,9 @@ namespace MTAnalyzer.Services
             return analysis;
         }
 
-        private async Task<ComplianceAnalysis> PerformComplianceAnalysisAsync(string text, string documentType)
+        private async Task<ComplianceAnalysis> PerformComplianceAnalysisAsync(string text, string documentType, string? requestedFramework)
         {
-            var framework = _settings.Compliance.Framework;
+            var framework = string.IsNullOrWhiteSpace(requestedFramework) ? _settings.Compliance.Framework : requestedFramework;
             var analysis = new ComplianceAnalysis
             {
                 ComplianceFramework = framework
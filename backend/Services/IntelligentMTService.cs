@@ -6,6 +6,7 @@ using Microsoft.Extensions.Configuration; // Configuration management (appsettin
 using Microsoft.Extensions.Logging;       // Logging framework for debugging and monitoring
 using System.Text.Json;                   // JSON serialization for API communication
 using System.Text;                        // String manipulation utilities
+using System.Runtime.CompilerServices;    // EnumeratorCancellation for streamed responses
 
 namespace MTAnalyzer.Services
 {
@@ -22,6 +23,9 @@ namespace MTAnalyzer.Services
         // Generate intelligent conversational responses for chat interface
         Task<string> GenerateIntelligentResponseAsync(string userMessage, string conversationHistory = "");
         
+        // Same conversation as GenerateIntelligentResponseAsync, yielded as text deltas while GPT-4 generates them
+        IAsyncEnumerable<string> StreamIntelligentResponseAsync(string userMessage, string conversationHistory = "", CancellationToken cancellationToken = default);
+        
         // Classify the type of MT document based on description
         Task<MTClassificationResult> ClassifyMTTypeAsync(string description);
         
@@ -129,44 +133,88 @@ namespace MTAnalyzer.Services
         {
             try
             {
-                var prompt = BuildConversationPrompt(userMessage, conversationHistory);
-
-                var chatCompletionsOptions = new ChatCompletionsOptions()
-                {
-                    DeploymentName = _defaultDeploymentName, // Use configured deployment for consistency
-                    Messages = {
-                        new ChatRequestSystemMessage(GetConversationSystemPrompt()),
-                        new ChatRequestUserMessage(prompt)
-                    },
-                    Temperature = 0.3f,        // Balanced creativity and accuracy
-                    MaxTokens = 2000,          // Increased for detailed responses
-                    FrequencyPenalty = 0.2f,   // Reduce repetition
-                    PresencePenalty = 0.1f     // Encourage topic diversity
-                };
-
-                var response = await _openAIClient.GetChatCompletionsAsync(chatCompletionsOptions);
+                var response = await _openAIClient.GetChatCompletionsAsync(CreateConversationOptions(userMessage, conversationHistory));
                 return response.Value.Choices[0].Message.Content ?? "I apologize, but I couldn't generate a response. Please try again.";
             }
             catch (Exception ex)
             {
                 _logger.LogError(ex, "Error generating intelligent response");
-                
-                // Provide helpful fallback response based on error type
-                if (ex.Message.Contains("404") || ex.Message.Contains("Resource not found"))
-                {
-                    return "I'm currently experiencing connectivity issues with the AI service. However, I can still help you with general MT guidance. Please try asking about specific MT types (I-V), regulatory requirements, or technical considerations, and I'll do my best to assist you.";
-                }
-                else if (ex.Message.Contains("rate limit") || ex.Message.Contains("quota"))
-                {
-                    return "The AI service is currently experiencing high demand. While I work on reconnecting, consider reviewing your project against these key questions: 1) Does this modify safety-related equipment? 2) Does it change form, fit, or function? 3) Is this a temporary or permanent change? These factors will help determine MT requirements.";
-                }
-                else
+                return GetConversationFallbackResponse(ex);
+            }
+        }
+
+        public async IAsyncEnumerable<string> StreamIntelligentResponseAsync(
+            string userMessage,
+            string conversationHistory = "",
+            [EnumeratorCancellation] CancellationToken cancellationToken = default)
+        {
+            StreamingResponse<StreamingChatCompletionsUpdate>? stream = null;
+            string? fallbackResponse = null;
+
+            // Errors before the first token get the same fallback text as the non-streaming call
+            // (yield is not allowed inside a try block with a catch clause)
+            try
+            {
+                stream = await _openAIClient.GetChatCompletionsStreamingAsync(
+                    CreateConversationOptions(userMessage, conversationHistory), cancellationToken);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogError(ex, "Error starting intelligent response stream");
+                fallbackResponse = GetConversationFallbackResponse(ex);
+            }
+
+            if (stream == null)
+            {
+                yield return fallbackResponse ?? "I apologize, but I couldn't generate a response. Please try again.";
+                yield break;
+            }
+
+            using (stream)
+            {
+                await foreach (var update in stream.WithCancellation(cancellationToken))
                 {
-                    return "I'm experiencing technical difficulties, but I'm still here to help. Could you rephrase your question or ask about a specific aspect of your modification? I can assist with MT classification, regulatory requirements, or technical implementation considerations.";
+                    if (!string.IsNullOrEmpty(update.ContentUpdate))
+                    {
+                        yield return update.ContentUpdate;
+                    }
                 }
             }
         }
 
+        private ChatCompletionsOptions CreateConversationOptions(string userMessage, string conversationHistory)
+        {
+            return new ChatCompletionsOptions()
+            {
+                DeploymentName = _defaultDeploymentName, // Use configured deployment for consistency
+                Messages = {
+                    new ChatRequestSystemMessage(GetConversationSystemPrompt()),
+                    new ChatRequestUserMessage(BuildConversationPrompt(userMessage, conversationHistory))
+                },
+                Temperature = 0.3f,        // Balanced creativity and accuracy
+                MaxTokens = 2000,          // Increased for detailed responses
+                FrequencyPenalty = 0.2f,   // Reduce repetition
+                PresencePenalty = 0.1f     // Encourage topic diversity
+            };
+        }
+
+        // Provide helpful fallback response based on error type
+        private static string GetConversationFallbackResponse(Exception ex)
+        {
+            if (ex.Message.Contains("404") || ex.Message.Contains("Resource not found"))
+            {
+                return "I'm currently experiencing connectivity issues with the AI service. However, I can still help you with general MT guidance. Please try asking about specific MT types (I-V), regulatory requirements, or technical considerations, and I'll do my best to assist you.";
+            }
+            else if (ex.Message.Contains("rate limit") || ex.Message.Contains("quota"))
+            {
+                return "The AI service is currently experiencing high demand. While I work on reconnecting, consider reviewing your project against these key questions: 1) Does this modify safety-related equipment? 2) Does it change form, fit, or function? 3) Is this a temporary or permanent change? These factors will help determine MT requirements.";
+            }
+            else
+            {
+                return "I'm experiencing technical difficulties, but I'm still here to help. Could you rephrase your question or ask about a specific aspect of your modification? I can assist with MT classification, regulatory requirements, or technical implementation considerations.";
+            }
+        }
+
         public async Task<MTClassificationResult> ClassifyMTTypeAsync(string description)
         {
             try
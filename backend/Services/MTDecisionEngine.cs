@@ -5,10 +5,149 @@ namespace MTAnalyzer.Services
     public interface IMTDecisionEngine
     {
         (bool MTRequired, string Reason, DesignType DesignType) DetermineMTRequirement(ModificationTravelerInput input);
+        Figure1StepResponse EvaluateFigure1Step(Figure1StepRequest request);
+        MTInputValidationResult ValidateInput(ModificationTravelerInput input);
     }
 
     public class MTDecisionEngine : IMTDecisionEngine
     {
+        // A Figure 1 question; EndsOn is the answer that reaches an outcome (null: either answer does)
+        private record Figure1Step(string Key, string Question, string Guidance, bool? EndsOn);
+
+        // Main path of the Figure 1 decision tree, in the order DetermineMTRequirement evaluates it
+        private static readonly Figure1Step[] PhysicalChangePath =
+        {
+            new("isTemporary", "Are all changes temporary?", "Temporary modifications are controlled as Design Type IV.", true),
+            new("isPhysicalChange", "Is the change physical?", "Physical changes alter plant structures, systems or components; procedure-only changes are not physical.", null),
+            new("isIdenticalReplacement", "Is the change an identical replacement?", "Identical replacements (same form, fit and function) are Design Type V.", true),
+            new("isDesignOutsideDA", "Is the design being performed outside the Design Authority's group?", "Design work by another organization requires an MT for coordination.", true),
+            new("requiresNewProcedures", "Is a new or revised technical procedure, training, or maintenance manual required?", "Include operating, maintenance and surveillance procedures and training material.", true),
+            new("requiresMultipleDocuments", "Is more than one design document (ECN, DCN, EDT, etc.) needed?", "Count every design output document that must be issued or revised.", true),
+            new("isSingleDiscipline", "Is the design single-discipline?", "Designs that need more than one engineering discipline require an MT.", false),
+            new("revisionsOutsideDA", "Are revisions implemented outside the Design Authority's group?", "Consider field work and document revisions performed by other groups.", true),
+            new("requiresSoftwareChange", "Does the change also require a software change?", "Include PLC logic, control system configuration and safety software.", true),
+            new("requiresHoistingRigging", "Does the change require hoisting and/or rigging?", "Any lift governed by the hoisting and rigging program counts.", null)
+        };
+
+        // Branch taken when the change is not physical
+        private static readonly Figure1Step[] NonPhysicalChangePath =
+        {
+            new("facilityChangePackageApplicable", "Is the Facilities Change Package process (TFC-ENG-DESIGN-C-67) applicable?", "Facility changes handled by TFC-ENG-DESIGN-C-67 do not use an MT.", true),
+            new("requiresNewProcedures", "Is a new or revised technical procedure required?", "Non-physical changes need an MT only when technical procedures change.", null)
+        };
+
+        private static readonly string[] DesignTypeNames = { "Type I - New Design", "Type II - Modification", "Type III - Replacement", "Type IV - Temporary", "Type V - Identical Replacement" };
+
+        public Figure1StepResponse EvaluateFigure1Step(Figure1StepRequest request)
+        {
+            var response = new Figure1StepResponse();
+            var remaining = new Queue<Figure1Step>(PhysicalChangePath);
+
+            while (remaining.Count > 0)
+            {
+                var step = remaining.Dequeue();
+
+                if (!request.Answers.TryGetValue(step.Key, out var answer))
+                {
+                    // Progress counts the answered steps against the longest route still possible
+                    var totalSteps = response.Path.Count + 1 + remaining.Count;
+                    response.CurrentStep = step.Key;
+                    response.StepNumber = response.Path.Count + 1;
+                    response.Question = step.Question;
+                    response.Guidance = step.Guidance;
+                    response.Options = new List<string> { "Yes", "No" };
+                    response.Progress = (int)Math.Round(100.0 * response.Path.Count / totalSteps);
+                    return response;
+                }
+
+                response.Path.Add(new Figure1AnsweredStep { Step = step.Key, Question = step.Question, Answer = answer });
+
+                if (step.Key == "isPhysicalChange" && !answer)
+                {
+                    remaining = new Queue<Figure1Step>(NonPhysicalChangePath);
+                    continue;
+                }
+
+                if (step.EndsOn == null ? remaining.Count == 0 : answer == step.EndsOn.Value)
+                {
+                    break;
+                }
+            }
+
+            var (mtRequired, reason, designType) = DetermineMTRequirement(BuildInput(request));
+            response.IsComplete = true;
+            response.Progress = 100;
+            response.Determination = new Figure1Determination
+            {
+                MTRequired = mtRequired,
+                Reason = reason,
+                DesignType = (int)designType + 1,
+                DesignTypeName = DesignTypeNames[(int)designType]
+            };
+            return response;
+        }
+
+        // Map the Figure 1 answers onto the input flags DetermineMTRequirement works from
+        private static ModificationTravelerInput BuildInput(Figure1StepRequest request)
+        {
+            bool Answer(string key) => request.Answers.TryGetValue(key, out var value) && value;
+
+            return new ModificationTravelerInput
+            {
+                ProblemDescription = request.ProblemDescription,
+                ProposedSolution = request.ProposedSolution,
+                IsTemporary = Answer("isTemporary"),
+                IsPhysicalChange = Answer("isPhysicalChange"),
+                IsIdenticalReplacement = Answer("isIdenticalReplacement"),
+                IsDesignOutsideDA = Answer("isDesignOutsideDA"),
+                RequiresNewProcedures = Answer("requiresNewProcedures"),
+                RequiresMultipleDocuments = Answer("requiresMultipleDocuments"),
+                // Unanswered means the tree ended earlier, so default to the answer that does not end it
+                IsSingleDiscipline = !request.Answers.TryGetValue("isSingleDiscipline", out var singleDiscipline) || singleDiscipline,
+                RevisionsOutsideDA = Answer("revisionsOutsideDA"),
+                RequiresSoftwareChange = Answer("requiresSoftwareChange"),
+                RequiresHoistingRigging = Answer("requiresHoistingRigging"),
+                FacilityChangePackageApplicable = Answer("facilityChangePackageApplicable")
+            };
+        }
+
+        public MTInputValidationResult ValidateInput(ModificationTravelerInput input)
+        {
+            var result = new MTInputValidationResult();
+            void Error(string field, string message) => result.Errors.Add(new MTInputValidationMessage { Field = field, Message = message });
+            void Warning(string field, string message) => result.Warnings.Add(new MTInputValidationMessage { Field = field, Message = message });
+
+            if (string.IsNullOrWhiteSpace(input.ProblemDescription))
+                Error("problemDescription", "Problem description is required");
+            else if (input.ProblemDescription.Trim().Length < 20)
+                Warning("problemDescription", "Problem description is very short; describe the condition being corrected");
+
+            if (string.IsNullOrWhiteSpace(input.ProposedSolution))
+                Error("proposedSolution", "Proposed solution is required");
+
+            if (string.IsNullOrWhiteSpace(input.ProjectNumber))
+                Warning("projectNumber", "Project number has not been assigned");
+
+            // Figure 1 flags that contradict each other
+            if (input.IsTemporary && input.IsIdenticalReplacement)
+                Error("isIdenticalReplacement", "A change cannot be both temporary and an identical replacement");
+
+            if (!input.IsPhysicalChange && input.IsIdenticalReplacement)
+                Error("isIdenticalReplacement", "An identical replacement is a physical change");
+
+            if (!input.IsPhysicalChange && input.RequiresHoistingRigging)
+                Warning("requiresHoistingRigging", "Hoisting and rigging is marked as required for a non-physical change");
+
+            if (input.IsPhysicalChange && input.FacilityChangePackageApplicable)
+                Warning("facilityChangePackageApplicable", "The Facilities Change Package process only applies to non-physical changes");
+
+            if (input.RequiresMultipleDocuments && input.IsIdenticalReplacement)
+                Warning("requiresMultipleDocuments", "Identical replacements do not normally need multiple design documents");
+
+            result.IsValid = result.Errors.Count == 0;
+            return result;
+        }
+
         public (bool MTRequired, string Reason, DesignType DesignType) DetermineMTRequirement(ModificationTravelerInput input)
         {
             // Implementation of Figure 1 Decision Tree Logic
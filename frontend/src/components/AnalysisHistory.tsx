@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, GitCompare, MessageSquarePlus, RefreshCw, X } from 'lucide-react';
+import { DocumentAnalysisAPI } from '../services/documentAnalysisAPI';
+import { QualityRating, type DocumentAnalysisHistoryItem, type DocumentAnalysisResult } from '../types/documentAnalysis';
+
+interface AnalysisHistoryProps {
+  // Bumped by the parent after each new analysis so the list reloads
+  refreshKey?: number;
+  onInjectSummary: (result: DocumentAnalysisResult) => void;
+  onClose: () => void;
+}
+
+const RATING_CLASSES: Record<QualityRating, string> = {
+  [QualityRating.Excellent]: 'bg-green-100 text-green-800',
+  [QualityRating.Good]: 'bg-blue-100 text-blue-800',
+  [QualityRating.Satisfactory]: 'bg-yellow-100 text-yellow-800',
+  [QualityRating.NeedsImprovement]: 'bg-orange-100 text-orange-800',
+  [QualityRating.Poor]: 'bg-red-100 text-red-800',
+  [QualityRating.Unknown]: 'bg-gray-100 text-gray-700'
+};
+
+// Rows of the side-by-side comparison; deltas are coloured by whether they are an improvement
+const COMPARISON_METRICS: Array<{ label: string; value: (result: DocumentAnalysisResult) => number; higherIsBetter: boolean }> = [
+  { label: 'Overall', value: r => r.qualityScore.overall, higherIsBetter: true },
+  { label: 'Grammar', value: r => r.qualityScore.grammar, higherIsBetter: true },
+  { label: 'Style', value: r => r.qualityScore.style, higherIsBetter: true },
+  { label: 'Clarity', value: r => r.qualityScore.clarity, higherIsBetter: true },
+  { label: 'Technical', value: r => r.qualityScore.technical, higherIsBetter: true },
+  { label: 'Compliance', value: r => r.qualityScore.compliance, higherIsBetter: true },
+  { label: 'Issues', value: r => r.grammar.totalIssues + r.style.issues.length + r.technical.issues.length, higherIsBetter: false },
+  { label: 'Words', value: r => r.metadata.wordCount, higherIsBetter: true },
+  { label: 'Pages', value: r => r.metadata.pageCount, higherIsBetter: true }
+];
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? 'Unknown date' : date.toLocaleString();
+};
+
+const formatScore = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+const AnalysisDetails: React.FC<{ result: DocumentAnalysisResult }> = ({ result }) => (
+  <div className="p-2 border-t space-y-2 text-xs">
+    <div className="grid grid-cols-3 gap-1">
+      {COMPARISON_METRICS.slice(1, 6).map(metric => (
+        <div key={metric.label} className="bg-gray-50 rounded px-2 py-1">
+          <div className="text-gray-500">{metric.label}</div>
+          <div className="font-semibold text-gray-900">{formatScore(metric.value(result))}</div>
+        </div>
+      ))}
+    </div>
+    <p className="text-gray-500">
+      {result.metadata.documentType} · {result.metadata.pageCount} pages · {result.metadata.wordCount.toLocaleString()} words
+    </p>
+    {result.summary && <p className="text-gray-700">{result.summary}</p>}
+    {result.suggestions.length > 0 && (
+      <ul className="list-disc pl-4 space-y-1 text-gray-700">
+        {result.suggestions.slice(0, 3).map(suggestion => (
+          <li key={suggestion.id}>
+            <span className="font-medium">{suggestion.title}</span> ({suggestion.impact} impact)
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({ refreshKey = 0, onInjectSummary, onClose }) => {
+  const [items, setItems] = useState<DocumentAnalysisHistoryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Full results fetched so far, keyed by documentId
+  const [results, setResults] = useState<Record<string, DocumentAnalysisResult>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setItems(await DocumentAnalysisAPI.getHistory());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load analysis history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, refreshKey]);
+
+  const loadResult = useCallback(async (documentId: string): Promise<DocumentAnalysisResult | null> => {
+    if (results[documentId]) return results[documentId];
+    try {
+      const result = await DocumentAnalysisAPI.getHistoryEntry(documentId);
+      if (!result.isAnalysisSuccessful) throw new Error(result.errorMessage);
+      setResults(prev => ({ ...prev, [documentId]: result }));
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load the analysis');
+      return null;
+    }
+  }, [results]);
+
+  const toggleExpanded = (documentId: string) => {
+    if (expandedId === documentId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(documentId);
+    loadResult(documentId);
+  };
+
+  const injectSummary = async (documentId: string) => {
+    const result = await loadResult(documentId);
+    if (result) onInjectSummary(result);
+  };
+
+  // Only two analyses of the same file can be compared
+  const compareFileName = items.find(item => item.documentId === compareIds[0])?.fileName;
+  const toggleCompare = (item: DocumentAnalysisHistoryItem) => {
+    if (compareIds.includes(item.documentId)) {
+      setCompareIds(prev => prev.filter(id => id !== item.documentId));
+      return;
+    }
+    if (compareIds.length >= 2) return;
+    setCompareIds(prev => [...prev, item.documentId]);
+    loadResult(item.documentId);
+  };
+
+  // Older analysis first, so deltas read as "what changed since"
+  const comparison = useMemo(() => {
+    const [older, newer] = compareIds
+      .map(id => items.find(item => item.documentId === id))
+      .filter((item): item is DocumentAnalysisHistoryItem => !!item)
+      .sort((a, b) => a.analysisDate.localeCompare(b.analysisDate))
+      .map(item => results[item.documentId]);
+    return older && newer ? { older, newer } : null;
+  }, [compareIds, items, results]);
+
+  return (
+    <div className="h-full flex flex-col text-sm bg-white">
+      <div className="flex items-center justify-between p-3 border-b bg-gray-50">
+        <h3 className="font-semibold text-gray-900">Analysis History</h3>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={loadHistory}
+            disabled={isLoading}
+            className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" title="Close">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="m-3 p-2 bg-red-50 border border-red-200 text-red-700 rounded text-xs">{error}</div>}
+
+      {compareIds.length > 0 && (
+        <div className="p-3 border-b space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-gray-700">Compare · {compareFileName}</span>
+            <button onClick={() => setCompareIds([])} className="text-xs text-gray-500 hover:text-gray-800">Clear</button>
+          </div>
+          {!comparison ? (
+            <p className="text-xs text-gray-500 italic">Select another analysis of the same document.</p>
+          ) : (
+            <table className="w-full text-xs border-collapse">
+              <thead>
+                <tr className="bg-gray-100 text-left">
+                  <th className="border border-gray-200 px-2 py-1">Metric</th>
+                  <th className="border border-gray-200 px-2 py-1">{formatDate(comparison.older.analysisTimestamp)}</th>
+                  <th className="border border-gray-200 px-2 py-1">{formatDate(comparison.newer.analysisTimestamp)}</th>
+                  <th className="border border-gray-200 px-2 py-1">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {COMPARISON_METRICS.map(metric => {
+                  const before = metric.value(comparison.older);
+                  const after = metric.value(comparison.newer);
+                  const delta = after - before;
+                  const improved = metric.higherIsBetter ? delta > 0 : delta < 0;
+                  return (
+                    <tr key={metric.label}>
+                      <td className="border border-gray-200 px-2 py-1">{metric.label}</td>
+                      <td className="border border-gray-200 px-2 py-1">{formatScore(before)}</td>
+                      <td className="border border-gray-200 px-2 py-1">{formatScore(after)}</td>
+                      <td className={`border border-gray-200 px-2 py-1 ${delta === 0 ? 'text-gray-400' : improved ? 'text-green-700' : 'text-red-700'}`}>
+                        {delta > 0 ? '+' : ''}{formatScore(delta)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {/* Past analyses, newest first */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {!isLoading && items.length === 0 && !error && (
+          <p className="text-xs text-gray-500 italic">No analyses recorded yet.</p>
+        )}
+        {items.map(item => {
+          const isExpanded = expandedId === item.documentId;
+          const result = results[item.documentId];
+          const isSelected = compareIds.includes(item.documentId);
+          const canCompare = isSelected || (compareIds.length < 2 && (!compareFileName || compareFileName === item.fileName));
+          return (
+            <div key={item.documentId} className={`border rounded ${isSelected ? 'border-blue-400' : 'border-gray-200'}`}>
+              <div className="flex items-start justify-between p-2">
+                <button onClick={() => toggleExpanded(item.documentId)} className="flex items-start space-x-2 text-left min-w-0">
+                  {isExpanded ? <ChevronDown size={14} className="mt-0.5 shrink-0" /> : <ChevronRight size={14} className="mt-0.5 shrink-0" />}
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 truncate">{item.fileName}</div>
+                    <div className="text-xs text-gray-500">{formatDate(item.analysisDate)} · {item.issuesFound} issues</div>
+                  </div>
+                </button>
+                <div className="flex flex-col items-end space-y-1 shrink-0 ml-2">
+                  <span className="font-semibold text-gray-900">{formatScore(item.overallScore)}</span>
+                  <span className={`px-2 py-0.5 rounded text-xs ${RATING_CLASSES[item.rating]}`}>{item.rating}</span>
+                </div>
+              </div>
+              <div className="flex items-center space-x-3 px-2 pb-2 text-xs">
+                <button
+                  onClick={() => toggleCompare(item)}
+                  disabled={!canCompare}
+                  className={`flex items-center space-x-1 ${isSelected ? 'text-blue-700' : 'text-gray-600 hover:text-gray-900'} disabled:opacity-40`}
+                  title={canCompare ? 'Compare with another analysis of this document' : 'Only analyses of the same document can be compared'}
+                >
+                  <GitCompare size={12} />
+                  <span>{isSelected ? 'Comparing' : 'Compare'}</span>
+                </button>
+                <button
+                  onClick={() => injectSummary(item.documentId)}
+                  className="flex items-center space-x-1 text-gray-600 hover:text-gray-900"
+                >
+                  <MessageSquarePlus size={12} />
+                  <span>Send summary to chat</span>
+                </button>
+              </div>
+              {isExpanded && (result
+                ? <AnalysisDetails result={result} />
+                : <p className="p-2 border-t text-xs text-gray-500 italic">Loading analysis...</p>)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisHistory;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { getDocumentTypeLabel } from '../services/analysisCapabilities';
+import type { AnalysisCapabilities, AnalysisOptions } from '../types/documentAnalysis';
+
+interface AnalysisOptionsPanelProps {
+  options: AnalysisOptions;
+  onChange: (options: AnalysisOptions) => void;
+  capabilities: AnalysisCapabilities;
+  // 'stacked' for narrow containers such as the chat's PDF options popover
+  layout?: 'grid' | 'stacked';
+}
+
+type FeatureToggleKey = 'performGrammarCheck' | 'performStyleCheck' | 'performTechnicalReview' | 'performComplianceCheck';
+
+// A toggle is shown when one of the backend's analysisFeatures mentions its keyword
+const FEATURE_TOGGLES: Array<{ key: FeatureToggleKey; label: string; keyword: string }> = [
+  { key: 'performGrammarCheck', label: 'Grammar & Spelling Check', keyword: 'grammar' },
+  { key: 'performStyleCheck', label: 'Style & Clarity Analysis', keyword: 'style' },
+  { key: 'performTechnicalReview', label: 'Technical Review', keyword: 'technical' },
+  { key: 'performComplianceCheck', label: 'Compliance Check', keyword: 'compliance' }
+];
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  documentType: 'general',
+  performGrammarCheck: true,
+  performStyleCheck: true,
+  performTechnicalReview: true,
+  performComplianceCheck: false,
+  complianceFramework: ''
+};
+
+export const AnalysisOptionsPanel: React.FC<AnalysisOptionsPanelProps> = ({ options, onChange, capabilities, layout = 'grid' }) => {
+  const features = capabilities.analysisFeatures.map(feature => feature.toLowerCase());
+  // No feature list (e.g. capabilities not loaded) means every toggle is offered
+  const toggles = FEATURE_TOGGLES.filter(toggle => features.length === 0 || features.some(feature => feature.includes(toggle.keyword)));
+  const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className={layout === 'grid' ? 'grid grid-cols-1 md:grid-cols-2 gap-6' : 'space-y-4'}>
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Document Type
+          </label>
+          <select
+            value={options.documentType}
+            onChange={(e) => onChange({ ...options, documentType: e.target.value })}
+            className={selectClassName}
+          >
+            {capabilities.supportedDocumentTypes.map(documentType => (
+              <option key={documentType} value={documentType}>{getDocumentTypeLabel(documentType)}</option>
+            ))}
+          </select>
+        </div>
+
+        {capabilities.complianceFrameworks.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Compliance Framework
+            </label>
+            <select
+              value={options.complianceFramework}
+              onChange={(e) => onChange({ ...options, complianceFramework: e.target.value })}
+              disabled={!options.performComplianceCheck}
+              className={`${selectClassName} disabled:bg-gray-100 disabled:text-gray-400`}
+              title={options.performComplianceCheck ? undefined : 'Enable the compliance check to choose a framework'}
+            >
+              {capabilities.complianceFrameworks.map(framework => (
+                <option key={framework} value={framework}>{framework}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {toggles.map(toggle => (
+          <label key={toggle.key} className="flex items-center">
+            <input
+              type="checkbox"
+              checked={options[toggle.key]}
+              onChange={(e) => onChange({ ...options, [toggle.key]: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="ml-2 text-sm text-gray-700">{toggle.label}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisOptionsPanel;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import type { ChecklistItem } from '../services/mtDocumentService';
+import {
+  ATTACHMENT_A_CATEGORIES,
+  calculateAttachmentACompletion,
+  calculateChecklistCompletion,
+  type AttachmentABackendSection,
+  type AttachmentACategory,
+  type AttachmentAData
+} from '../services/attachmentAChecklist';
+
+interface AttachmentAChecklistProps {
+  attachmentA: AttachmentAData;
+  riskLevels?: Partial<Record<AttachmentABackendSection, string>>;
+  onChange: (attachmentA: AttachmentAData) => void;
+}
+
+const STATUS_OPTIONS: ChecklistItem['status'][] = ['Pending', 'Complete', 'N/A'];
+
+const ProgressBar: React.FC<{ percentage: number }> = ({ percentage }) => (
+  <div className="h-1.5 w-full bg-gray-200 rounded">
+    <div
+      className={`h-1.5 rounded ${percentage === 100 ? 'bg-green-600' : 'bg-blue-600'}`}
+      style={{ width: `${percentage}%` }}
+    />
+  </div>
+);
+
+export const AttachmentAChecklist: React.FC<AttachmentAChecklistProps> = ({ attachmentA, riskLevels, onChange }) => {
+  const [expanded, setExpanded] = useState<AttachmentACategory | null>(ATTACHMENT_A_CATEGORIES[0].key);
+  const [newItems, setNewItems] = useState<Partial<Record<AttachmentACategory, string>>>({});
+
+  const overall = calculateAttachmentACompletion(attachmentA);
+
+  const setItems = (category: AttachmentACategory, items: ChecklistItem[]) => {
+    onChange({ ...attachmentA, [category]: items });
+  };
+
+  const updateItem = (category: AttachmentACategory, index: number, changes: Partial<ChecklistItem>) => {
+    const items = attachmentA[category] || [];
+    setItems(category, items.map((item, itemIndex) => {
+      if (itemIndex !== index) return item;
+      const updated = { ...item, ...changes };
+      // Completing an item stamps today's date unless the reviewer already set one
+      if (changes.status === 'Complete' && !updated.date) {
+        updated.date = new Date().toISOString().split('T')[0];
+      }
+      return updated;
+    }));
+  };
+
+  const addItem = (category: AttachmentACategory) => {
+    const description = newItems[category]?.trim();
+    if (!description) return;
+    setItems(category, [...(attachmentA[category] || []), { description, status: 'Pending' }]);
+    setNewItems(prev => ({ ...prev, [category]: '' }));
+  };
+
+  // Text inputs commit on blur so typing does not record a revision per keystroke
+  const commitText = (category: AttachmentACategory, index: number, field: 'reviewer' | 'comments', value: string) => {
+    if ((attachmentA[category]?.[index]?.[field] || '') !== value) {
+      updateItem(category, index, { [field]: value });
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col text-sm">
+      <div className="p-3 border-b bg-gray-50 space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900">Attachment A Checklist</h3>
+          <span className="text-xs text-gray-600">
+            {overall.percentage}% · {overall.complete} complete · {overall.pending} pending
+          </span>
+        </div>
+        <ProgressBar percentage={overall.percentage} />
+        {riskLevels && Object.keys(riskLevels).length > 0 && (
+          <div className="text-xs text-gray-600">
+            Risk: {Object.entries(riskLevels).map(([section, risk]) => `${section} ${risk}`).join(' · ')}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {ATTACHMENT_A_CATEGORIES.map(category => {
+          const items = attachmentA[category.key] || [];
+          const completion = calculateChecklistCompletion(items);
+          const isExpanded = expanded === category.key;
+
+          return (
+            <div key={category.key} className="border border-gray-200 rounded">
+              <button
+                onClick={() => setExpanded(isExpanded ? null : category.key)}
+                className="w-full p-2 text-left hover:bg-gray-50 space-y-1"
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                    <span className="font-medium text-gray-800">{category.title}</span>
+                  </div>
+                  <span className="text-xs text-gray-600">
+                    {completion.complete}/{completion.total - completion.notApplicable} · {completion.percentage}%
+                  </span>
+                </div>
+                <ProgressBar percentage={completion.percentage} />
+              </button>
+
+              {isExpanded && (
+                <div className="p-2 border-t space-y-3">
+                  {items.length === 0 && (
+                    <p className="text-xs text-gray-500 italic">No checklist items.</p>
+                  )}
+                  {items.map((item, index) => (
+                    <div key={`${category.key}-${index}-${item.description}`} className="space-y-1 pb-2 border-b last:border-b-0">
+                      <div className="flex items-start justify-between">
+                        <span className="text-gray-800">
+                          {item.description}
+                          {item.required && <span className="text-red-600 ml-1" title="Required">*</span>}
+                          {item.sourceSection && <span className="ml-1 text-xs text-gray-500">({item.sourceSection})</span>}
+                        </span>
+                        <button
+                          onClick={() => setItems(category.key, items.filter((_, itemIndex) => itemIndex !== index))}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Remove item"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-3 gap-1">
+                        <select
+                          value={item.status}
+                          onChange={(e) => updateItem(category.key, index, { status: e.target.value as ChecklistItem['status'] })}
+                          className="px-1 py-1 border border-gray-300 rounded text-xs"
+                        >
+                          {STATUS_OPTIONS.map(status => <option key={status} value={status}>{status}</option>)}
+                        </select>
+                        <input
+                          type="text"
+                          defaultValue={item.reviewer || ''}
+                          placeholder="Reviewer"
+                          onBlur={(e) => commitText(category.key, index, 'reviewer', e.target.value)}
+                          className="px-1 py-1 border border-gray-300 rounded text-xs"
+                        />
+                        <input
+                          type="date"
+                          value={item.date || ''}
+                          onChange={(e) => updateItem(category.key, index, { date: e.target.value })}
+                          className="px-1 py-1 border border-gray-300 rounded text-xs"
+                        />
+                      </div>
+                      <input
+                        type="text"
+                        defaultValue={item.comments || ''}
+                        placeholder="Comments"
+                        onBlur={(e) => commitText(category.key, index, 'comments', e.target.value)}
+                        className="w-full px-1 py-1 border border-gray-300 rounded text-xs"
+                      />
+                    </div>
+                  ))}
+
+                  <div className="flex items-center space-x-1">
+                    <input
+                      type="text"
+                      value={newItems[category.key] || ''}
+                      placeholder="Add checklist item..."
+                      onChange={(e) => setNewItems(prev => ({ ...prev, [category.key]: e.target.value }))}
+                      onKeyDown={(e) => { if (e.key === 'Enter') addItem(category.key); }}
+                      className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs"
+                    />
+                    <button
+                      onClick={() => addItem(category.key)}
+                      className="p-1 text-blue-600 hover:text-blue-800"
+                      title="Add item"
+                    >
+                      <Plus size={16} />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
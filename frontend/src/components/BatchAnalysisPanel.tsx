@@ -0,0 +1,285 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CheckCircle, FileDown, FilePlus, Loader2, MessageSquarePlus, RotateCcw, Square, XCircle } from 'lucide-react';
+import type BatchAnalysisQueue from '../services/batchAnalysis';
+import type { BatchItem, BatchItemStatus } from '../services/batchAnalysis';
+import { formatFileSize, getAcceptAttribute, validateUploadFile } from '../services/analysisCapabilities';
+import {
+  BATCH_ISSUE_CATEGORY_LABELS,
+  BATCH_SCORE_LABELS,
+  batchReportToCsv,
+  batchReportToMarkdown,
+  buildBatchReport,
+  downloadTextFile,
+  type BatchIssueCategory,
+  type BatchScoreKey
+} from '../services/batchAnalysisReport';
+import type { AnalysisCapabilities, AnalysisOptions } from '../types/documentAnalysis';
+
+interface BatchAnalysisPanelProps {
+  // Owned by the parent so files dropped elsewhere (and runs in progress) survive re-renders
+  queue: BatchAnalysisQueue;
+  options: AnalysisOptions;
+  capabilities: AnalysisCapabilities;
+  // Posts the Markdown report to the chat
+  onSendReport?: (markdown: string) => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-700' },
+  analyzing: { label: 'Analyzing', className: 'bg-blue-100 text-blue-800' },
+  done: { label: 'Done', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  rejected: { label: 'Not uploaded', className: 'bg-orange-100 text-orange-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-200 text-gray-600' }
+};
+
+const SCORE_KEYS = Object.keys(BATCH_SCORE_LABELS) as BatchScoreKey[];
+const ISSUE_CATEGORIES = Object.keys(BATCH_ISSUE_CATEGORY_LABELS) as BatchIssueCategory[];
+
+// Worst documents shown before "Show all"
+const WORST_DOCUMENTS_PREVIEW = 10;
+
+const StatusIcon: React.FC<{ status: BatchItemStatus }> = ({ status }) => {
+  if (status === 'analyzing') return <Loader2 size={14} className="animate-spin text-blue-600" />;
+  if (status === 'done') return <CheckCircle size={14} className="text-green-600" />;
+  if (status === 'failed' || status === 'rejected') return <XCircle size={14} className="text-red-600" />;
+  return <span className="inline-block w-3.5 h-3.5 rounded-full border border-gray-300" />;
+};
+
+export const BatchAnalysisPanel: React.FC<BatchAnalysisPanelProps> = ({ queue, options, capabilities, onSendReport }) => {
+  const [items, setItems] = useState<BatchItem[]>(() => queue.getItems());
+  const [showAllDocuments, setShowAllDocuments] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => queue.subscribe(setItems), [queue]);
+
+  const progress = queue.getProgress();
+  const report = useMemo(() => buildBatchReport(items), [items]);
+  const isRunning = items.some(item => item.status === 'queued' || item.status === 'analyzing');
+  const canRetry = items.some(item => item.status === 'failed' || item.status === 'cancelled');
+  const percent = progress.total === 0 ? 0 : Math.round((progress.finished / progress.total) * 100);
+
+  const addFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    queue.add(Array.from(files), options, file => validateUploadFile(file, capabilities));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const exportName = `Batch_Analysis_${new Date().toISOString().split('T')[0]}`;
+  const documents = showAllDocuments ? report.documents : report.documents.slice(0, WORST_DOCUMENTS_PREVIEW);
+
+  return (
+    <div className="space-y-6 text-sm">
+      {/* Queue controls and overall progress */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center space-x-1 px-3 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <FilePlus size={14} />
+            <span>Add PDFs</span>
+          </button>
+          {isRunning && (
+            <button onClick={() => queue.cancel()} className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 rounded hover:bg-gray-50">
+              <Square size={14} />
+              <span>Cancel</span>
+            </button>
+          )}
+          {canRetry && !isRunning && (
+            <button onClick={() => queue.retryFailed()} className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 rounded hover:bg-gray-50">
+              <RotateCcw size={14} />
+              <span>Retry failed</span>
+            </button>
+          )}
+          {items.length > 0 && !isRunning && (
+            <button onClick={() => queue.clear()} className="px-3 py-1.5 text-gray-600 hover:text-gray-900">
+              Clear
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={getAcceptAttribute(capabilities)}
+            onChange={(e) => addFiles(e.target.files)}
+            className="hidden"
+          />
+        </div>
+
+        {items.length > 0 && (
+          <div>
+            <div className="flex justify-between text-xs text-gray-600 mb-1">
+              <span>{progress.finished} of {progress.total} finished · {progress.active} analyzing</span>
+              <span>{progress.succeeded} succeeded · {progress.failed} failed</span>
+            </div>
+            <div className="w-full h-2 bg-gray-200 rounded">
+              <div className="h-2 bg-blue-600 rounded transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Per-file status */}
+      {items.length === 0 ? (
+        <p className="text-gray-500 italic">Add a package of PDFs to analyze them together and get an aggregate report.</p>
+      ) : (
+        <ul className="border border-gray-200 rounded divide-y max-h-72 overflow-y-auto">
+          {items.map(item => {
+            const status = STATUS_LABELS[item.status];
+            return (
+              <li key={item.id} className="flex items-center justify-between px-3 py-2">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <StatusIcon status={item.status} />
+                  <div className="min-w-0">
+                    <div className="truncate text-gray-900">{item.fileName}</div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {formatFileSize(item.fileSize)}
+                      {item.error && <span className="text-red-600"> · {item.error}</span>}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 shrink-0 ml-2">
+                  {item.result && <span className="font-semibold text-gray-900">{item.result.qualityScore.overall.toFixed(1)}</span>}
+                  <span className={`px-2 py-0.5 rounded text-xs ${status.className}`}>{status.label}</span>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Aggregate report */}
+      {report.analyzedFiles > 0 && (
+        <div className="space-y-6 border-t pt-6">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Batch Report · {report.analyzedFiles} of {report.totalFiles} analyzed
+            </h3>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => downloadTextFile(batchReportToCsv(report), `${exportName}.csv`, 'text/csv;charset=utf-8')}
+                className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 rounded hover:bg-gray-50"
+              >
+                <FileDown size={14} />
+                <span>CSV</span>
+              </button>
+              <button
+                onClick={() => downloadTextFile(batchReportToMarkdown(report), `${exportName}.md`, 'text/markdown;charset=utf-8')}
+                className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 rounded hover:bg-gray-50"
+              >
+                <FileDown size={14} />
+                <span>Markdown</span>
+              </button>
+              {onSendReport && (
+                <button
+                  onClick={() => onSendReport(batchReportToMarkdown(report))}
+                  className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  <MessageSquarePlus size={14} />
+                  <span>Send to chat</span>
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Score distributions: documents per score band, per aspect */}
+          <div>
+            <h4 className="font-medium text-gray-700 mb-2">Score Distribution</h4>
+            <table className="w-full text-xs border-collapse">
+              <thead>
+                <tr className="bg-gray-100 text-left">
+                  <th className="border border-gray-200 px-2 py-1">Range</th>
+                  {SCORE_KEYS.map(key => (
+                    <th key={key} className="border border-gray-200 px-2 py-1">{BATCH_SCORE_LABELS[key]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.distributions.overall.map((band, index) => (
+                  <tr key={band.label}>
+                    <td className="border border-gray-200 px-2 py-1">{band.label}</td>
+                    {SCORE_KEYS.map(key => {
+                      const count = report.distributions[key][index].count;
+                      return (
+                        <td key={key} className="border border-gray-200 px-2 py-1">
+                          <div className="flex items-center space-x-2">
+                            <div className="h-2 bg-blue-500 rounded" style={{ width: `${(count / report.analyzedFiles) * 60}px` }} />
+                            <span>{count}</span>
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr className="bg-gray-50 font-medium">
+                  <td className="border border-gray-200 px-2 py-1">Average</td>
+                  {SCORE_KEYS.map(key => (
+                    <td key={key} className="border border-gray-200 px-2 py-1">{report.averageScores[key].toFixed(1)}</td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {/* Most common issue types across files */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {ISSUE_CATEGORIES.map(category => (
+              <div key={category}>
+                <h4 className="font-medium text-gray-700 mb-2">{BATCH_ISSUE_CATEGORY_LABELS[category]} issues</h4>
+                {report.topIssueTypes[category].length === 0 ? (
+                  <p className="text-xs text-gray-500 italic">No issues reported.</p>
+                ) : (
+                  <ul className="space-y-1 text-xs">
+                    {report.topIssueTypes[category].map(issue => (
+                      <li key={issue.type} className="flex justify-between">
+                        <span className="text-gray-800 truncate">{issue.type}</span>
+                        <span className="text-gray-500 shrink-0 ml-2">{issue.occurrences}× in {issue.fileCount} files</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Documents, worst first */}
+          <div>
+            <h4 className="font-medium text-gray-700 mb-2">Documents (worst first)</h4>
+            <table className="w-full text-xs border-collapse">
+              <thead>
+                <tr className="bg-gray-100 text-left">
+                  <th className="border border-gray-200 px-2 py-1">File</th>
+                  {SCORE_KEYS.map(key => (
+                    <th key={key} className="border border-gray-200 px-2 py-1">{BATCH_SCORE_LABELS[key]}</th>
+                  ))}
+                  <th className="border border-gray-200 px-2 py-1">Issues</th>
+                </tr>
+              </thead>
+              <tbody>
+                {documents.map((document, index) => (
+                  <tr key={`${document.fileName}-${index}`}>
+                    <td className="border border-gray-200 px-2 py-1 break-all">{document.fileName}</td>
+                    {SCORE_KEYS.map(key => (
+                      <td key={key} className={`border border-gray-200 px-2 py-1 ${document.scores[key] < 60 ? 'text-red-700' : ''}`}>
+                        {document.scores[key].toFixed(1)}
+                      </td>
+                    ))}
+                    <td className="border border-gray-200 px-2 py-1">{document.issueCount}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.documents.length > WORST_DOCUMENTS_PREVIEW && (
+              <button onClick={() => setShowAllDocuments(!showAllDocuments)} className="mt-2 text-xs text-blue-600 hover:text-blue-800">
+                {showAllDocuments ? 'Show fewer' : `Show all ${report.documents.length} documents`}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchAnalysisPanel;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+import {
+  DESIGN_TYPE_OPTIONS,
+  EMPTY_CHAT_SEARCH_FILTERS,
+  hasActiveChatFilters,
+  type ChatSearchFilters,
+  type ChatSearchResult
+} from '../services/chatSearch';
+
+interface ChatHistorySearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  filters: ChatSearchFilters;
+  onFiltersChange: (filters: ChatSearchFilters) => void;
+}
+
+interface ChatSearchResultsProps {
+  results: ChatSearchResult[];
+  currentChatId: string;
+  // messageId is set when a snippet from a message was clicked
+  onOpenResult: (chatId: string, messageId?: string) => void;
+}
+
+// Search box and MT filters for the chat history sidebar
+export const ChatHistorySearch: React.FC<ChatHistorySearchProps> = ({ query, onQueryChange, filters, onFiltersChange }) => {
+  const [showFilters, setShowFilters] = useState(false);
+  const filtersActive = hasActiveChatFilters(filters);
+
+  return (
+    <div className="chat-search">
+      <div className="chat-search-bar">
+        <Search className="w-4 h-4 chat-search-icon" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') onQueryChange('');
+          }}
+          placeholder="Search chats, MT fields, dates..."
+          className="chat-search-input"
+        />
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`chat-search-filter-btn ${filtersActive ? 'chat-search-filter-btn--active' : ''}`}
+          title="Filter chats"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="chat-search-filters">
+          <label>
+            <span>Design type</span>
+            <select value={filters.designType} onChange={(e) => onFiltersChange({ ...filters, designType: e.target.value })}>
+              <option value="">Any</option>
+              {DESIGN_TYPE_OPTIONS.map(designType => (
+                <option key={designType} value={designType}>Type {designType}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>MT required</span>
+            <select
+              value={filters.mtRequired}
+              onChange={(e) => onFiltersChange({ ...filters, mtRequired: e.target.value as ChatSearchFilters['mtRequired'] })}
+            >
+              <option value="any">Any</option>
+              <option value="yes">Yes</option>
+              <option value="no">No</option>
+            </select>
+          </label>
+          <label>
+            <span>From</span>
+            <input type="date" value={filters.fromDate} onChange={(e) => onFiltersChange({ ...filters, fromDate: e.target.value })} />
+          </label>
+          <label>
+            <span>To</span>
+            <input type="date" value={filters.toDate} onChange={(e) => onFiltersChange({ ...filters, toDate: e.target.value })} />
+          </label>
+          {filtersActive && (
+            <button onClick={() => onFiltersChange(EMPTY_CHAT_SEARCH_FILTERS)} className="chat-search-clear-btn">
+              <X className="w-3 h-3" />
+              <span>Clear filters</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Matching chats with a snippet per hit; replaces the history list while a search is active
+export const ChatSearchResults: React.FC<ChatSearchResultsProps> = ({ results, currentChatId, onOpenResult }) => {
+  if (results.length === 0) {
+    return (
+      <div className="chat-history-empty">
+        <div className="chat-history-empty-icon">🔍</div>
+        <p className="chat-history-empty-title">No matching chats</p>
+        <p className="chat-history-empty-subtitle">Try other words or clear the filters</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {results.map(({ chat, matches }) => (
+        <div
+          key={chat.id}
+          className={`chat-history-item ${chat.id === currentChatId ? 'chat-history-item--active' : ''}`}
+          onClick={() => onOpenResult(chat.id)}
+        >
+          <div className="chat-item-title">{chat.title}</div>
+          <div className="chat-item-meta">
+            {chat.updatedAt.toLocaleDateString()} • {chat.messages.length} messages
+          </div>
+          {matches.map((match, index) => (
+            <button
+              key={`${match.messageId ?? match.source}-${index}`}
+              onClick={(e) => {
+                e.stopPropagation();
+                onOpenResult(chat.id, match.messageId);
+              }}
+              className="chat-search-snippet"
+            >
+              <span className="chat-search-snippet-source">{match.source}</span>
+              {match.before}<mark>{match.match}</mark>{match.after}
+            </button>
+          ))}
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default ChatHistorySearch;
@@ -1,5 +1,5 @@
 import React, { useRef } from 'react';
-import { Send, FileUp } from 'lucide-react';
+import { Send, FileUp, Square } from 'lucide-react';
 
 interface ChatInputProps {
   inputMessage: string;
@@ -9,7 +9,14 @@ interface ChatInputProps {
   selectedFile: File | null;
   onRemoveFile: () => void;
   isLoading: boolean;
+  // Shown in place of Send while isLoading; cancels the in-flight turn
+  onStop?: () => void;
   disabled?: boolean;
+  placeholder?: string;
+  // Buttons rendered before the text area (e.g. document preview)
+  leadingActions?: React.ReactNode;
+  // Lets the parent focus the text area
+  inputRef?: React.RefObject<HTMLTextAreaElement | null>;
 }
 
 export const ChatInput: React.FC<ChatInputProps> = ({
@@ -20,10 +27,15 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   selectedFile,
   onRemoveFile,
   isLoading,
-  disabled = false
+  onStop,
+  disabled = false,
+  placeholder,
+  leadingActions,
+  inputRef
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const ownTextareaRef = useRef<HTMLTextAreaElement>(null);
+  const textareaRef = inputRef ?? ownTextareaRef;
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -78,13 +90,14 @@ export const ChatInput: React.FC<ChatInputProps> = ({
       {/* Input */}
       <div className="border-t bg-white p-6">
         <div className="flex items-end space-x-4">
+          {leadingActions}
           <div className="flex-1 relative">
             <textarea
               ref={textareaRef}
               value={inputMessage}
               onChange={handleInputChange}
               onKeyDown={handleKeyPress}
-              placeholder={selectedFile ? "Add a message (optional)..." : "Type your message about MT analysis..."}
+              placeholder={selectedFile ? "Add a message (optional)..." : placeholder || "Type your message about MT analysis..."}
               className="w-full p-4 border border-gray-300 rounded-lg resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
               style={{ minHeight: '52px', maxHeight: '120px' }}
               disabled={disabled || isLoading}
@@ -102,19 +115,30 @@ export const ChatInput: React.FC<ChatInputProps> = ({
               <FileUp className="w-5 h-5" />
             </button>
             
-            {/* Send Button */}
-            <button
-              onClick={onSendMessage}
-              disabled={disabled || isLoading || (!inputMessage.trim() && !selectedFile)}
-              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
-            >
-              {isLoading ? (
-                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-              ) : (
-                <Send className="w-4 h-4" />
-              )}
-              <span>{isLoading ? 'Sending...' : 'Send'}</span>
-            </button>
+            {/* Send / Stop Button */}
+            {isLoading && onStop ? (
+              <button
+                onClick={onStop}
+                className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2"
+                title="Stop generating"
+              >
+                <Square className="w-4 h-4" />
+                <span>Stop</span>
+              </button>
+            ) : (
+              <button
+                onClick={onSendMessage}
+                disabled={disabled || isLoading || (!inputMessage.trim() && !selectedFile)}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+              >
+                {isLoading ? (
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                ) : (
+                  <Send className="w-4 h-4" />
+                )}
+                <span>{isLoading ? 'Sending...' : 'Send'}</span>
+              </button>
+            )}
           </div>
         </div>
         
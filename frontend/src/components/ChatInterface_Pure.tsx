@@ -8,15 +8,28 @@
 // ============================================================================
 // IMPORT STATEMENTS - EXTERNAL LIBRARIES AND COMPONENTS
 // ============================================================================
-import React, { useState, useRef, useEffect } from 'react'; // React hooks for state and lifecycle management
-import { Bot, FileText, FileUp, Send } from 'lucide-react'; // Icon components
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react'; // React hooks for state and lifecycle management
+import { Bot, ClipboardList, Download, FileText, Upload } from 'lucide-react'; // Icon components
 import MTDocumentModal from './MTDocumentModal'; // Custom modal component for displaying MT documents
-import { ChatMessage, type Message } from './ChatMessage';
-import { ChatSidebar, type ChatHistory } from './ChatSidebar';
+import MTQuestionnaireWizard from './MTQuestionnaireWizard'; // Form wizard driven by data/mt-questionnaire.json
+import { ChatMessage, type Message, type MessageVariant } from './ChatMessage';
+import { ChatMTProgress, ChatSidebar, type ChatHistory } from './ChatSidebar';
+import { ChatHistorySearch, ChatSearchResults } from './ChatHistorySearch';
 import { SpaceshipAnimation } from './SpaceshipAnimation';
 import { ChatInput } from './ChatInput';
 import { extractModificationTitle, extractProjectNumber } from '../utils/dataExtraction';
 import { aiProjectAnalysis } from '../services/aiProjectAnalysis';
+import { mtAnalyzerAPI, type IntelligentChatStreamOptions } from '../services/mtAnalyzerAPI';
+import { isRetryableError, outboundQueue, type QueuedTurn } from '../services/outboundQueue';
+import { chatStorage, type ChatStorageStatus } from '../services/chatStorage';
+import { downloadChatArchive, importChatArchive } from '../services/chatArchive';
+import { EMPTY_CHAT_SEARCH_FILTERS, hasActiveChatFilters, searchChats, type ChatSearchFilters } from '../services/chatSearch';
+import type { MTAnalysisResponse, MTDocumentData, MTDocumentState, MTPdfImportReport, MTTemplateInfo } from '../services/mtDocumentService';
+import { createProvenance, type MTFieldOrigin, type MTProvenanceMap } from '../services/mtProvenance';
+import type { MTValidationResult } from '../services/mtValidationService';
+import type { MTSnapshot } from '../services/mtRevisionStore';
+import type { AttachmentAData } from '../services/attachmentAChecklist';
+import type { DocumentAnalysisResult } from '../types/documentAnalysis';
 import '../styles/components/index.css'; // Import CSS styles (includes all components)
 
 interface MTAnalysisRequest {
@@ -26,6 +39,17 @@ interface MTAnalysisRequest {
   projectNumber?: string;
 }
 
+// The MT snapshots around one reply's fields, see Message.mtBaseSnapshotId
+type MTReplyWrite = { mtBaseSnapshotId: string | null; mtSnapshotId?: string };
+
+// A chat left mid-turn keeps its partial reply, marked as stopped
+const settleStreamingMessages = (messages: Message[]): Message[] =>
+  messages.map((message): Message => message.status !== 'streaming' ? message : {
+    ...message,
+    status: 'stopped',
+    variants: message.variants?.map((variant): MessageVariant => variant.status === 'streaming' ? { ...variant, status: 'stopped' } : variant)
+  });
+
 interface ChatInterfaceProps {
   onSendMessage?: (message: string, file?: File, context?: any) => void;
   onAnalyzeFile?: (file: File) => void;
@@ -38,7 +62,11 @@ interface ChatInterfaceProps {
     analysis?: any;
   }>) => void;
   pendingAnalysisMessage?: string | null;
+  // Full result behind pendingAnalysisMessage, kept on the message so chat exports include it
+  pendingAnalysisResult?: DocumentAnalysisResult | null;
   onAnalysisMessageProcessed?: () => void;
+  // Extra controls for the right side of the top bar (e.g. the analysis history toggle)
+  topBarActions?: React.ReactNode;
 }
 
 export default function ChatInterface({ 
@@ -46,26 +74,42 @@ export default function ChatInterface({
   onAnalyzeFile, 
   onScenariosUpdate, 
   pendingAnalysisMessage, 
-  onAnalysisMessageProcessed 
+  pendingAnalysisResult,
+  onAnalysisMessageProcessed,
+  topBarActions
 }: ChatInterfaceProps) {
   // Chat History State Management
   const [chatHistories, setChatHistories] = useState<ChatHistory[]>([]);
   const [currentChatId, setCurrentChatId] = useState<string>('');
   const [sidebarOpen, setSidebarOpen] = useState(false); // Sidebar closed by default
+  const [storageStatus, setStorageStatus] = useState<ChatStorageStatus>(chatStorage.getStatus());
+  // Last failed user action (export, import, regenerate...), shown in a dismissible banner
+  const [actionError, setActionError] = useState<string | null>(null);
   
   // Rename functionality state
   const [renamingChatId, setRenamingChatId] = useState<string | null>(null);
   const [renameValue, setRenameValue] = useState('');
+
+  // Chat history search
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<ChatSearchFilters>(EMPTY_CHAT_SEARCH_FILTERS);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   
   // Current Chat State
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // What the current turn is doing: waiting for the first token, streaming the reply, or filling the MT
+  const [responsePhase, setResponsePhase] = useState<'waiting' | 'streaming' | 'updating-document'>('waiting');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Cancels the in-flight turn (chat stream, project analysis and the MT update); null when idle
+  const turnControllerRef = useRef<AbortController | null>(null);
+  // Turns waiting in the outbound queue, keyed by user message id
+  const [queuedTurns, setQueuedTurns] = useState<Map<string, QueuedTurn>>(new Map());
 
   // Paper plane animation state
   const [showPaperPlane, setShowPaperPlane] = useState(false);
@@ -78,12 +122,25 @@ export default function ChatInterface({
   const [showDocumentModal, setShowDocumentModal] = useState(false);
   const [documentHTML, setDocumentHTML] = useState<string>('');
   const [currentMTData, setCurrentMTData] = useState<any>(null);
+  const [documentValidation, setDocumentValidation] = useState<MTValidationResult | undefined>(undefined);
+  const [revisionHistory, setRevisionHistory] = useState<MTSnapshot[]>([]);
+  const [highlightProvenance, setHighlightProvenance] = useState(true);
+  const [isEditingDocument, setIsEditingDocument] = useState(false);
+  const [documentProgress, setDocumentProgress] = useState(0);
+  const [templateInfo, setTemplateInfo] = useState<MTTemplateInfo | null>(null);
+  const [pdfImportReport, setPdfImportReport] = useState<MTPdfImportReport | null>(null);
+  
+  // Questionnaire Wizard State
+  const [showQuestionnaire, setShowQuestionnaire] = useState(false);
   
   useEffect(() => {
     // Dynamically import the service on client side
     if (typeof window !== 'undefined') {
       import('../services/mtDocumentService').then((module) => {
         setMtDocumentService(module.mtDocumentService);
+        setDocumentProgress(module.mtDocumentService.calculateProgress());
+        module.mtDocumentService.onProgressUpdate(setDocumentProgress);
+        module.mtDocumentService.getSavedTemplateInfo().then(setTemplateInfo);
         console.log('MT Document Service initialized for live updates');
       }).catch(console.warn);
     }
@@ -122,13 +179,14 @@ export default function ChatInterface({
         text: pendingAnalysisMessage,
         sender: 'ai',
         timestamp: new Date(),
-        type: 'analysis'
+        type: 'analysis',
+        metadata: pendingAnalysisResult ? { documentAnalysis: pendingAnalysisResult } : undefined
       };
       
       setMessages(prev => [...prev, analysisMessage]);
       onAnalysisMessageProcessed();
     }
-  }, [pendingAnalysisMessage, onAnalysisMessageProcessed]);
+  }, [pendingAnalysisMessage, pendingAnalysisResult, onAnalysisMessageProcessed]);
 
   useEffect(() => {
     if (!isInitialized) {
@@ -159,217 +217,258 @@ Simply ask questions or upload documents to get started. What can I help you ana
     }
   }, [isInitialized]);
 
-  // PURE GPT-4 INTELLIGENCE - NO HARDCODED RESPONSES
-  const handleConversationalInput = async (message: string): Promise<{response: string, shouldAnalyze: boolean}> => {
-    console.log('Using pure GPT-4 intelligence for all analysis');
-    
+  // Extract MT fields from a reply and write them to the document service in one update.
+  // Runs for each answered turn and again when the user switches to another regenerated variant;
+  // then `replacing` is what the variant on screen wrote, so its fields are swapped rather than
+  // merged with. Resolves with the snapshots around the write, or nothing when none was made.
+  const applyMTExtraction = async (
+    message: string,
+    reply: string,
+    signal?: AbortSignal,
+    replacing?: MTReplyWrite
+  ): Promise<MTReplyWrite | undefined> => {
+    if (!reply || !mtDocumentService) return;
     try {
-      // Call the .NET backend directly
-      const response = await fetch('http://localhost:5000/api/MT/intelligent-chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: message,
-          conversationHistory: JSON.stringify(messages.slice(-5)) // Last 5 messages for context
-        })
-      });
-
-      if (response.ok) {
-        const result = await response.json();
+      // Parse the response text for MT-related information
+      const responseText = reply.toLowerCase();
+      const originalResponse = reply;
+      
+      // Intelligently extract title from conversation content
+      const extractedTitle = extractModificationTitle(message, reply);
+      const extractedProjectNumber = extractProjectNumber(message, reply);
+      
+      // Extract key information from the response
+      const mtData: any = {
+        title: extractedTitle,
+        projectNumber: extractedProjectNumber,
+        mtNumber: extractedProjectNumber, // Use same as project number for MT number
+        problemDescription: message, // Use the original user message
+        timestamp: new Date().toISOString()
+      };
+      
+      // Track where each extracted value came from so the preview can flag guesses
+      const provenance: MTProvenanceMap = {};
+      const markSource = (fields: Array<keyof MTDocumentData>, origin: MTFieldOrigin, confidence?: number) => {
+        fields.forEach(field => { provenance[field] = createProvenance(origin, confidence); });
+      };
+      markSource(['title', 'projectNumber', 'mtNumber'], 'regex');
+      markSource(['problemDescription'], 'chat');
+      
+      // Look for MT requirement determination
+      if (responseText.includes('mt is required') || responseText.includes('modification traveler is required')) {
+        mtData.mtRequired = true;
+      } else if (responseText.includes('mt is not required') || responseText.includes('no mt required')) {
+        mtData.mtRequired = false;
+      }
+      markSource(['mtRequired'], 'chat');
+      
+      // Enhanced safety classification detection for chemical systems
+      const fullText = (message + ' ' + originalResponse).toLowerCase();
+      if (fullText.includes('chemical addition manifold') || fullText.includes('chemical manifold')) {
+        // Chemical addition manifolds are typically General Service (GS)
+        mtData.preliminarySafetyClassification = 'GS';
+        mtData.environmentalRisk = 'Yes'; // Chemical systems have environmental risk
+        mtData.radiologicalRisk = 'No';   // Chemical addition typically not radiological
+      } else if (fullText.includes('safety class') || fullText.includes('safety-class') || 
+          fullText.includes('sc ') || fullText.includes('10 cfr 50 appendix b') ||
+          fullText.includes('reactor coolant pressure boundary') || fullText.includes('safety-related') ||
+          fullText.includes('safety-critical') || fullText.includes('reactor coolant system') ||
+          fullText.includes('emergency diesel generator') || fullText.includes('emergency core cooling') ||
+          fullText.includes('containment isolation') || fullText.includes('class 1e')) {
+        mtData.preliminarySafetyClassification = 'SC'; // Safety Class
+        mtData.environmentalRisk = 'Yes'; // Safety class typically has environmental considerations
+        mtData.radiologicalRisk = 'Yes'; // Reactor systems have radiological risk
+      } else if (fullText.includes('safety significant') || fullText.includes('ss ') ||
+                fullText.includes('safety-significant') || fullText.includes('chemical volume control') ||
+                fullText.includes('cvcs') || fullText.includes('auxiliary feedwater')) {
+        mtData.preliminarySafetyClassification = 'SS';
+        mtData.environmentalRisk = 'No';
+        mtData.radiologicalRisk = 'Yes';
+      } else if (fullText.includes('general service') || fullText.includes('gs ') ||
+                fullText.includes('non-safety')) {
+        mtData.preliminarySafetyClassification = 'GS';
+        mtData.environmentalRisk = 'No';
+        mtData.radiologicalRisk = 'No';
+      }
+      
+      markSource(['preliminarySafetyClassification', 'environmentalRisk', 'radiologicalRisk'], 'heuristic');
+      
+      // Enhanced design type detection with proper number mapping
+      markSource(['designType', 'projectDesignReviewRequired', 'majorModificationEvaluationRequired', 'safetyInDesignStrategyRequired'], 'heuristic');
+      if (fullText.includes('type ii') || fullText.includes('type 2') || 
+          fullText.includes('design type 2') || fullText.includes('like-for-like') ||
+          fullText.includes('identical model') || fullText.includes('same manufacturer') ||
+          fullText.includes('functionally equivalent') || fullText.includes('direct replacement') ||
+          fullText.includes('identical westinghouse') || fullText.includes('same specifications') ||
+          fullText.includes('no design changes') || fullText.includes('direct swap')) {
+        mtData.designType = 2; // Pass as number for proper checkbox selection
+        mtData.projectDesignReviewRequired = 'No';
+        mtData.majorModificationEvaluationRequired = 'No';
+        mtData.safetyInDesignStrategyRequired = 'No';
+        // Remove hardcoded hazard category assignment
+      } else if (fullText.includes('digital') || fullText.includes('analog to digital') ||
+          fullText.includes('50.59') || fullText.includes('smart valve') || 
+          fullText.includes('digital smart valve') || fullText.includes('smart motor-operated') ||
+          fullText.includes('programmable logic controller') || fullText.includes('plc')) {
+        mtData.designType = 1; // Pass as number for proper checkbox selection
+        mtData.projectDesignReviewRequired = 'Yes';
+        mtData.majorModificationEvaluationRequired = 'Yes';
+        mtData.safetyInDesignStrategyRequired = 'Yes';
+        // Remove hardcoded hazard category assignment
+      } else if (fullText.includes('type i') || fullText.includes('type 1') || 
+                fullText.includes('design type 1')) {
+        mtData.designType = 1; // Pass as number for proper checkbox selection
+        mtData.projectDesignReviewRequired = 'Yes';
+        mtData.majorModificationEvaluationRequired = 'Yes';
+        mtData.safetyInDesignStrategyRequired = 'Yes';
+        // Remove hardcoded hazard category assignment
+      } else if (fullText.includes('type iii') || fullText.includes('type 3') ||
+                fullText.includes('design type 3')) {
+        mtData.designType = 3; // Pass as number for proper checkbox selection
+      } else if (fullText.includes('type iv') || fullText.includes('type 4') ||
+                fullText.includes('temporary')) {
+        mtData.designType = 4; // Pass as number for proper checkbox selection
+      } else if (fullText.includes('type v') || fullText.includes('type 5') ||
+                fullText.includes('identical replacement')) {
+        mtData.designType = 5; // Pass as number for proper checkbox selection
+      } else {
+        // Default to Type II for modifications
+        mtData.designType = 2; // Pass as number for proper checkbox selection
+        markSource(['designType'], 'default');
+      }
+      
+      // Remove hardcoded timeline estimation - let backend or user determine dates
+      // Keep completion dates as empty for user input
+      mtData.requestedCompletionDate = '';
+      mtData.estimatedCompleteDate = '';
+      mtData.dueDate = '';
+      
+      // Remove hardcoded hazard category detection - let backend or user determine
+      
+      // Extract project number if mentioned in response (but don't override our intelligent extraction)
+      const projectMatch = originalResponse.match(/project\s+(?:number\s+)?([A-Z0-9-]+)/i);
+      if (projectMatch && !mtData.projectNumber) {
+        mtData.projectNumber = projectMatch[1];
+      }
+      
+      // Remove hardcoded timeline extraction - let user set dates
+      
+      // Set facility and submission info
+      const facilityMatch = message.match(/unit\s+(\d+)/i);
+      mtData.facility = facilityMatch ? `Unit ${facilityMatch[1]}` : 'Unit 1';
+      mtData.submittedBy = 'Engineering Department';
+      mtData.submissionDate = new Date().toISOString().split('T')[0];
+      markSource(['facility'], facilityMatch ? 'regex' : 'default');
+      markSource(['submittedBy'], 'default');
+      markSource(['submissionDate'], 'system');
+      
+      // Use AI analysis to determine project details instead of hardcoded mappings
+      let analysisResult = null;
+      try {
+        analysisResult = await aiProjectAnalysis.analyzeProject({
+          problemDescription: message,
+          conversationContext: messages.map(m => m.text).join('\n'),
+          facility: mtData.facility || 'Nuclear Facility',
+          additionalContext: { fullText }
+        }, signal);
         
-        // Extract MT analysis data from GPT response text and update the document service
-        if (result.response && mtDocumentService) {
-          try {
-            // Parse the response text for MT-related information
-            const responseText = result.response.toLowerCase();
-            const originalResponse = result.response;
-            
-            // Intelligently extract title from conversation content
-            const extractedTitle = extractModificationTitle(message, result.response);
-            const extractedProjectNumber = extractProjectNumber(message, result.response);
-            
-            // Extract key information from the response
-            const mtData: any = {
-              title: extractedTitle,
-              projectNumber: extractedProjectNumber,
-              mtNumber: extractedProjectNumber, // Use same as project number for MT number
-              problemDescription: message, // Use the original user message
-              timestamp: new Date().toISOString()
-            };
-            
-            // Look for MT requirement determination
-            if (responseText.includes('mt is required') || responseText.includes('modification traveler is required')) {
-              mtData.mtRequired = true;
-            } else if (responseText.includes('mt is not required') || responseText.includes('no mt required')) {
-              mtData.mtRequired = false;
-            }
-            
-            // Enhanced safety classification detection for chemical systems
-            const fullText = (message + ' ' + originalResponse).toLowerCase();
-            if (fullText.includes('chemical addition manifold') || fullText.includes('chemical manifold')) {
-              // Chemical addition manifolds are typically General Service (GS)
-              mtData.preliminarySafetyClassification = 'GS';
-              mtData.environmentalRisk = 'Yes'; // Chemical systems have environmental risk
-              mtData.radiologicalRisk = 'No';   // Chemical addition typically not radiological
-            } else if (fullText.includes('safety class') || fullText.includes('safety-class') || 
-                fullText.includes('sc ') || fullText.includes('10 cfr 50 appendix b') ||
-                fullText.includes('reactor coolant pressure boundary') || fullText.includes('safety-related') ||
-                fullText.includes('safety-critical') || fullText.includes('reactor coolant system') ||
-                fullText.includes('emergency diesel generator') || fullText.includes('emergency core cooling') ||
-                fullText.includes('containment isolation') || fullText.includes('class 1e')) {
-              mtData.preliminarySafetyClassification = 'SC'; // Safety Class
-              mtData.environmentalRisk = 'Yes'; // Safety class typically has environmental considerations
-              mtData.radiologicalRisk = 'Yes'; // Reactor systems have radiological risk
-            } else if (fullText.includes('safety significant') || fullText.includes('ss ') ||
-                      fullText.includes('safety-significant') || fullText.includes('chemical volume control') ||
-                      fullText.includes('cvcs') || fullText.includes('auxiliary feedwater')) {
-              mtData.preliminarySafetyClassification = 'SS';
-              mtData.environmentalRisk = 'No';
-              mtData.radiologicalRisk = 'Yes';
-            } else if (fullText.includes('general service') || fullText.includes('gs ') ||
-                      fullText.includes('non-safety')) {
-              mtData.preliminarySafetyClassification = 'GS';
-              mtData.environmentalRisk = 'No';
-              mtData.radiologicalRisk = 'No';
-            }
-            
-            // Enhanced design type detection with proper number mapping
-            if (fullText.includes('type ii') || fullText.includes('type 2') || 
-                fullText.includes('design type 2') || fullText.includes('like-for-like') ||
-                fullText.includes('identical model') || fullText.includes('same manufacturer') ||
-                fullText.includes('functionally equivalent') || fullText.includes('direct replacement') ||
-                fullText.includes('identical westinghouse') || fullText.includes('same specifications') ||
-                fullText.includes('no design changes') || fullText.includes('direct swap')) {
-              mtData.designType = 2; // Pass as number for proper checkbox selection
-              mtData.projectDesignReviewRequired = 'No';
-              mtData.majorModificationEvaluationRequired = 'No';
-              mtData.safetyInDesignStrategyRequired = 'No';
-              // Remove hardcoded hazard category assignment
-            } else if (fullText.includes('digital') || fullText.includes('analog to digital') ||
-                fullText.includes('50.59') || fullText.includes('smart valve') || 
-                fullText.includes('digital smart valve') || fullText.includes('smart motor-operated') ||
-                fullText.includes('programmable logic controller') || fullText.includes('plc')) {
-              mtData.designType = 1; // Pass as number for proper checkbox selection
-              mtData.projectDesignReviewRequired = 'Yes';
-              mtData.majorModificationEvaluationRequired = 'Yes';
-              mtData.safetyInDesignStrategyRequired = 'Yes';
-              // Remove hardcoded hazard category assignment
-            } else if (fullText.includes('type i') || fullText.includes('type 1') || 
-                      fullText.includes('design type 1')) {
-              mtData.designType = 1; // Pass as number for proper checkbox selection
-              mtData.projectDesignReviewRequired = 'Yes';
-              mtData.majorModificationEvaluationRequired = 'Yes';
-              mtData.safetyInDesignStrategyRequired = 'Yes';
-              // Remove hardcoded hazard category assignment
-            } else if (fullText.includes('type iii') || fullText.includes('type 3') ||
-                      fullText.includes('design type 3')) {
-              mtData.designType = 3; // Pass as number for proper checkbox selection
-            } else if (fullText.includes('type iv') || fullText.includes('type 4') ||
-                      fullText.includes('temporary')) {
-              mtData.designType = 4; // Pass as number for proper checkbox selection
-            } else if (fullText.includes('type v') || fullText.includes('type 5') ||
-                      fullText.includes('identical replacement')) {
-              mtData.designType = 5; // Pass as number for proper checkbox selection
-            } else {
-              // Default to Type II for modifications
-              mtData.designType = 2; // Pass as number for proper checkbox selection
-            }
-            
-            // Remove hardcoded timeline estimation - let backend or user determine dates
-            // Keep completion dates as empty for user input
-            mtData.requestedCompletionDate = '';
-            mtData.estimatedCompleteDate = '';
-            mtData.dueDate = '';
-            
-            // Remove hardcoded hazard category detection - let backend or user determine
-            
-            // Extract project number if mentioned in response (but don't override our intelligent extraction)
-            const projectMatch = originalResponse.match(/project\s+(?:number\s+)?([A-Z0-9-]+)/i);
-            if (projectMatch && !mtData.projectNumber) {
-              mtData.projectNumber = projectMatch[1];
-            }
-            
-            // Remove hardcoded timeline extraction - let user set dates
-            
-            // Set facility and submission info
-            const facilityMatch = message.match(/unit\s+(\d+)/i);
-            mtData.facility = facilityMatch ? `Unit ${facilityMatch[1]}` : 'Unit 1';
-            mtData.submittedBy = 'Engineering Department';
-            mtData.submissionDate = new Date().toISOString().split('T')[0];
-            
-            // Use AI analysis to determine project details instead of hardcoded mappings
-            let analysisResult = null;
-            try {
-              analysisResult = await aiProjectAnalysis.analyzeProject({
-                problemDescription: message,
-                conversationContext: messages.map(m => m.text).join('\n'),
-                facility: mtData.facility || 'Nuclear Facility',
-                additionalContext: { fullText }
-              });
-              
-              // Apply AI analysis results
-              mtData.relatedSystems = analysisResult.relatedSystems;
-              mtData.relatedBuildings = analysisResult.relatedBuildings;
-              mtData.relatedEquipment = analysisResult.relatedEquipment;
-              mtData.priority = analysisResult.priority;
-              mtData.projectType = analysisResult.projectType;
-              mtData.cacn = analysisResult.cacn;
-              
-              // Add AI-generated additional fields
-              mtData.safetyClassification = analysisResult.safetyClassification;
-              mtData.estimatedComplexity = analysisResult.estimatedComplexity;
-              mtData.recommendedApproach = analysisResult.recommendedApproach;
-              mtData.aiConfidence = analysisResult.confidence;
-              
-            } catch (error) {
-              console.error('AI project analysis failed, using fallback:', error);
-              
-              // Minimal fallback - let AI analysis service handle this
-              const fallbackResult = await aiProjectAnalysis.quickAnalyze(message);
-              mtData.relatedSystems = fallbackResult.relatedSystems || 'Analysis pending';
-              mtData.relatedBuildings = 'To be determined through detailed analysis';
-              mtData.relatedEquipment = 'To be determined through detailed analysis';
-              mtData.priority = fallbackResult.priority || 'Medium';
-              mtData.projectType = fallbackResult.projectType || 'Modification';
-              mtData.cacn = `${new Date().getFullYear()}-MT-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
-            }
-            
-            // Set MT requirement based on safety classification
-            if (mtData.preliminarySafetyClassification === 'SC' || mtData.preliminarySafetyClassification === 'SS') {
-              mtData.mtRequired = true;
-            }
-            
-            // Add analysis result as justification
-            mtData.justification = `AI Analysis Result: ${originalResponse.slice(0, 300)}...`;
-            
-            // Generate proposed solution using AI analysis instead of hardcoded logic
-            if (analysisResult && analysisResult.recommendedApproach) {
-              mtData.proposedSolution = analysisResult.recommendedApproach;
-            } else {
-              // Fallback to AI-generated solution based on project type
-              mtData.proposedSolution = `Implement ${mtData.projectType.toLowerCase()} following nuclear industry standards and regulatory requirements. Detailed engineering analysis and safety review required to determine specific implementation approach.`;
-            }
-            
-            // Update the document service with live data
-            console.log('🚀 Sending AI-analyzed data to MT Document Service:', mtData);
-            mtDocumentService.updateDocument(mtData);
-            setCurrentMTData(mtData);
-            console.log('Live MT document updated with AI-analyzed data:', mtData);
-          } catch (error) {
-            console.warn('Could not update MT document service:', error);
-          }
-        }
+        // Apply AI analysis results
+        mtData.relatedSystems = analysisResult.relatedSystems;
+        mtData.relatedBuildings = analysisResult.relatedBuildings;
+        mtData.relatedEquipment = analysisResult.relatedEquipment;
+        mtData.priority = analysisResult.priority;
+        mtData.projectType = analysisResult.projectType;
+        mtData.cacn = analysisResult.cacn;
+        
+        // Add AI-generated additional fields
+        mtData.safetyClassification = analysisResult.safetyClassification;
+        mtData.estimatedComplexity = analysisResult.estimatedComplexity;
+        mtData.recommendedApproach = analysisResult.recommendedApproach;
+        mtData.aiConfidence = analysisResult.confidence;
+        markSource(['relatedSystems', 'relatedBuildings', 'relatedEquipment', 'priority', 'projectType', 'cacn'], 'ai-analysis', analysisResult.confidence);
+        
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error('AI project analysis failed:', error);
         
-        return {
-          response: result.response || result.message || "I apologize, but I couldn't generate a response.",
-          shouldAnalyze: true
-        };
+        // A quick analysis still fills the basics. Nothing is made up: fields without an
+        // analysed value stay empty so validation flags them for the engineer
+        const missing = ['related buildings', 'related equipment', 'CACN', 'proposed solution'];
+        try {
+          const quickResult = await aiProjectAnalysis.quickAnalyze(message, signal);
+          mtData.relatedSystems = quickResult.relatedSystems;
+          mtData.priority = quickResult.priority;
+          mtData.projectType = quickResult.projectType;
+          markSource(['relatedSystems', 'priority', 'projectType'], 'ai-analysis');
+        } catch (quickError) {
+          if (signal?.aborted) throw quickError;
+          console.error('Quick analysis failed as well:', quickError);
+          missing.unshift('related systems', 'priority', 'project type');
+        }
+        setActionError(
+          `AI project analysis failed (${error instanceof Error ? error.message : error}). ` +
+          `Fill in the ${missing.join(', ')} in the MT document.`
+        );
+      }
+      
+      // Set MT requirement based on safety classification
+      if (mtData.preliminarySafetyClassification === 'SC' || mtData.preliminarySafetyClassification === 'SS') {
+        mtData.mtRequired = true;
+        markSource(['mtRequired'], 'heuristic');
+      }
+      
+      // Add analysis result as justification
+      mtData.justification = `AI Analysis Result: ${originalResponse.slice(0, 300)}...`;
+      markSource(['justification'], 'chat');
+      
+      // The proposed solution only comes from AI analysis; without one it is left to the engineer
+      if (analysisResult && analysisResult.recommendedApproach) {
+        mtData.proposedSolution = analysisResult.recommendedApproach;
+        markSource(['proposedSolution'], 'ai-analysis', analysisResult.confidence);
+      }
+      
+      // Update the document service with live data - in one write, so a stopped turn changes nothing
+      signal?.throwIfAborted();
+      const mtBaseSnapshotId: string | null = replacing ? replacing.mtBaseSnapshotId : mtDocumentService.getLatestSnapshot()?.id ?? null;
+      if (replacing) {
+        mtDocumentService.replaceUpdate(replacing.mtBaseSnapshotId, replacing.mtSnapshotId, mtData, 'chat', provenance);
       } else {
-        throw new Error(`Backend response: ${response.status}`);
+        mtDocumentService.updateDocument(mtData, 'chat', provenance);
       }
+      setCurrentMTData(mtData);
+      return { mtBaseSnapshotId, mtSnapshotId: mtDocumentService.getLatestSnapshot()?.id };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Could not update the MT document:', error);
+      setActionError(`Could not update the MT document from this reply (${error instanceof Error ? error.message : error})`);
+    }
+  };
+
+  // PURE GPT-4 INTELLIGENCE - NO HARDCODED RESPONSES
+  const handleConversationalInput = async (
+    message: string,
+    turn: IntelligentChatStreamOptions & { conversationHistory?: string; onResponse?: (response: string) => void } = {}
+  ): Promise<{response: string, shouldAnalyze: boolean, mtWrite?: MTReplyWrite}> => {
+    try {
+      // Stream the reply from the .NET backend; extraction below needs the complete text
+      const result = await mtAnalyzerAPI.streamIntelligentChat(
+        message,
+        turn.conversationHistory ?? JSON.stringify(messages.slice(-5)), // Last 5 messages for context
+        turn
+      );
+      turn.onResponse?.(result.response);
+      
+      // Extract MT analysis data from GPT response text and update the document service
+      const mtWrite = await applyMTExtraction(message, result.response, turn.signal);
+      
+      return {
+        response: result.response || "I apologize, but I couldn't generate a response.",
+        shouldAnalyze: true,
+        mtWrite
+      };
     } catch (error) {
+      // Stopped turns and unreachable backends are handled by the caller (the latter are queued)
+      if (turn.signal?.aborted || isRetryableError(error)) throw error;
       console.error('Error calling GPT-4 backend:', error);
       return {
         response: "I'm experiencing technical difficulties connecting to the GPT-4 analysis service. Please try again.",
@@ -388,8 +487,12 @@ Simply ask questions or upload documents to get started. What can I help you ana
       timestamp: new Date(),
       type: selectedFile ? 'file' : 'text'
     };
+    const conversationHistory = JSON.stringify(messages.slice(-5)); // Last 5 messages for context
 
     setMessages(prev => [...prev, userMessage]);
+    if (selectedFile) {
+      chatStorage.recordUploadedFile(currentChatId, userMessage.id, selectedFile);
+    }
     
     // Trigger paper plane animation
     setShowPaperPlane(true);
@@ -400,32 +503,100 @@ Simply ask questions or upload documents to get started. What can I help you ana
       setShowPaperPlane(false);
     }, 3500); // Increased to match new 3.5s animation
     
+    await runTurn(inputMessage, {
+      userMessageId: userMessage.id,
+      conversationHistory,
+      file: selectedFile || undefined
+    });
+    setInputMessage('');
+    setSelectedFile(null);
+  };
+
+  // Answer one user message: stream the reply, update the MT and hand off to analysis.
+  // Replays from the outbound queue rethrow failures so the queue can back off and retry.
+  const runTurn = async (
+    text: string,
+    turn: { userMessageId: string; conversationHistory: string; file?: File; replay?: boolean }
+  ): Promise<void> => {
     setIsLoading(true);
+    setResponsePhase('waiting');
+
+    // The AI message is added with the first streamed chunk, right after the message it answers
+    const aiMessageId = (Date.now() + 1).toString();
+    // Leaving the chat stops the turn; whatever settles after that must not land in the next chat
+    const chatId = currentChatIdRef.current;
+    let streamStarted = false;
+    const showReply = (replyText: string, status?: Message['status']) => {
+      if (currentChatIdRef.current !== chatId) return;
+      const exists = streamStarted;
+      streamStarted = true;
+      setMessages(prev => {
+        if (exists) return prev.map(m => m.id === aiMessageId ? { ...m, text: replyText, status } : m);
+        const reply: Message = { id: aiMessageId, text: replyText, sender: 'ai', timestamp: new Date(), type: 'text', status };
+        const index = prev.findIndex(m => m.id === turn.userMessageId);
+        return index < 0 ? [...prev, reply] : [...prev.slice(0, index + 1), reply, ...prev.slice(index + 1)];
+      });
+    };
+    let streamedText = '';
+    const controller = new AbortController();
+    turnControllerRef.current = controller;
 
     try {
       // Always use pure GPT-4 intelligence
-      const conversationalResult = await handleConversationalInput(inputMessage);
-      
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: conversationalResult.response,
-        sender: 'ai',
-        timestamp: new Date(),
-        type: 'text'
-      };
+      const conversationalResult = await handleConversationalInput(text, {
+        conversationHistory: turn.conversationHistory,
+        signal: controller.signal,
+        onDelta: delta => {
+          streamedText += delta;
+          showReply(streamedText, 'streaming');
+          setResponsePhase('streaming');
+        },
+        onResponse: response => {
+          showReply(response);
+          setResponsePhase('updating-document');
+        }
+      });
+      // The MT has been written; the turn can no longer be stopped
+      turnControllerRef.current = null;
 
-      setMessages(prev => [...prev, aiMessage]);
+      // Error replies never stream, so make sure the final text is shown
+      showReply(conversationalResult.response);
+      const { mtWrite } = conversationalResult;
+      if (mtWrite && currentChatIdRef.current === chatId) {
+        setMessages(prev => prev.map(m => m.id === aiMessageId ? { ...m, ...mtWrite } : m));
+      }
 
       // If GPT-4 determined this should trigger analysis, do it
       if (conversationalResult.shouldAnalyze && onSendMessage) {
-        onSendMessage(inputMessage, selectedFile || undefined);
+        onSendMessage(text, turn.file);
       }
 
-      if (selectedFile && onAnalyzeFile) {
-        onAnalyzeFile(selectedFile);
+      if (turn.file && onAnalyzeFile) {
+        onAnalyzeFile(turn.file);
       }
 
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep what was generated so far; the MT document was not touched
+        showReply(streamedText || 'Response stopped.', 'stopped');
+        if (turn.replay) throw error;
+        return;
+      }
+
+      if (isRetryableError(error)) {
+        // Drop any partial reply; the whole turn is replayed once the backend is reachable
+        if (streamStarted) setMessages(prev => prev.filter(m => m.id !== aiMessageId));
+        if (turn.replay) throw error;
+        await outboundQueue.enqueue({
+          id: turn.userMessageId,
+          chatId: currentChatId,
+          message: text,
+          conversationHistory: turn.conversationHistory
+        }, error);
+        return;
+      }
+
+      if (turn.replay) throw error;
       console.error('Error processing message:', error);
       
       const errorMessage: Message = {
@@ -438,48 +609,335 @@ Simply ask questions or upload documents to get started. What can I help you ana
 
       setMessages(prev => [...prev, errorMessage]);
     } finally {
-      setInputMessage('');
-      setSelectedFile(null);
+      turnControllerRef.current = null;
       setIsLoading(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+      outboundQueue.resume();
+    }
+  };
+
+  // The user message an AI reply answers, with the context that turn was sent with
+  const findAnsweredTurn = (aiMessageId: string): { userMessage: Message; conversationHistory: string } | null => {
+    const index = messages.findIndex(m => m.id === aiMessageId);
+    for (let i = index - 1; i >= 0; i--) {
+      if (messages[i].sender === 'user') {
+        return { userMessage: messages[i], conversationHistory: JSON.stringify(messages.slice(0, i).slice(-5)) };
+      }
+    }
+    return null;
+  };
+
+  // What the reply on screen wrote to the MT; unknown for replies saved before this was tracked
+  const activeMTWrite = (message: Message): MTReplyWrite | undefined => {
+    if (message.mtBaseSnapshotId === undefined) return undefined;
+    const mtSnapshotId = message.variants
+      ? message.variants[message.activeVariant ?? message.variants.length - 1].mtSnapshotId
+      : message.mtSnapshotId;
+    return { mtBaseSnapshotId: message.mtBaseSnapshotId, mtSnapshotId };
+  };
+
+  // Stopped variants are partial and write nothing, so showing one only takes back the fields
+  // of the variant it replaces
+  const clearMTWrite = (replacing: MTReplyWrite | undefined): MTReplyWrite | undefined => {
+    if (!replacing || !mtDocumentService) return undefined;
+    mtDocumentService.replaceUpdate(replacing.mtBaseSnapshotId, replacing.mtSnapshotId, {}, 'chat');
+    return { mtBaseSnapshotId: replacing.mtBaseSnapshotId, mtSnapshotId: mtDocumentService.getLatestSnapshot()?.id };
+  };
+
+  const showVariant = (
+    chatId: string,
+    aiMessageId: string,
+    variants: MessageVariant[],
+    activeVariant: number,
+    mtWrite?: MTReplyWrite
+  ) => {
+    if (currentChatIdRef.current !== chatId) return;
+    const shown = mtWrite
+      ? variants.map((variant, index) => index === activeVariant ? { ...variant, mtSnapshotId: mtWrite.mtSnapshotId } : variant)
+      : variants;
+    const { text, status } = shown[activeVariant];
+    setMessages(prev => prev.map(m => m.id !== aiMessageId ? m : {
+      ...m, text, status, variants: shown, activeVariant, ...(mtWrite && { mtBaseSnapshotId: mtWrite.mtBaseSnapshotId })
+    }));
+  };
+
+  // Answer the user turn before an AI reply again. Earlier replies stay on the message as
+  // variants; the MT is only updated from the variant left on screen.
+  const handleRegenerateResponse = async (aiMessageId: string) => {
+    const message = messages.find(m => m.id === aiMessageId);
+    const answered = findAnsweredTurn(aiMessageId);
+    if (isLoading || !message || !answered) return;
+
+    const previous = message.variants ?? [{ text: message.text, status: message.status, mtSnapshotId: message.mtSnapshotId }];
+    const previousIndex = message.activeVariant ?? previous.length - 1;
+    const replacing = activeMTWrite(message);
+    const chatId = currentChatId;
+    const showNewVariant = (text: string, status?: Message['status'], mtWrite?: MTReplyWrite) =>
+      showVariant(chatId, aiMessageId, [...previous, { text, status }], previous.length, mtWrite);
+
+    setIsLoading(true);
+    setResponsePhase('waiting');
+    let streamedText = '';
+    const controller = new AbortController();
+    turnControllerRef.current = controller;
+
+    try {
+      const result = await mtAnalyzerAPI.streamIntelligentChat(answered.userMessage.text, answered.conversationHistory, {
+        signal: controller.signal,
+        onDelta: delta => {
+          streamedText += delta;
+          showNewVariant(streamedText, 'streaming');
+          setResponsePhase('streaming');
+        }
+      });
+      const replyText = result.response || "I apologize, but I couldn't generate a response.";
+      showNewVariant(replyText);
+      setResponsePhase('updating-document');
+      const mtWrite = await applyMTExtraction(answered.userMessage.text, result.response, controller.signal, replacing);
+      if (mtWrite) showNewVariant(replyText, undefined, mtWrite);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        showNewVariant(streamedText || 'Response stopped.', 'stopped', clearMTWrite(replacing));
+        return;
       }
+      console.error('Error regenerating response:', error);
+      showVariant(chatId, aiMessageId, previous, previousIndex);
+      setActionError(error instanceof Error ? error.message : 'Regenerating the response failed');
+    } finally {
+      turnControllerRef.current = null;
+      setIsLoading(false);
+      outboundQueue.resume();
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      handleSendMessage();
+  // Switch a regenerated reply to another variant and swap the MT fields of the variant
+  // on screen for its own, so the MT follows the reply shown.
+  const handleSelectVariant = async (aiMessageId: string, variantIndex: number) => {
+    const message = messages.find(m => m.id === aiMessageId);
+    const variant = message?.variants?.[variantIndex];
+    if (isLoading || !message?.variants || !variant || variantIndex === message.activeVariant) return;
+
+    const variants = message.variants;
+    const replacing = activeMTWrite(message);
+    const chatId = currentChatId;
+    showVariant(chatId, aiMessageId, variants, variantIndex);
+    const answered = findAnsweredTurn(aiMessageId);
+    if (!answered) return;
+    if (variant.status === 'stopped') {
+      showVariant(chatId, aiMessageId, variants, variantIndex, clearMTWrite(replacing));
+      return;
+    }
+
+    setIsLoading(true);
+    setResponsePhase('updating-document');
+    const controller = new AbortController();
+    turnControllerRef.current = controller;
+    try {
+      const mtWrite = await applyMTExtraction(answered.userMessage.text, variant.text, controller.signal, replacing);
+      if (mtWrite) showVariant(chatId, aiMessageId, variants, variantIndex, mtWrite);
+    } catch {
+      // Stopped before the MT was written; it keeps the fields of the previous variant
+    } finally {
+      turnControllerRef.current = null;
+      setIsLoading(false);
+      outboundQueue.resume();
     }
   };
 
+  // The outbound queue outlives renders, so it reads the latest turn runner and open chat through refs
+  const runTurnRef = useRef(runTurn);
+  const currentChatIdRef = useRef(currentChatId);
+  useEffect(() => {
+    runTurnRef.current = runTurn;
+    currentChatIdRef.current = currentChatId;
+  });
+
+  useEffect(() => {
+    outboundQueue.load();
+    const unsubscribe = outboundQueue.subscribe(turns => setQueuedTurns(new Map(turns.map(turn => [turn.id, turn]))));
+    // Queued turns are replayed into their own chat only, and never alongside a live turn
+    outboundQueue.setExecutor(
+      turn => runTurnRef.current(turn.message, {
+        userMessageId: turn.id,
+        conversationHistory: turn.conversationHistory,
+        replay: true
+      }),
+      turn => turn.chatId === currentChatIdRef.current && turnControllerRef.current === null
+    );
+    return () => {
+      unsubscribe();
+      outboundQueue.setExecutor(null);
+    };
+  }, []);
+
+  useEffect(() => {
+    outboundQueue.resume();
+  }, [currentChatId]);
+
+  // Save an MT document into its chat's history entry
+  const storeChatDocument = useCallback((chatId: string, state: MTDocumentState, progress: number) => {
+    setChatHistories(histories => histories.map(chat =>
+      chat.id === chatId ? { ...chat, mtDocument: state, mtProgress: progress } : chat
+    ));
+    chatStorage.saveChatDocument(chatId, state, progress);
+  }, []);
+
+  // Every change to the MT document belongs to the chat that is open
+  useEffect(() => {
+    if (!mtDocumentService) return;
+    return mtDocumentService.onDocumentChange((state: MTDocumentState) => {
+      storeChatDocument(currentChatIdRef.current, state, mtDocumentService.calculateProgress());
+    });
+  }, [mtDocumentService, storeChatDocument]);
+
+  // Opening, creating or deleting a chat swaps the service over to that chat's own MT document
+  const boundChatIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!mtDocumentService || !currentChatId || boundChatIdRef.current === currentChatId) return;
+    const isFirstBinding = boundChatIdRef.current === null;
+    boundChatIdRef.current = currentChatId;
+
+    const chat = chatHistories.find(history => history.id === currentChatId);
+    // Histories saved before documents were per chat: the open chat adopts the existing draft
+    if (isFirstBinding && !chatHistories.some(history => history.mtDocument)) {
+      storeChatDocument(currentChatId, mtDocumentService.getState(), mtDocumentService.calculateProgress());
+      return;
+    }
+    mtDocumentService.loadState(chat?.mtDocument);
+  }, [mtDocumentService, currentChatId, chatHistories, storeChatDocument]);
+
+  // Stop the current turn; any partial reply stays in the chat, the MT document is left as it was
+  const handleStopTurn = () => {
+    turnControllerRef.current?.abort();
+  };
+
   // Document Modal Handlers
+  const refreshDocumentPreview = () => {
+    if (mtDocumentService) {
+      setCurrentMTData(mtDocumentService.getCurrentDocument());
+      setDocumentHTML(mtDocumentService.generatePreviewHTML());
+      setDocumentValidation(mtDocumentService.validateDocument());
+      setRevisionHistory(mtDocumentService.getRevisionHistory());
+    }
+  };
+
   const showDocumentPreview = () => {
     if (mtDocumentService) {
-      const html = mtDocumentService.generatePreviewHTML();
-      setDocumentHTML(html);
+      refreshDocumentPreview();
       setShowDocumentModal(true);
     }
   };
 
-  const handleDownloadPDF = () => {
+  // Write a correction made in the preview back to the MT document
+  const handleFieldEdit = (field: keyof MTDocumentData, value: string) => {
     if (mtDocumentService) {
-      mtDocumentService.downloadDocument();
+      mtDocumentService.applyManualEdit(field, value);
+      refreshDocumentPreview();
     }
   };
 
+  // Save reviewer changes to the Attachment A checklist
+  const handleAttachmentAChange = (attachmentA: AttachmentAData) => {
+    if (mtDocumentService) {
+      mtDocumentService.updateAttachmentA(attachmentA);
+      refreshDocumentPreview();
+    }
+  };
+
+  // Issue the next formal MT revision and refresh the open preview
+  const handleBumpRevision = (note?: string) => {
+    if (mtDocumentService) {
+      mtDocumentService.bumpRevision(note);
+      setCurrentMTData(mtDocumentService.getCurrentDocument());
+      showDocumentPreview();
+    }
+  };
+
+  // Show or hide the AI-guessed / defaulted field shading; exports follow the same setting
+  const handleToggleHighlight = () => {
+    if (mtDocumentService) {
+      mtDocumentService.setProvenanceHighlighting(!highlightProvenance);
+      setHighlightProvenance(!highlightProvenance);
+      refreshDocumentPreview();
+    }
+  };
+
+  // Fill the MT from the structured questionnaire instead of free-text chat
+  const handleQuestionnaireSubmit = async (analysis: MTAnalysisResponse, questionnaireData: Record<string, unknown>) => {
+    if (!mtDocumentService) return;
+    try {
+      // The analysis is derived from the answers themselves, so it counts as questionnaire input
+      const documentData = await mtDocumentService.fromAnalysisResponse(analysis, questionnaireData, 'questionnaire');
+      setCurrentMTData(documentData);
+      setActionError(null);
+      setShowQuestionnaire(false);
+      showDocumentPreview();
+    } catch (error) {
+      console.error('Generating the MT from the questionnaire failed:', error);
+      setActionError(error instanceof Error ? error.message : 'Generating the MT from the questionnaire failed');
+    }
+  };
+
+  // Validation errors block export unless the user explicitly exports a flagged draft
+  const confirmExport = (): boolean => {
+    const validation: MTValidationResult = mtDocumentService.validateDocument();
+    return validation.isValid ||
+      confirm(`This MT has ${validation.errors.length} validation error(s). Export it anyway?`);
+  };
+
+  // Flattened PDFs are the read-only issued copy; otherwise the AcroForm stays fillable
+  const handleDownloadPDF = (options: { flatten?: boolean } = {}) => {
+    if (mtDocumentService) {
+      if (!confirmExport()) return;
+      mtDocumentService.downloadPdf(undefined, { allowInvalid: true, flatten: options.flatten }).catch((error: unknown) => {
+        console.error('MT PDF export failed:', error);
+        setActionError(error instanceof Error ? error.message : 'PDF export failed');
+      });
+    }
+  };
+
+  // Word export fills the uploaded site template when there is one, otherwise the built-in layout
   const handleDownloadWord = () => {
     if (mtDocumentService) {
-      // Add Word export functionality
-      console.log('Word export not yet implemented');
+      if (!confirmExport()) return;
+      mtDocumentService.downloadDocument(undefined, { allowInvalid: true, highlightProvenance }).catch((error: unknown) => {
+        console.error('MT Word export failed:', error);
+        setActionError(error instanceof Error ? error.message : 'Word export failed');
+      });
+    }
+  };
+
+  const handleUploadTemplate = (file: File) => {
+    if (mtDocumentService) {
+      mtDocumentService.setTemplate(file).then(setTemplateInfo).catch((error: unknown) => {
+        console.error('MT template upload failed:', error);
+        setActionError(error instanceof Error ? error.message : 'Template upload failed');
+      });
+    }
+  };
+
+  const handleClearTemplate = () => {
+    if (mtDocumentService) {
+      mtDocumentService.clearTemplate();
+      setTemplateInfo(null);
     }
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setSelectedFile(file);
+  // Offline edits come back through the filled PDF; conflicting values need the user's go-ahead
+  const handleImportPdf = async (file: File) => {
+    if (!mtDocumentService) return;
+    try {
+      let report: MTPdfImportReport = await mtDocumentService.importFilledPdf(file);
+      if (report.conflicts.length > 0 &&
+          confirm(`${report.conflicts.length} field(s) in ${file.name} differ from the current MT:\n` +
+            report.conflicts.map(conflict => `- ${conflict.field}`).join('\n') +
+            '\n\nReplace them with the PDF values?')) {
+        report = await mtDocumentService.importFilledPdf(file, { overwriteConflicts: true });
+      }
+      setPdfImportReport(report);
+      refreshDocumentPreview();
+    } catch (error) {
+      console.error('MT PDF import failed:', error);
+      setActionError(error instanceof Error ? error.message : 'PDF import failed');
     }
   };
 
@@ -501,40 +959,29 @@ Simply ask questions or upload documents to get started. What can I help you ana
   };
 
   // Save current chat to history
-  const saveCurrentChat = () => {
-    if (messages.length === 0 || !currentChatId) return;
+  const saveCurrentChat = (chatMessages: Message[] = messages) => {
+    if (chatMessages.length === 0 || !currentChatId) return;
+    const currentChat = chatHistories.find(chat => chat.id === currentChatId);
+    if (!currentChat) return;
     
-    const updatedHistories = chatHistories.map(chat => 
-      chat.id === currentChatId 
-        ? {
-            ...chat,
-            messages: [...messages],
-            title: generateChatTitle(messages),
-            updatedAt: new Date()
-          }
-        : chat
-    );
-    
-    setChatHistories(updatedHistories);
+    const update = { messages: [...chatMessages], title: generateChatTitle(chatMessages), updatedAt: new Date() };
+    setChatHistories(histories => histories.map(chat => chat.id === currentChatId ? { ...chat, ...update } : chat));
     
-    // Persist to localStorage
-    try {
-      localStorage.setItem('mtChatHistories', JSON.stringify(updatedHistories));
-    } catch (error) {
-      console.error('Failed to save chat history:', error);
-    }
+    // Persist only this chat; storage writes just the messages that changed
+    chatStorage.saveChat({ ...currentChat, ...update });
   };
 
-  // Create new chat
-  const createNewChat = () => {
-    // Save current chat first
-    if (messages.length > 0) {
-      saveCurrentChat();
-    }
-    
-    // Create new chat ID and reset state
+  // Stop the open chat's turn before another chat is shown, so its reply and MT updates cannot land there.
+  // The ref is set now rather than after the next render: the stopped turn settles before that.
+  const openChatId = (chatId: string) => {
+    turnControllerRef.current?.abort();
+    currentChatIdRef.current = chatId;
+    setCurrentChatId(chatId);
+  };
+
+  const openNewChat = () => {
     const newChatId = Date.now().toString();
-    setCurrentChatId(newChatId);
+    openChatId(newChatId);
     setMessages([]);
     setIsInitialized(false);
     setInputMessage('');
@@ -549,57 +996,100 @@ Simply ask questions or upload documents to get started. What can I help you ana
       updatedAt: new Date()
     };
     
-    const updatedHistories = [newChat, ...chatHistories];
-    setChatHistories(updatedHistories);
-    
-    // Persist to localStorage
-    try {
-      localStorage.setItem('mtChatHistories', JSON.stringify(updatedHistories));
-    } catch (error) {
-      console.error('Failed to save new chat:', error);
-    }
+    setChatHistories(histories => [newChat, ...histories]);
+    chatStorage.saveChat(newChat);
+  };
+
+  const openChat = (chat: ChatHistory) => {
+    openChatId(chat.id);
+    setMessages(chat.messages);
+    setIsInitialized(chat.messages.length > 0);
+    setInputMessage('');
+    setSelectedFile(null);
+  };
+
+  // Create new chat
+  const createNewChat = () => {
+    // Save current chat first
+    saveCurrentChat(settleStreamingMessages(messages));
+    openNewChat();
   };
 
   // Switch to existing chat
   const switchToChat = (chatId: string) => {
-    // Save current chat first
-    if (messages.length > 0 && currentChatId) {
-      saveCurrentChat();
-    }
-    
-    // Load selected chat
     const selectedChat = chatHistories.find(chat => chat.id === chatId);
-    if (selectedChat) {
-      setCurrentChatId(chatId);
-      setMessages(selectedChat.messages);
-      setIsInitialized(selectedChat.messages.length > 0);
-      setInputMessage('');
-      setSelectedFile(null);
-    }
+    if (!selectedChat || chatId === currentChatId) return;
+    
+    // Save current chat first
+    saveCurrentChat(settleStreamingMessages(messages));
+    openChat(selectedChat);
   };
 
   // Delete chat from history
   const deleteChat = (chatId: string) => {
-    const updatedHistories = chatHistories.filter(chat => chat.id !== chatId);
-    setChatHistories(updatedHistories);
+    const remaining = chatHistories.filter(chat => chat.id !== chatId);
+    setChatHistories(histories => histories.filter(chat => chat.id !== chatId));
     
-    // If deleting current chat, create new one
+    // If deleting current chat, open another without saving the deleted one again
     if (chatId === currentChatId) {
-      if (updatedHistories.length > 0) {
-        switchToChat(updatedHistories[0].id);
+      if (remaining.length > 0) {
+        openChat(remaining[0]);
       } else {
-        createNewChat();
+        openNewChat();
       }
     }
     
-    // Persist to localStorage
+    // Remove the chat along with its MT document and file records
+    chatStorage.deleteChat(chatId);
+  };
+
+  // Export a chat with its MT document and analyses, to hand over or attach to a condition report
+  const exportChat = (chatId: string) => {
+    const chat = chatHistories.find(history => history.id === chatId);
+    if (!chat) return;
+    downloadChatArchive(chat).catch((error: unknown) => {
+      console.error('Chat export failed:', error);
+      setActionError(error instanceof Error ? error.message : 'Chat export failed');
+    });
+  };
+
+  // Add an exported chat to the history; it gets a new id if a local chat already has the archived one
+  const importChat = async (file: File) => {
     try {
-      localStorage.setItem('mtChatHistories', JSON.stringify(updatedHistories));
+      const { chat, uploadedFiles } = await importChatArchive(file, new Set(chatHistories.map(history => history.id)));
+      setChatHistories(histories => [chat, ...histories]);
+      await chatStorage.saveChat(chat);
+      if (chat.mtDocument) {
+        await chatStorage.saveChatDocument(chat.id, chat.mtDocument, chat.mtProgress ?? 0);
+      }
+      await chatStorage.saveUploadedFiles(uploadedFiles);
     } catch (error) {
-      console.error('Failed to delete chat:', error);
+      console.error('Chat import failed:', error);
+      setActionError(error instanceof Error ? error.message : 'Chat import failed');
+    }
+  };
+
+  const isSearchActive = searchQuery.trim() !== '' || hasActiveChatFilters(searchFilters);
+  const searchResults = useMemo(
+    () => (isSearchActive ? searchChats(chatHistories, searchQuery, searchFilters) : []),
+    [isSearchActive, chatHistories, searchQuery, searchFilters]
+  );
+
+  // Open a chat from the search results, scrolling to the matching message when there is one
+  const openSearchResult = (chatId: string, messageId?: string) => {
+    if (chatId !== currentChatId) {
+      switchToChat(chatId);
     }
+    setHighlightedMessageId(messageId ?? null);
   };
 
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    document.getElementById(`chat-message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, currentChatId]);
+
   // Rename chat
   const renameChat = (chatId: string, newTitle: string) => {
     if (!newTitle.trim()) return;
@@ -612,11 +1102,9 @@ Simply ask questions or upload documents to get started. What can I help you ana
     
     setChatHistories(updatedHistories);
     
-    // Persist to localStorage
-    try {
-      localStorage.setItem('mtChatHistories', JSON.stringify(updatedHistories));
-    } catch (error) {
-      console.error('Failed to rename chat:', error);
+    const renamedChat = updatedHistories.find(chat => chat.id === chatId);
+    if (renamedChat) {
+      chatStorage.saveChat(renamedChat);
     }
   };
 
@@ -650,44 +1138,28 @@ Simply ask questions or upload documents to get started. What can I help you ana
     }
   };
 
-  // Load chat histories from localStorage on component mount
+  // Load chat histories on component mount (moving any left in localStorage to IndexedDB first)
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem('mtChatHistories');
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        const historiesWithDates = parsed.map((chat: any) => ({
-          ...chat,
-          createdAt: new Date(chat.createdAt),
-          updatedAt: new Date(chat.updatedAt),
-          messages: chat.messages.map((msg: any) => ({
-            ...msg,
-            timestamp: new Date(msg.timestamp)
-          }))
-        }));
-        setChatHistories(historiesWithDates);
-        
-        // Load most recent chat if exists
-        if (historiesWithDates.length > 0) {
-          const mostRecent = historiesWithDates[0];
-          setCurrentChatId(mostRecent.id);
-          setMessages(mostRecent.messages);
-          setIsInitialized(mostRecent.messages.length > 0);
-        } else {
-          createNewChat();
-        }
+    chatStorage.loadChats().then(histories => {
+      setChatHistories(histories);
+      
+      // Load most recent chat if exists
+      if (histories.length > 0) {
+        const mostRecent = histories[0];
+        setCurrentChatId(mostRecent.id);
+        setMessages(mostRecent.messages);
+        setIsInitialized(mostRecent.messages.length > 0);
       } else {
         createNewChat();
       }
-    } catch (error) {
-      console.error('Failed to load chat history:', error);
-      createNewChat();
-    }
+    });
+    return chatStorage.subscribe(setStorageStatus);
   }, []);
 
-  // Save current chat when messages change
+  // Save current chat when messages change; a streaming reply is saved once it completes or stops,
+  // not on every chunk
   useEffect(() => {
-    if (messages.length > 0 && currentChatId) {
+    if (messages.length > 0 && currentChatId && !messages.some(message => message.status === 'streaming')) {
       saveCurrentChat();
     }
   }, [messages]);
@@ -821,6 +1293,27 @@ Simply ask questions or upload documents to get started. What can I help you ana
               <span>New Chat</span>
             </button>
             
+            {/* Import a chat exported from another browser */}
+            <button
+              onClick={() => archiveInputRef.current?.click()}
+              className="mt-document-btn"
+              title="Import a chat archive (.zip)"
+            >
+              <Upload className="w-4 h-4" />
+              <span>Import Chat</span>
+            </button>
+            <input
+              ref={archiveInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importChat(file);
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+            
             {/* MT Document Preview Button */}
             {mtDocumentService && (
               <button
@@ -832,11 +1325,32 @@ Simply ask questions or upload documents to get started. What can I help you ana
                 <span>View MT Document</span>
               </button>
             )}
+            
+            {/* MT Questionnaire Button */}
+            {mtDocumentService && (
+              <button
+                onClick={() => setShowQuestionnaire(true)}
+                className="mt-document-btn"
+                title="Fill the MT using the structured questionnaire"
+              >
+                <ClipboardList className="w-4 h-4" />
+                <span>Fill MT Questionnaire</span>
+              </button>
+            )}
           </div>
           
+          <ChatHistorySearch
+            query={searchQuery}
+            onQueryChange={setSearchQuery}
+            filters={searchFilters}
+            onFiltersChange={setSearchFilters}
+          />
+          
           {/* Chat History List */}
           <div className="chat-history-list">
-            {chatHistories.length === 0 ? (
+            {isSearchActive ? (
+              <ChatSearchResults results={searchResults} currentChatId={currentChatId} onOpenResult={openSearchResult} />
+            ) : chatHistories.length === 0 ? (
               <div className="chat-history-empty">
                 <div className="chat-history-empty-icon">💬</div>
                 <p className="chat-history-empty-title">No chat history yet</p>
@@ -874,6 +1388,7 @@ Simply ask questions or upload documents to get started. What can I help you ana
                     <div className="chat-item-meta">
                       {chat.updatedAt.toLocaleDateString()} • {chat.messages.length} messages
                     </div>
+                    <ChatMTProgress progress={chat.mtProgress} />
                   </div>
                   
                   {/* Action buttons - show on hover */}
@@ -893,6 +1408,17 @@ Simply ask questions or upload documents to get started. What can I help you ana
                           </svg>
                         </button>
                         
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            exportChat(chat.id);
+                          }}
+                          className="chat-action-btn chat-export-btn"
+                          title="Export chat"
+                        >
+                          <Download className="w-3 h-3" />
+                        </button>
+                        
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
@@ -947,6 +1473,7 @@ Simply ask questions or upload documents to get started. What can I help you ana
           </div>
           
           <div className="top-bar-right">
+            {topBarActions}
             <div className="conversation-counter">
               {chatHistories.length} conversations
             </div>
@@ -963,6 +1490,27 @@ Simply ask questions or upload documents to get started. What can I help you ana
           </div>
         </div>
 
+        {/* Storage warning: history that cannot be saved is lost on reload */}
+        {storageStatus.state !== 'ok' && (
+          <div className={`px-6 py-2 text-sm border-b ${
+            storageStatus.state === 'nearly-full' ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-red-50 border-red-200 text-red-800'
+          }`}>
+            {storageStatus.state === 'full' && 'Browser storage is full. Recent changes to your chats are not being saved; delete old chats to free space.'}
+            {storageStatus.state === 'nearly-full' && `Browser storage is almost full (${Math.round(((storageStatus.usageBytes ?? 0) / (storageStatus.quotaBytes || 1)) * 100)}% used). Delete old chats to keep saving history.`}
+            {storageStatus.state === 'unavailable' && 'This browser does not allow saving chat history. Your chats will be lost when the page is closed.'}
+          </div>
+        )}
+
+        {/* Failed action, e.g. an export or import that threw */}
+        {actionError && (
+          <div className="flex items-center justify-between px-6 py-2 text-sm border-b bg-red-50 border-red-200 text-red-800">
+            <span>{actionError}</span>
+            <button onClick={() => setActionError(null)} className="text-red-700 hover:underline">
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-6 space-y-4 bg-gray-50">
 
@@ -973,6 +1521,13 @@ Simply ask questions or upload documents to get started. What can I help you ana
             index={index}
             onCopyMessage={handleCopyMessage}
             onEditMessage={handleEditMessage}
+            queuedTurn={queuedTurns.get(message.id)}
+            onRetryTurn={id => outboundQueue.retryNow(id)}
+            onDiscardTurn={id => outboundQueue.remove(id)}
+            isHighlighted={message.id === highlightedMessageId}
+            onRegenerate={handleRegenerateResponse}
+            onSelectVariant={handleSelectVariant}
+            isGenerating={isLoading}
           />
         ))}
 
@@ -980,7 +1535,7 @@ Simply ask questions or upload documents to get started. What can I help you ana
       </div>
 
       {/* AI is thinking message - moved to bottom */}
-      {isLoading && (
+      {isLoading && responsePhase !== 'streaming' && (
         <div className="border-t bg-gray-50 p-4">
           <div className="flex items-start space-x-3">
             <div className="w-10 h-10 bg-blue-600 rounded-full flex items-center justify-center text-white font-semibold">
@@ -989,113 +1544,80 @@ Simply ask questions or upload documents to get started. What can I help you ana
             <div className="flex-1 bg-white p-4 rounded-lg border shadow-sm">
               <div className="flex items-center space-x-2 mb-2">
                 <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-                <span className="text-sm text-gray-600">AI is thinking...</span>
+                <span className="text-sm text-gray-600">
+                  {responsePhase === 'updating-document' ? 'Updating MT document...' : 'AI is thinking...'}
+                </span>
               </div>
             </div>
           </div>
         </div>
       )}
 
-      {/* File Preview */}
-      {selectedFile && (
-        <div className="border-t bg-gray-50 p-4">
-          <div className="flex items-center space-x-2 bg-blue-50 rounded-lg p-2">
-            <FileUp className="w-5 h-5 text-blue-600" />
-            <span className="flex-1 text-sm font-medium text-blue-700">{selectedFile.name}</span>
-            <button
-              onClick={() => setSelectedFile(null)}
-              className="text-blue-600 hover:text-blue-800 text-lg"
-              title="Remove file"
-            >
-              ×
-            </button>
-          </div>
-        </div>
-      )}
-
-      {/* Input */}
-      <div className="border-t bg-white p-6">
-        <div className="flex items-end space-x-4">
-          {/* View Document Button - Always show when MT service is available */}
-          {mtDocumentService && (
-            <button
-              onClick={showDocumentPreview}
-              className="p-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center"
-              title="View MT Document Live Preview"
-            >
-              <FileText className="w-5 h-5" />
-            </button>
-          )}
-          
-          <div className="flex-1">
-            <textarea
-              ref={textareaRef}
-              value={inputMessage}
-              onChange={(e) => setInputMessage(e.target.value)}
-              onKeyPress={handleKeyPress}
-              placeholder="Describe your modification scenario..."
-              className="chat-input"
-              rows={2}
-              disabled={isLoading}
-            />
-          </div>
-          
-          <button
-            onClick={handleSendMessage}
-            disabled={!inputMessage.trim() || isLoading}
-            className="p-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center justify-center min-w-[48px]"
-          >
-            {isLoading ? (
-              <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-            ) : (
-              <Send className="w-5 h-5" />
-            )}
-          </button>
-          
+      <ChatInput
+        inputMessage={inputMessage}
+        onInputChange={setInputMessage}
+        onSendMessage={handleSendMessage}
+        onFileSelect={setSelectedFile}
+        selectedFile={selectedFile}
+        onRemoveFile={() => setSelectedFile(null)}
+        isLoading={isLoading}
+        onStop={handleStopTurn}
+        placeholder="Describe your modification scenario..."
+        inputRef={textareaRef}
+        leadingActions={mtDocumentService && (
+          // View Document Button - Always show when MT service is available
           <button
-            onClick={() => fileInputRef.current?.click()}
-            className="p-3 bg-gray-200 text-gray-600 rounded-lg hover:bg-gray-300 transition-colors flex items-center justify-center"
-            title="Upload file"
+            onClick={showDocumentPreview}
+            className="p-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center"
+            title="View MT Document Live Preview"
           >
-            <FileUp className="w-5 h-5" />
+            <FileText className="w-5 h-5" />
           </button>
-        </div>
-
-        {/* Hidden file input */}
-        <input
-          ref={fileInputRef}
-          type="file"
-          onChange={handleFileSelect}
-          className="hidden"
-          accept=".pdf,.doc,.docx,.txt"
-        />
-
-        {/* Selected file indicator */}
-        {selectedFile && (
-          <div className="mt-3 p-2 bg-blue-50 border border-blue-200 rounded flex items-center justify-between">
-            <span className="text-sm text-blue-700">📎 {selectedFile.name}</span>
-            <button
-              onClick={() => setSelectedFile(null)}
-              className="text-blue-500 hover:text-blue-700 ml-2"
-            >
-              ×
-            </button>
-          </div>
         )}
-      </div>
+      />
     </div>
 
     {/* Document Modal */}
     {showDocumentModal && (
       <MTDocumentModal
         isOpen={showDocumentModal}
-        onClose={() => setShowDocumentModal(false)}
+        onClose={() => {
+          setShowDocumentModal(false);
+          setIsEditingDocument(false);
+        }}
         documentHTML={documentHTML}
         mtData={currentMTData}
+        validation={documentValidation}
+        revisionHistory={revisionHistory}
+        onBumpRevision={handleBumpRevision}
+        onAttachmentAChange={handleAttachmentAChange}
+        highlightProvenance={highlightProvenance}
+        onToggleHighlight={handleToggleHighlight}
+        progress={documentProgress}
+        isEditing={isEditingDocument}
+        onEdit={() => setIsEditingDocument(!isEditingDocument)}
+        onFieldChange={handleFieldEdit}
         onDownloadPDF={handleDownloadPDF}
         onDownloadWord={handleDownloadWord}
+        templateInfo={templateInfo}
+        onUploadTemplate={handleUploadTemplate}
+        onClearTemplate={handleClearTemplate}
+        onImportPdf={handleImportPdf}
+        pdfImportReport={pdfImportReport}
+        onDismissImportReport={() => setPdfImportReport(null)}
+        error={actionError}
+        onDismissError={() => setActionError(null)}
       />
     )}
+
+    {/* Questionnaire Wizard - kept mounted so its answers survive closing it */}
+    <MTQuestionnaireWizard
+      isOpen={showQuestionnaire}
+      onClose={() => setShowQuestionnaire(false)}
+      onSubmit={handleQuestionnaireSubmit}
+      error={actionError}
+      onDismissError={() => setActionError(null)}
+    />
   </div>
 );
 }
@@ -1,6 +1,15 @@
 import React from 'react';
-import { Bot, User, Copy, Edit, FileUp } from 'lucide-react';
+import { Bot, User, Copy, Edit, FileUp, RotateCcw, X, ChevronLeft, ChevronRight } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
+import type { QueuedTurn } from '../services/outboundQueue';
+
+// One generated reply to a user turn; regenerated AI messages keep every variant
+export interface MessageVariant {
+  text: string;
+  status?: Message['status'];
+  // Last MT snapshot once this variant's fields were written
+  mtSnapshotId?: string;
+}
 
 export interface Message {
   id: string;
@@ -8,6 +17,15 @@ export interface Message {
   sender: 'user' | 'ai';
   timestamp: Date;
   type?: 'text' | 'file' | 'analysis';
+  // AI replies only: still being generated, or cut short by the user
+  status?: 'streaming' | 'stopped';
+  // Regenerated AI replies only: all variants, and the one shown in `text`
+  variants?: MessageVariant[];
+  activeVariant?: number;
+  // AI replies only: MT snapshot the reply's fields were written on top of (null: empty MT),
+  // and the last snapshot once they were; variants keep their own `mtSnapshotId`
+  mtBaseSnapshotId?: string | null;
+  mtSnapshotId?: string;
   metadata?: any;
 }
 
@@ -16,12 +34,38 @@ interface ChatMessageProps {
   index: number;
   onCopyMessage: (messageText: string) => Promise<void>;
   onEditMessage: (messageText: string) => void;
+  // Set while this user message waits in the outbound queue
+  queuedTurn?: QueuedTurn;
+  onRetryTurn?: (messageId: string) => void;
+  onDiscardTurn?: (messageId: string) => void;
+  // Briefly set when a chat search result jumps to this message
+  isHighlighted?: boolean;
+  // AI replies: answer the preceding user message again, or show an earlier variant
+  onRegenerate?: (messageId: string) => void;
+  onSelectVariant?: (messageId: string, variantIndex: number) => void;
+  // Set while any turn is running; regenerating waits for it to finish
+  isGenerating?: boolean;
 }
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message, index, onCopyMessage, onEditMessage }) => {
+export const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  index,
+  onCopyMessage,
+  onEditMessage,
+  queuedTurn,
+  onRetryTurn,
+  onDiscardTurn,
+  isHighlighted,
+  onRegenerate,
+  onSelectVariant,
+  isGenerating
+}) => {
+  const variantCount = message.variants?.length ?? 0;
+  const activeVariant = message.activeVariant ?? variantCount - 1;
 
   return (
     <div
+      id={`chat-message-${message.id}`}
       className={`flex items-start space-x-3 ${message.sender === 'user' ? 'flex-row-reverse space-x-reverse' : ''}`}
     >
       <div className={`w-10 h-10 rounded-full flex items-center justify-center text-white font-semibold ${
@@ -42,7 +86,7 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message, index, onCopy
         message.sender === 'user' 
           ? 'bg-blue-600 text-white' 
           : 'bg-white border shadow-sm'
-      }`}>
+      } ${isHighlighted ? 'ring-4 ring-yellow-300 transition-shadow' : ''}`}>
         {message.type === 'file' && (
           <div className={`flex items-center space-x-2 mb-2 p-2 rounded ${
             message.sender === 'user' ? 'bg-blue-700' : 'bg-gray-100'
@@ -107,11 +151,46 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message, index, onCopy
           </ReactMarkdown>
         </div>
         
+        {queuedTurn && (
+          <div className="flex items-center justify-between mt-2 px-2 py-1 rounded bg-blue-700 text-xs text-blue-100">
+            <span title={queuedTurn.lastError}>
+              {queuedTurn.status === 'retrying' && 'Sending again...'}
+              {queuedTurn.status === 'pending' &&
+                `Not delivered - retrying at ${new Date(queuedTurn.nextAttemptAt).toLocaleTimeString()}`}
+              {queuedTurn.status === 'failed' && `Failed to send after ${queuedTurn.attempts} attempts`}
+            </span>
+            {queuedTurn.status !== 'retrying' && (
+              <span className="flex space-x-1 ml-2">
+                {onRetryTurn && (
+                  <button
+                    onClick={() => onRetryTurn(message.id)}
+                    className="p-1 rounded hover:bg-blue-800 hover:text-white transition-colors"
+                    title={queuedTurn.status === 'failed' ? 'Replay this message' : 'Retry now'}
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                  </button>
+                )}
+                {onDiscardTurn && (
+                  <button
+                    onClick={() => onDiscardTurn(message.id)}
+                    className="p-1 rounded hover:bg-blue-800 hover:text-white transition-colors"
+                    title="Stop retrying this message"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            )}
+          </div>
+        )}
+
         <div className={`flex items-center justify-between mt-2 ${
           message.sender === 'user' ? 'text-blue-200' : 'text-gray-500'
         }`}>
           <div className="text-xs">
             {message.timestamp.toLocaleTimeString()}
+            {message.status === 'streaming' && <span className="ml-2 animate-pulse">Generating...</span>}
+            {message.status === 'stopped' && <span className="ml-2 italic">Stopped</span>}
           </div>
           
           <div className="flex space-x-1">
@@ -157,18 +236,39 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message, index, onCopy
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M6.343 6.343A8 8 0 0018.364 18.364M9.879 9.879a3 3 0 004.242 4.242M15.536 8.464a5 5 0 010 7.072" />
                   </svg>
                 </button>
-                <button
-                  onClick={() => {
-                    // Implement regenerate functionality if needed
-                    console.log('Regenerate response for:', message.id);
-                  }}
-                  className="p-1 rounded hover:bg-gray-100 text-gray-400 hover:text-gray-600 transition-colors"
-                  title="Regenerate response"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                  </svg>
-                </button>
+                {onSelectVariant && variantCount > 1 && (
+                  <span className="flex items-center text-xs text-gray-400">
+                    <button
+                      onClick={() => onSelectVariant(message.id, activeVariant - 1)}
+                      disabled={isGenerating || activeVariant === 0}
+                      className="p-1 rounded hover:bg-gray-100 hover:text-gray-600 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                      title="Previous response"
+                    >
+                      <ChevronLeft className="w-3 h-3" />
+                    </button>
+                    <span>{activeVariant + 1}/{variantCount}</span>
+                    <button
+                      onClick={() => onSelectVariant(message.id, activeVariant + 1)}
+                      disabled={isGenerating || activeVariant === variantCount - 1}
+                      className="p-1 rounded hover:bg-gray-100 hover:text-gray-600 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                      title="Next response"
+                    >
+                      <ChevronRight className="w-3 h-3" />
+                    </button>
+                  </span>
+                )}
+                {onRegenerate && message.type !== 'analysis' && (
+                  <button
+                    onClick={() => onRegenerate(message.id)}
+                    disabled={isGenerating}
+                    className="p-1 rounded hover:bg-gray-100 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                    title="Regenerate response"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    </svg>
+                  </button>
+                )}
               </>
             )}
           </div>
@@ -1,5 +1,6 @@
 import React from 'react';
 import { FileText } from 'lucide-react';
+import type { MTDocumentState } from '../services/mtDocumentService';
 
 export interface ChatHistory {
   id: string;
@@ -7,8 +8,25 @@ export interface ChatHistory {
   messages: any[];
   createdAt: Date;
   updatedAt: Date;
+  // The MT document this chat is filling; absent until the chat has been bound to one
+  mtDocument?: MTDocumentState;
+  // Completion of mtDocument, kept alongside so the list does not re-validate every traveler
+  mtProgress?: number;
 }
 
+// Per-chat MT completion shown under each chat in the history list
+export const ChatMTProgress: React.FC<{ progress?: number }> = ({ progress }) => {
+  if (!progress) return null;
+  return (
+    <div className="chat-item-mt-progress" title={`MT document ${progress}% complete`}>
+      <div className="chat-item-mt-progress-track">
+        <div className="chat-item-mt-progress-fill" style={{ width: `${progress}%` }} />
+      </div>
+      <span>MT {progress}%</span>
+    </div>
+  );
+};
+
 interface ChatSidebarProps {
   isOpen: boolean;
   onClose: () => void;
@@ -123,6 +141,7 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
                       <div className="chat-item-meta">
                         {chat.updatedAt.toLocaleDateString()} • {chat.messages.length} messages
                       </div>
+                      <ChatMTProgress progress={chat.mtProgress} />
                     </>
                   )}
                 </div>
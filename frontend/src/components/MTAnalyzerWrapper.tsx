@@ -1,77 +1,57 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
+import { History, Layers, SlidersHorizontal } from 'lucide-react';
 import ChatInterface_Pure from './ChatInterface_Pure';
+import { AnalysisHistory } from './AnalysisHistory';
+import { AnalysisOptionsPanel, DEFAULT_ANALYSIS_OPTIONS } from './AnalysisOptionsPanel';
+import { BatchAnalysisPanel } from './BatchAnalysisPanel';
 import { DocumentAnalysisAPI } from '../services/documentAnalysisAPI';
-import { DocumentAnalysisResult } from '../types/documentAnalysis';
+import BatchAnalysisQueue from '../services/batchAnalysis';
+import {
+  FALLBACK_ANALYSIS_CAPABILITIES,
+  loadAnalysisCapabilities,
+  reconcileAnalysisOptions,
+  validateUploadFile
+} from '../services/analysisCapabilities';
+import { AnalysisCapabilities, AnalysisOptions, DocumentAnalysisResult } from '../types/documentAnalysis';
 import '../styles/components/index.css';
 import '../styles/components/mt-analyzer.css';
 
-// Enhanced MT Analyzer Component with PDF Analysis
-export const MTAnalyzerWrapper: React.FC = () => {
-  const [analysisResults, setAnalysisResults] = useState<any[]>([]);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [lastPdfAnalysis, setLastPdfAnalysis] = useState<DocumentAnalysisResult | null>(null);
-  const [pendingAnalysisMessage, setPendingAnalysisMessage] = useState<string | null>(null);
+// Chat message summarizing a PDF analysis; also used to re-inject past analyses from the history
+const buildAnalysisSummaryMessage = (fileName: string, analysis: DocumentAnalysisResult): string => {
+  const qualityRating = analysis.qualityScore.overall >= 90 ? '🟢 Excellent' : 
+                       analysis.qualityScore.overall >= 75 ? '🟡 Good' : 
+                       analysis.qualityScore.overall >= 60 ? '🟠 Fair' : '🔴 Needs Improvement';
 
-  const handleSendMessage = async (message: string) => {
-    console.log('MT Analysis message:', message);
-    // TODO: Integrate with existing MT analysis API
-  };
-
-  const handleAnalyzeFile = async (file: File) => {
-    console.log('MT File analysis:', file.name);
-    
-    if (file.type === 'application/pdf') {
-      setIsAnalyzing(true);
-      setError(null);
-      
-      try {
-        // First, analyze the PDF for document quality
-        const pdfAnalysis = await DocumentAnalysisAPI.analyzePDF(file, {
-          documentType: 'nuclear', // Default to nuclear for MT documents
-          performGrammarCheck: true,
-          performStyleCheck: true,
-          performTechnicalReview: true,
-          performComplianceCheck: true,
-        });
-        
-        setLastPdfAnalysis(pdfAnalysis);
-        
-        // Create a comprehensive, well-structured analysis message
-        const qualityRating = pdfAnalysis.qualityScore.overall >= 90 ? '🟢 Excellent' : 
-                             pdfAnalysis.qualityScore.overall >= 75 ? '🟡 Good' : 
-                             pdfAnalysis.qualityScore.overall >= 60 ? '🟠 Fair' : '🔴 Needs Improvement';
-        
-        const summaryMessage = `📄 **Document Analysis Complete**
-*${file.name}*
+  return `📄 **Document Analysis Complete**
+*${fileName}*
 
 ---
 ## 📊 Quality Assessment
 
-**Overall Rating:** ${qualityRating} (${pdfAnalysis.qualityScore.overall.toFixed(1)}/100)
+**Overall Rating:** ${qualityRating} (${analysis.qualityScore.overall.toFixed(1)}/100)
 
 | **Aspect** | **Score** | **Status** |
 |------------|-----------|------------|
-| Grammar & Style | ${pdfAnalysis.qualityScore.grammar.toFixed(1)}/100 | ${pdfAnalysis.grammar.totalIssues} issues found |
-| Technical Quality | ${pdfAnalysis.qualityScore.technical.toFixed(1)}/100 | ${pdfAnalysis.qualityScore.technical >= 75 ? '✅ Strong' : '⚠️ Review needed'} |
-| Compliance | ${pdfAnalysis.qualityScore.compliance?.toFixed(1) || 'N/A'}/100 | ${pdfAnalysis.qualityScore.compliance >= 75 ? '✅ Compliant' : '⚠️ Check required'} |
+| Grammar & Style | ${analysis.qualityScore.grammar.toFixed(1)}/100 | ${analysis.grammar.totalIssues} issues found |
+| Technical Quality | ${analysis.qualityScore.technical.toFixed(1)}/100 | ${analysis.qualityScore.technical >= 75 ? '✅ Strong' : '⚠️ Review needed'} |
+| Compliance | ${analysis.qualityScore.compliance?.toFixed(1) || 'N/A'}/100 | ${analysis.qualityScore.compliance >= 75 ? '✅ Compliant' : '⚠️ Check required'} |
 
-**Document Details:** ${pdfAnalysis.metadata.documentType} • ${pdfAnalysis.metadata.pageCount} pages • ${pdfAnalysis.metadata.wordCount.toLocaleString()} words
+**Document Details:** ${analysis.metadata.documentType} • ${analysis.metadata.pageCount} pages • ${analysis.metadata.wordCount.toLocaleString()} words
 
 ---
 ## 🔍 Key Insights
 
-${pdfAnalysis.summary}
+${analysis.summary}
 
 ---
 ## 🚀 Priority Improvements
 
-${pdfAnalysis.suggestions.slice(0, 3).map((s, i) => 
+${analysis.suggestions.slice(0, 3).map((s, i) => 
   `**${i + 1}. ${s.title}** *(${s.impact} impact)*\n   ${s.description}`
 ).join('\n\n')}
 
-${pdfAnalysis.suggestions.length > 3 ? 
-  `\n*📋 **+${pdfAnalysis.suggestions.length - 3} additional recommendations** available for detailed review*` : ''}
+${analysis.suggestions.length > 3 ? 
+  `\n*📋 **+${analysis.suggestions.length - 3} additional recommendations** available for detailed review*` : ''}
 
 ---
 ## 💬 What's Next?
@@ -84,9 +64,79 @@ ${pdfAnalysis.suggestions.length > 3 ?
 • Generate revised sections
 
 **Just ask!** *"Fix the grammar issues"* or *"Help me improve the technical sections"*`;
+};
+
+// Enhanced MT Analyzer Component with PDF Analysis
+export const MTAnalyzerWrapper: React.FC = () => {
+  const [analysisResults, setAnalysisResults] = useState<any[]>([]);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastPdfAnalysis, setLastPdfAnalysis] = useState<DocumentAnalysisResult | null>(null);
+  const [pendingAnalysisMessage, setPendingAnalysisMessage] = useState<string | null>(null);
+  const [pendingAnalysisResult, setPendingAnalysisResult] = useState<DocumentAnalysisResult | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // Bumped after each successful analysis so an open history panel picks it up
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [showOptions, setShowOptions] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [batchQueue] = useState(() => new BatchAnalysisQueue());
+  const [capabilities, setCapabilities] = useState<AnalysisCapabilities>(FALLBACK_ANALYSIS_CAPABILITIES);
+  // MT documents default to the nuclear document type with a compliance check
+  const [analysisOptions, setAnalysisOptions] = useState<AnalysisOptions>({
+    ...DEFAULT_ANALYSIS_OPTIONS,
+    documentType: 'nuclear',
+    performComplianceCheck: true
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAnalysisCapabilities().then(loaded => {
+      if (cancelled) return;
+      setCapabilities(loaded);
+      setAnalysisOptions(options => reconcileAnalysisOptions(options, loaded));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Leaving the chat stops the batch uploads still in flight
+  useEffect(() => () => batchQueue.cancel(), [batchQueue]);
+
+  const handleSendMessage = async (message: string) => {
+    console.log('MT Analysis message:', message);
+    // TODO: Integrate with existing MT analysis API
+  };
+
+  const handleAnalyzeFile = async (file: File) => {
+    console.log('MT File analysis:', file.name);
+    
+    // Files the analysis service cannot take are reported before anything is uploaded
+    const uploadProblem = validateUploadFile(file, capabilities);
+    if (!uploadProblem) {
+      setIsAnalyzing(true);
+      setError(null);
+      
+      try {
+        // First, analyze the PDF for document quality
+        const pdfAnalysis = await DocumentAnalysisAPI.analyzePDF(file, analysisOptions);
+
+        // Failed analyses carry no scores worth reporting; show the backend's reason instead
+        if (!pdfAnalysis.isAnalysisSuccessful) {
+          setLastPdfAnalysis(null);
+          setError(`PDF Analysis Error: ${pdfAnalysis.errorMessage}`);
+          return;
+        }
+
+        setLastPdfAnalysis(pdfAnalysis);
+        setHistoryVersion(version => version + 1);
+        
+        // Create a comprehensive, well-structured analysis message
+        const summaryMessage = buildAnalysisSummaryMessage(file.name, pdfAnalysis);
 
         // Set the pending analysis message to be injected into chat
         setPendingAnalysisMessage(summaryMessage);
+        setPendingAnalysisResult(pdfAnalysis);
         
         // Also set the analysis results for the UI display
         setAnalysisResults([{
@@ -105,10 +155,23 @@ ${pdfAnalysis.suggestions.length > 3 ?
         setIsAnalyzing(false);
       }
     } else {
-      setError('Please upload a PDF file for analysis');
+      setError(uploadProblem);
     }
   };
 
+  // Reopen a past analysis: show it as the latest one and post its summary to the chat again
+  const handleInjectHistorySummary = (analysis: DocumentAnalysisResult) => {
+    setLastPdfAnalysis(analysis);
+    setPendingAnalysisMessage(buildAnalysisSummaryMessage(analysis.metadata.fileName, analysis));
+    setPendingAnalysisResult(analysis);
+  };
+
+  const handleSendBatchReport = (markdown: string) => {
+    setPendingAnalysisMessage(markdown);
+    setPendingAnalysisResult(null);
+    setShowBatch(false);
+  };
+
   const handleScenariosUpdate = (scenarios: any[]) => {
     console.log('Test scenarios updated:', scenarios);
   };
@@ -121,6 +184,45 @@ ${pdfAnalysis.suggestions.length > 3 ?
         </div>
       )}
       
+      {showOptions && (
+        <div className="analysis-options-popover">
+          <div className="analysis-options-popover-header">
+            <strong>PDF Analysis Options</strong>
+            <button onClick={() => setShowOptions(false)} title="Close">✕</button>
+          </div>
+          <AnalysisOptionsPanel
+            options={analysisOptions}
+            onChange={setAnalysisOptions}
+            capabilities={capabilities}
+            layout="stacked"
+          />
+        </div>
+      )}
+
+      {showHistory && (
+        <div className="analysis-history-panel">
+          <AnalysisHistory
+            refreshKey={historyVersion}
+            onInjectSummary={handleInjectHistorySummary}
+            onClose={() => setShowHistory(false)}
+          />
+        </div>
+      )}
+
+      {/* Kept mounted while hidden so closing the drawer does not lose the batch */}
+      <div className="analysis-batch-panel" hidden={!showBatch}>
+        <div className="analysis-batch-panel-header">
+          <strong>Batch PDF Analysis</strong>
+          <button onClick={() => setShowBatch(false)} title="Close">✕</button>
+        </div>
+        <BatchAnalysisPanel
+          queue={batchQueue}
+          options={analysisOptions}
+          capabilities={capabilities}
+          onSendReport={handleSendBatchReport}
+        />
+      </div>
+
       {isAnalyzing && (
         <div className="analysis-loading">
           <div className="spinner"></div>
@@ -158,7 +260,39 @@ ${pdfAnalysis.suggestions.length > 3 ?
         onAnalyzeFile={handleAnalyzeFile}
         onScenariosUpdate={handleScenariosUpdate}
         pendingAnalysisMessage={pendingAnalysisMessage}
-        onAnalysisMessageProcessed={() => setPendingAnalysisMessage(null)}
+        pendingAnalysisResult={pendingAnalysisResult}
+        onAnalysisMessageProcessed={() => {
+          setPendingAnalysisMessage(null);
+          setPendingAnalysisResult(null);
+        }}
+        topBarActions={
+          <>
+            <button
+              onClick={() => setShowOptions(open => !open)}
+              className="analysis-toolbar-button"
+              title="Options for PDF analysis"
+            >
+              <SlidersHorizontal size={14} />
+              <span>PDF Options</span>
+            </button>
+            <button
+              onClick={() => setShowBatch(open => !open)}
+              className="analysis-toolbar-button"
+              title="Analyze a package of PDFs"
+            >
+              <Layers size={14} />
+              <span>Batch</span>
+            </button>
+            <button
+              onClick={() => setShowHistory(open => !open)}
+              className="analysis-toolbar-button"
+              title="Past PDF analyses"
+            >
+              <History size={14} />
+              <span>History</span>
+            </button>
+          </>
+        }
       />
     </div>
   );
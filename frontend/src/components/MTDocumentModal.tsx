@@ -1,14 +1,38 @@
-import React, { useState } from 'react';
-import { X, Maximize2, Minimize2, Download, FileText, Printer, Edit } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Maximize2, Minimize2, Download, FileText, Printer, Edit, AlertTriangle, CheckCircle, History, Highlighter, ListChecks, Upload, FileInput } from 'lucide-react';
+import { MTRevisionHistory } from './MTRevisionHistory';
+import { AttachmentAChecklist } from './AttachmentAChecklist';
+import type { AttachmentAData } from '../services/attachmentAChecklist';
+import type { MTSnapshot } from '../services/mtRevisionStore';
+import type { MTDocumentData, MTPdfImportReport, MTTemplateInfo } from '../services/mtDocumentService';
+import { MT_SECTION_TITLES, type MTSection, type MTValidationResult } from '../services/mtValidationService';
 
 interface MTDocumentModalProps {
   isOpen: boolean;
   onClose: () => void;
   documentHTML: string;
   mtData: any;
+  validation?: MTValidationResult;
+  revisionHistory?: MTSnapshot[];
+  onBumpRevision?: (note?: string) => void;
+  onAttachmentAChange?: (attachmentA: AttachmentAData) => void;
+  highlightProvenance?: boolean;
+  onToggleHighlight?: () => void;
+  progress?: number;
+  isEditing?: boolean;
   onEdit?: () => void;
-  onDownloadPDF?: () => void;
+  onFieldChange?: (field: keyof MTDocumentData, value: string) => void;
+  onDownloadPDF?: (options?: { flatten?: boolean }) => void;
   onDownloadWord?: () => void;
+  templateInfo?: MTTemplateInfo | null;
+  onUploadTemplate?: (file: File) => void;
+  onClearTemplate?: () => void;
+  onImportPdf?: (file: File) => void;
+  pdfImportReport?: MTPdfImportReport | null;
+  onDismissImportReport?: () => void;
+  // Failed export, import or template upload; the modal covers the chat's own banner
+  error?: string | null;
+  onDismissError?: () => void;
 }
 
 export default function MTDocumentModal({ 
@@ -16,14 +40,84 @@ export default function MTDocumentModal({
   onClose, 
   documentHTML, 
   mtData, 
+  validation,
+  revisionHistory,
+  onBumpRevision,
+  onAttachmentAChange,
+  highlightProvenance,
+  onToggleHighlight,
+  progress,
+  isEditing,
   onEdit,
+  onFieldChange,
   onDownloadPDF,
-  onDownloadWord 
+  onDownloadWord,
+  templateInfo,
+  onUploadTemplate,
+  onClearTemplate,
+  onImportPdf,
+  pdfImportReport,
+  onDismissImportReport,
+  error,
+  onDismissError
 }: MTDocumentModalProps) {
   const [isFullScreen, setIsFullScreen] = useState(false);
+  const [showValidation, setShowValidation] = useState(true);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showChecklist, setShowChecklist] = useState(false);
+  const [flattenPdf, setFlattenPdf] = useState(false);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const templateInputRef = useRef<HTMLInputElement>(null);
+  const pdfInputRef = useRef<HTMLInputElement>(null);
+
+  // The preview is plain HTML, so editable values are switched on directly in the DOM
+  // every time the document is re-rendered
+  useEffect(() => {
+    contentRef.current?.querySelectorAll<HTMLElement>('[data-mt-edit="text"]').forEach(element => {
+      element.contentEditable = isEditing ? 'true' : 'false';
+    });
+  }, [documentHTML, isEditing]);
 
   if (!isOpen) return null;
 
+  const getEditTarget = (target: EventTarget, kind: 'text' | 'choice') =>
+    (target as HTMLElement).closest<HTMLElement>(`[data-mt-edit="${kind}"]`);
+
+  // Clicking a checkbox option selects it
+  const handleContentClick = (e: React.MouseEvent) => {
+    if (!isEditing || !onFieldChange) return;
+    const choice = getEditTarget(e.target, 'choice');
+    if (choice?.dataset.mtField && choice.dataset.mtValue) {
+      onFieldChange(choice.dataset.mtField as keyof MTDocumentData, choice.dataset.mtValue);
+    }
+  };
+
+  // Remember the value being edited so an unchanged field is not recorded as a manual entry
+  const handleContentFocus = (e: React.FocusEvent) => {
+    const element = getEditTarget(e.target, 'text');
+    if (element) {
+      element.dataset.mtOriginal = element.innerText;
+    }
+  };
+
+  // Text values are committed when the field loses focus
+  const handleContentBlur = (e: React.FocusEvent) => {
+    if (!isEditing || !onFieldChange) return;
+    const element = getEditTarget(e.target, 'text');
+    if (element?.dataset.mtField && element.innerText !== element.dataset.mtOriginal) {
+      onFieldChange(element.dataset.mtField as keyof MTDocumentData, element.innerText);
+    }
+  };
+
+  // Enter commits, Shift+Enter adds a line break
+  const handleContentKeyDown = (e: React.KeyboardEvent) => {
+    const element = getEditTarget(e.target, 'text');
+    if (element && e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      element.blur();
+    }
+  };
+
   const toggleFullScreen = () => {
     setIsFullScreen(!isFullScreen);
   };
@@ -57,11 +151,65 @@ export default function MTDocumentModal({
           </div>
           
           <div className="flex items-center space-x-2">
+            {/* Validation Status */}
+            {validation && (
+              <button
+                onClick={() => setShowValidation(!showValidation)}
+                className={`flex items-center space-x-1 px-3 py-1 rounded text-sm font-medium ${
+                  !validation.isValid
+                    ? 'bg-red-100 text-red-700 hover:bg-red-200'
+                    : validation.warnings.length > 0
+                      ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                      : 'bg-green-100 text-green-700 hover:bg-green-200'
+                }`}
+                title={showValidation ? 'Hide validation results' : 'Show validation results'}
+              >
+                {validation.isValid ? <CheckCircle size={16} /> : <AlertTriangle size={16} />}
+                <span>{validation.errors.length} errors, {validation.warnings.length} warnings</span>
+              </button>
+            )}
+            
             {/* Action Buttons */}
+            {revisionHistory && (
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className={`p-2 rounded ${showHistory ? 'text-blue-600 bg-blue-50' : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'}`}
+                title={showHistory ? 'Hide Revision History' : 'Show Revision History'}
+              >
+                <History size={20} />
+              </button>
+            )}
+            
+            {onAttachmentAChange && (
+              <button
+                onClick={() => setShowChecklist(!showChecklist)}
+                className={`p-2 rounded ${showChecklist ? 'text-blue-600 bg-blue-50' : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'}`}
+                title={showChecklist ? 'Hide Attachment A Checklist' : 'Show Attachment A Checklist'}
+              >
+                <ListChecks size={20} />
+              </button>
+            )}
+            
+            {onToggleHighlight && (
+              <button
+                onClick={onToggleHighlight}
+                className={`p-2 rounded ${highlightProvenance ? 'text-blue-600 bg-blue-50' : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'}`}
+                title={highlightProvenance ? 'Hide AI-guessed / default value highlighting' : 'Highlight AI-guessed and default values'}
+              >
+                <Highlighter size={20} />
+              </button>
+            )}
+            
+            {progress !== undefined && (
+              <span className="text-sm text-gray-600" title="Required fields completed">
+                {progress}% complete
+              </span>
+            )}
+            
             <button
               onClick={onEdit}
-              className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded"
-              title="Edit Document"
+              className={`p-2 rounded ${isEditing ? 'text-blue-600 bg-blue-50' : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'}`}
+              title={isEditing ? 'Finish Editing' : 'Edit Document'}
             >
               <Edit size={20} />
             </button>
@@ -74,6 +222,52 @@ export default function MTDocumentModal({
               <Printer size={20} />
             </button>
             
+            {onImportPdf && (
+              <>
+                <input
+                  ref={pdfInputRef}
+                  type="file"
+                  accept=".pdf,application/pdf"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onImportPdf(file);
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  onClick={() => pdfInputRef.current?.click()}
+                  className="p-2 text-gray-600 hover:text-orange-600 hover:bg-orange-50 rounded"
+                  title="Import filled PDF"
+                >
+                  <FileInput size={20} />
+                </button>
+              </>
+            )}
+            
+            {onUploadTemplate && (
+              <>
+                <input
+                  ref={templateInputRef}
+                  type="file"
+                  accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onUploadTemplate(file);
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  onClick={() => templateInputRef.current?.click()}
+                  className={`p-2 rounded ${templateInfo ? 'text-purple-600 bg-purple-50' : 'text-gray-600 hover:text-purple-600 hover:bg-purple-50'}`}
+                  title={templateInfo ? `Replace Word template (${templateInfo.name})` : 'Upload Word template'}
+                >
+                  <Upload size={20} />
+                </button>
+              </>
+            )}
+            
             <button
               onClick={onDownloadWord}
               className="p-2 text-gray-600 hover:text-purple-600 hover:bg-purple-50 rounded"
@@ -83,9 +277,9 @@ export default function MTDocumentModal({
             </button>
             
             <button
-              onClick={onDownloadPDF}
+              onClick={() => onDownloadPDF?.({ flatten: flattenPdf })}
               className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded"
-              title="Download PDF"
+              title={flattenPdf ? 'Download PDF (read-only)' : 'Download fillable PDF'}
             >
               <Download size={20} />
             </button>
@@ -110,18 +304,137 @@ export default function MTDocumentModal({
           </div>
         </div>
 
+        {/* Validation Results */}
+        {validation && showValidation && (validation.errors.length > 0 || validation.warnings.length > 0) && (
+          <div className="max-h-48 overflow-y-auto border-b bg-red-50 px-4 py-3 text-sm">
+            {!validation.isValid && (
+              <p className="font-semibold text-red-800 mb-2">
+                Export is blocked until the errors below are resolved.
+              </p>
+            )}
+            {(Object.keys(validation.bySection) as MTSection[]).map(section => (
+              <div key={section} className="mb-2">
+                <div className="font-medium text-gray-800">{MT_SECTION_TITLES[section]}</div>
+                <ul className="ml-4 list-disc">
+                  {(validation.bySection[section] || []).map((issue, index) => (
+                    <li
+                      key={`${issue.field}-${issue.code}-${index}`}
+                      className={issue.severity === 'error' ? 'text-red-700' : 'text-yellow-800'}
+                    >
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Failed action */}
+        {error && (
+          <div className="flex items-center justify-between border-b bg-red-50 px-4 py-2 text-sm text-red-800 print:hidden">
+            <span>{error}</span>
+            {onDismissError && (
+              <button onClick={onDismissError} className="text-red-700 hover:underline">
+                Dismiss
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* PDF Import Report */}
+        {pdfImportReport && (
+          <div className="border-b bg-orange-50 px-4 py-2 text-sm text-orange-900 print:hidden">
+            <div className="flex items-center justify-between">
+              <span>
+                Imported {pdfImportReport.appliedFields.length} field(s) from <span className="font-medium">{pdfImportReport.fileName}</span>
+              </span>
+              {onDismissImportReport && (
+                <button onClick={onDismissImportReport} className="text-orange-700 hover:underline">
+                  Dismiss
+                </button>
+              )}
+            </div>
+            {pdfImportReport.conflicts.length > 0 && (
+              <div>
+                Conflicts ({pdfImportReport.conflicts.some(conflict => conflict.applied) ? 'PDF values used' : 'current values kept'}):{' '}
+                {pdfImportReport.conflicts.map(conflict => `${conflict.field} ("${conflict.currentValue}" vs PDF "${conflict.pdfValue}")`).join('; ')}
+              </div>
+            )}
+            {pdfImportReport.invalidFields.length > 0 && (
+              <div>
+                Skipped: {pdfImportReport.invalidFields.map(issue => `${issue.field} "${issue.value}" (${issue.reason})`).join('; ')}
+              </div>
+            )}
+            {pdfImportReport.unknownFields.length > 0 && (
+              <div>Unknown fields ignored: {pdfImportReport.unknownFields.join(', ')}</div>
+            )}
+          </div>
+        )}
+
+        {/* Template Notice */}
+        {templateInfo && (
+          <div className="border-b bg-purple-50 px-4 py-2 text-sm text-purple-800 flex items-center justify-between print:hidden">
+            <div>
+              Word export uses template <span className="font-medium">{templateInfo.name}</span>
+              {' '}({templateInfo.placeholders.length} placeholders)
+              {templateInfo.unknownPlaceholders.length > 0 && (
+                <span className="ml-1 text-yellow-800">
+                  - unknown placeholders left blank: {templateInfo.unknownPlaceholders.join(', ')}
+                </span>
+              )}
+            </div>
+            {onClearTemplate && (
+              <button onClick={onClearTemplate} className="text-purple-700 hover:underline">
+                Use built-in template
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Edit Mode Notice */}
+        {isEditing && (
+          <div className="border-b bg-blue-50 px-4 py-2 text-sm text-blue-800 print:hidden">
+            Editing: click a value to change it (Enter to save, Shift+Enter for a new line) or click a checkbox option to select it.
+            Changes are recorded as manual entries.
+          </div>
+        )}
+
         {/* Document Content */}
-        <div className="flex-1 overflow-hidden">
-          <div className="h-full overflow-y-auto bg-white">
+        <div className="flex-1 overflow-hidden flex">
+          <div className="flex-1 h-full overflow-y-auto bg-white">
             <div className="w-full flex justify-center">
               <div className="w-full max-w-5xl bg-white">
                 <div 
+                  ref={contentRef}
                   dangerouslySetInnerHTML={{ __html: documentHTML }}
-                  className="document-content print:shadow-none p-6"
+                  onClick={handleContentClick}
+                  onFocus={handleContentFocus}
+                  onBlur={handleContentBlur}
+                  onKeyDown={handleContentKeyDown}
+                  className={`document-content print:shadow-none p-6 ${isEditing ? 'mt-editing' : ''}`}
                 />
               </div>
             </div>
           </div>
+          
+          {/* Attachment A Checklist Panel */}
+          {showChecklist && onAttachmentAChange && (
+            <div className="w-[28rem] border-l h-full overflow-hidden print:hidden">
+              <AttachmentAChecklist
+                attachmentA={mtData?.attachmentA || {}}
+                riskLevels={mtData?.attachmentARiskLevels}
+                onChange={onAttachmentAChange}
+              />
+            </div>
+          )}
+          
+          {/* Revision History Panel */}
+          {showHistory && revisionHistory && (
+            <div className="w-96 border-l h-full overflow-hidden print:hidden">
+              <MTRevisionHistory snapshots={revisionHistory} onBumpRevision={onBumpRevision} />
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -136,8 +449,16 @@ export default function MTDocumentModal({
             >
               Return to Chat
             </button>
+            <label className="flex items-center space-x-2 text-sm text-gray-700" title="Flatten the form fields for an issued, read-only copy">
+              <input
+                type="checkbox"
+                checked={flattenPdf}
+                onChange={(e) => setFlattenPdf(e.target.checked)}
+              />
+              <span>Read-only PDF</span>
+            </label>
             <button
-              onClick={onDownloadPDF}
+              onClick={() => onDownloadPDF?.({ flatten: flattenPdf })}
               className="px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
             >
               Download PDF
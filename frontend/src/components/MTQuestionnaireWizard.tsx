@@ -0,0 +1,320 @@
+import React, { useMemo, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, ClipboardList, Plus, Trash2 } from 'lucide-react';
+import { questionnaireService } from '../services/questionnaireService';
+import type { MTAnalysisResponse } from '../services/mtDocumentService';
+import type {
+  QuestionAnswer,
+  QuestionnaireAnswers,
+  QuestionnaireErrors,
+  QuestionnaireQuestion,
+  TableRowAnswer
+} from '../types/questionnaire';
+
+interface MTQuestionnaireWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Resolves once the MT has been generated; failures are reported through `error`
+  onSubmit: (analysis: MTAnalysisResponse, questionnaireData: Record<string, unknown>) => Promise<void>;
+  // Why the last submit failed; the wizard covers the chat's own banner
+  error?: string | null;
+  onDismissError?: () => void;
+}
+
+// Stays mounted while closed (see isOpen) so reopening it keeps the answers given so far
+export default function MTQuestionnaireWizard({ isOpen, onClose, onSubmit, error, onDismissError }: MTQuestionnaireWizardProps) {
+  const [answers, setAnswers] = useState<QuestionnaireAnswers>({});
+  const [errors, setErrors] = useState<QuestionnaireErrors>({});
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const sections = useMemo(() => questionnaireService.getVisibleSections(answers), [answers]);
+  const currentSection = sections[Math.min(stepIndex, sections.length - 1)];
+  const isLastStep = stepIndex >= sections.length - 1;
+
+  if (!isOpen) return null;
+
+  const setAnswer = (questionId: string, value: QuestionAnswer) => {
+    setAnswers(prev => ({ ...prev, [questionId]: value }));
+    setErrors(prev => {
+      const next = { ...prev };
+      delete next[questionId];
+      return next;
+    });
+  };
+
+  const handleNext = () => {
+    const sectionErrors = questionnaireService.validateSection(currentSection, answers);
+    setErrors(sectionErrors);
+    if (Object.keys(sectionErrors).length === 0) {
+      setStepIndex(prev => Math.min(prev + 1, sections.length - 1));
+    }
+  };
+
+  const handleBack = () => {
+    setErrors({});
+    setStepIndex(prev => Math.max(prev - 1, 0));
+  };
+
+  const handleSubmit = async () => {
+    const allErrors = questionnaireService.validateAll(answers);
+    setErrors(allErrors);
+
+    const firstInvalid = sections.findIndex(section =>
+      section.questions.some(question => allErrors[question.id])
+    );
+    if (firstInvalid >= 0) {
+      setStepIndex(firstInvalid);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(
+        questionnaireService.toAnalysisResponse(answers),
+        questionnaireService.toQuestionnaireData(answers)
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderGuidance = (question: QuestionnaireQuestion) => {
+    const value = typeof answers[question.id] === 'string' ? answers[question.id] as string : '';
+    const guidance = question.id === 'design_type'
+      ? questionnaireService.getDesignTypeGuidance(value)
+      : question.id === 'safety_classification'
+        ? questionnaireService.getSafetyClassificationGuidance(value)
+        : undefined;
+
+    if (!guidance) return null;
+    return (
+      <p className="mt-2 p-2 text-xs bg-blue-50 border border-blue-200 rounded text-blue-800">
+        {guidance}
+      </p>
+    );
+  };
+
+  const renderTable = (question: QuestionnaireQuestion) => {
+    const rows = (answers[question.id] as TableRowAnswer[] | undefined) || [];
+    const columns = question.columns || [];
+
+    const updateCell = (rowIndex: number, column: string, cell: string) => {
+      setAnswer(question.id, rows.map((row, index) => index === rowIndex ? { ...row, [column]: cell } : row));
+    };
+
+    return (
+      <div className="space-y-2">
+        {rows.map((row, rowIndex) => (
+          <div key={rowIndex} className="flex items-center space-x-2">
+            {columns.map(column => (
+              <input
+                key={column.name}
+                type="text"
+                value={row[column.name] || ''}
+                placeholder={column.placeholder || column.label}
+                title={column.label}
+                onChange={(e) => updateCell(rowIndex, column.name, e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            ))}
+            <button
+              onClick={() => setAnswer(question.id, rows.filter((_, index) => index !== rowIndex))}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title="Remove row"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setAnswer(question.id, [...rows, {}])}
+          className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+        >
+          <Plus size={14} />
+          <span>Add row</span>
+        </button>
+      </div>
+    );
+  };
+
+  const renderInput = (question: QuestionnaireQuestion) => {
+    const value = answers[question.id];
+    const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    switch (question.type) {
+      case 'text':
+      case 'date':
+        return (
+          <input
+            type={question.type}
+            value={(value as string) || ''}
+            placeholder={question.placeholder}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+            className={inputClass}
+          />
+        );
+      case 'textarea':
+        return (
+          <textarea
+            value={(value as string) || ''}
+            placeholder={question.placeholder}
+            rows={question.rows || 3}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+            className={inputClass}
+          />
+        );
+      case 'select':
+        return (
+          <select
+            value={(value as string) || ''}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Select...</option>
+            {question.options?.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        );
+      case 'radio':
+        return (
+          <div className="space-y-1">
+            {question.options?.map(option => (
+              <label key={option.value} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name={question.id}
+                  checked={value === option.value}
+                  onChange={() => setAnswer(question.id, option.value)}
+                  className="mr-2 text-blue-600"
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        );
+      case 'checkbox': {
+        const selected = (value as string[] | undefined) || [];
+        return (
+          <div className="space-y-1">
+            {question.options?.map(option => (
+              <label key={option.value} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option.value)}
+                  onChange={(e) => setAnswer(
+                    question.id,
+                    e.target.checked ? [...selected, option.value] : selected.filter(item => item !== option.value)
+                  )}
+                  className="mr-2 rounded text-blue-600"
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case 'dynamic_table':
+        return renderTable(question);
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-2xl flex flex-col w-[95vw] h-[90vh] max-w-3xl">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b bg-gray-50">
+          <div className="flex items-center space-x-3">
+            <ClipboardList className="text-blue-600" size={24} />
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">MT Questionnaire</h2>
+              <p className="text-sm text-gray-600">
+                Section {currentSection.sectionNumber}: {currentSection.sectionTitle} ({stepIndex + 1} of {sections.length})
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Progress */}
+        <div className="h-1 bg-gray-200">
+          <div
+            className="h-1 bg-blue-600 transition-all"
+            style={{ width: `${((stepIndex + 1) / sections.length) * 100}%` }}
+          />
+        </div>
+
+        {/* Failed submit */}
+        {error && (
+          <div className="flex items-center justify-between border-b bg-red-50 px-6 py-2 text-sm text-red-800">
+            <span>{error}</span>
+            {onDismissError && (
+              <button onClick={onDismissError} className="text-red-700 hover:underline">
+                Dismiss
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Questions */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {currentSection.questions
+            .filter(question => questionnaireService.isQuestionVisible(question, answers))
+            .map(question => (
+              <div key={question.id}>
+                <label className="block text-sm font-medium text-gray-800 mb-2">
+                  {question.question}
+                  {question.required && questionnaireService.isSectionEnforced(currentSection) && (
+                    <span className="text-red-600 ml-1">*</span>
+                  )}
+                </label>
+                {renderInput(question)}
+                {renderGuidance(question)}
+                {errors[question.id] && (
+                  <p className="mt-1 text-xs text-red-600">{errors[question.id]}</p>
+                )}
+              </div>
+            ))}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t bg-gray-50 flex justify-between items-center">
+          <button
+            onClick={handleBack}
+            disabled={stepIndex === 0}
+            className="flex items-center px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronLeft size={16} className="mr-1" />
+            Back
+          </button>
+          {isLastStep ? (
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Generating...' : 'Generate MT Document'}
+            </button>
+          ) : (
+            <button
+              onClick={handleNext}
+              className="flex items-center px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Next
+              <ChevronRight size={16} className="ml-1" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { GitCommit, ChevronDown, ChevronRight } from 'lucide-react';
+import { diffMTDocuments, type MTFieldChange, type MTSnapshot, type MTUpdateSource } from '../services/mtRevisionStore';
+
+interface MTRevisionHistoryProps {
+  snapshots: MTSnapshot[];
+  onBumpRevision?: (note?: string) => void;
+}
+
+const SOURCE_LABELS: Record<MTUpdateSource, { label: string; className: string }> = {
+  chat: { label: 'Chat', className: 'bg-blue-100 text-blue-800' },
+  questionnaire: { label: 'Questionnaire', className: 'bg-purple-100 text-purple-800' },
+  manual: { label: 'Manual edit', className: 'bg-gray-200 text-gray-800' },
+  analysis: { label: 'Analysis', className: 'bg-green-100 text-green-800' },
+  'pdf-import': { label: 'PDF import', className: 'bg-orange-100 text-orange-800' }
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Field | Before | After table for a list of changes
+export const MTDiffTable: React.FC<{ changes: MTFieldChange[] }> = ({ changes }) => {
+  if (changes.length === 0) {
+    return <p className="text-xs text-gray-500 italic">No field changes.</p>;
+  }
+
+  return (
+    <table className="w-full text-xs border-collapse">
+      <thead>
+        <tr className="bg-gray-100 text-left">
+          <th className="border border-gray-200 px-2 py-1 w-1/4">Field</th>
+          <th className="border border-gray-200 px-2 py-1">Before</th>
+          <th className="border border-gray-200 px-2 py-1">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((change, index) => (
+          <tr key={`${change.path}-${index}`} className="align-top">
+            <td className="border border-gray-200 px-2 py-1 font-mono break-all">{change.path}</td>
+            <td className={`border border-gray-200 px-2 py-1 break-words ${change.kind !== 'added' ? 'bg-red-50 text-red-800 line-through' : 'text-gray-400'}`}>
+              {formatValue(change.before)}
+            </td>
+            <td className={`border border-gray-200 px-2 py-1 break-words ${change.kind !== 'removed' ? 'bg-green-50 text-green-800' : 'text-gray-400'}`}>
+              {formatValue(change.after)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export const MTRevisionHistory: React.FC<MTRevisionHistoryProps> = ({ snapshots, onBumpRevision }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+
+  const comparison = useMemo(() => {
+    const from = snapshots.find(snapshot => snapshot.id === fromId);
+    const to = snapshots.find(snapshot => snapshot.id === toId);
+    return from && to ? diffMTDocuments(from.data, to.data) : null;
+  }, [snapshots, fromId, toId]);
+
+  const snapshotLabel = (snapshot: MTSnapshot) =>
+    `Rev. ${snapshot.revision} · ${new Date(snapshot.timestamp).toLocaleString()} · ${SOURCE_LABELS[snapshot.source].label}`;
+
+  return (
+    <div className="h-full flex flex-col text-sm">
+      <div className="flex items-center justify-between p-3 border-b bg-gray-50">
+        <h3 className="font-semibold text-gray-900">Revision History</h3>
+        {onBumpRevision && (
+          <button
+            onClick={() => {
+              const note = prompt('Revision note (optional):');
+              if (note !== null) {
+                onBumpRevision(note || undefined);
+              }
+            }}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
+          >
+            Issue Next Revision
+          </button>
+        )}
+      </div>
+
+      {/* Compare any two snapshots */}
+      <div className="p-3 border-b space-y-2">
+        <div className="font-medium text-gray-700">Compare</div>
+        {[{ value: fromId, setValue: setFromId, label: 'From' }, { value: toId, setValue: setToId, label: 'To' }].map(picker => (
+          <select
+            key={picker.label}
+            value={picker.value}
+            onChange={(e) => picker.setValue(e.target.value)}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+          >
+            <option value="">{picker.label}...</option>
+            {snapshots.map(snapshot => (
+              <option key={snapshot.id} value={snapshot.id}>
+                {snapshot.isRevisionIssue ? '★ ' : ''}{snapshotLabel(snapshot)}
+              </option>
+            ))}
+          </select>
+        ))}
+        {comparison && <MTDiffTable changes={comparison} />}
+      </div>
+
+      {/* Timeline of recorded updates, newest first */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {snapshots.length === 0 && (
+          <p className="text-xs text-gray-500 italic">No updates recorded yet.</p>
+        )}
+        {[...snapshots].reverse().map(snapshot => {
+          const source = SOURCE_LABELS[snapshot.source];
+          const isExpanded = expandedId === snapshot.id;
+          return (
+            <div key={snapshot.id} className={`border rounded ${snapshot.isRevisionIssue ? 'border-blue-400' : 'border-gray-200'}`}>
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : snapshot.id)}
+                className="w-full flex items-center justify-between p-2 text-left hover:bg-gray-50"
+              >
+                <div className="flex items-center space-x-2">
+                  {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                  {snapshot.isRevisionIssue && <GitCommit size={14} className="text-blue-600" />}
+                  <span className={`px-2 py-0.5 rounded text-xs ${source.className}`}>{source.label}</span>
+                  <span className="text-xs text-gray-700">Rev. {snapshot.revision}</span>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {snapshot.changes.length} changes · {new Date(snapshot.timestamp).toLocaleTimeString()}
+                </div>
+              </button>
+              {isExpanded && (
+                <div className="p-2 border-t space-y-2">
+                  {snapshot.note && <p className="text-xs text-gray-700">Note: {snapshot.note}</p>}
+                  <MTDiffTable changes={snapshot.changes} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
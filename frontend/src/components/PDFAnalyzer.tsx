@@ -1,33 +1,72 @@
-import React, { useState, useCallback } from 'react';
-import { DocumentAnalysisResult, ImprovementSuggestion } from '../types/documentAnalysis';
+import React, { useState, useCallback, useEffect } from 'react';
+import { AnalysisCapabilities, AnalysisOptions, DocumentAnalysisResult, ImprovementSuggestion } from '../types/documentAnalysis';
 import { DocumentAnalysisAPI } from '../services/documentAnalysisAPI';
+import {
+  FALLBACK_ANALYSIS_CAPABILITIES,
+  formatFileSize,
+  getAcceptAttribute,
+  getMaxUploadSize,
+  loadAnalysisCapabilities,
+  reconcileAnalysisOptions,
+  validateUploadFile
+} from '../services/analysisCapabilities';
+import BatchAnalysisQueue from '../services/batchAnalysis';
+import { AnalysisOptionsPanel, DEFAULT_ANALYSIS_OPTIONS } from './AnalysisOptionsPanel';
+import { BatchAnalysisPanel } from './BatchAnalysisPanel';
 
 interface PDFAnalyzerProps {
   onAnalysisComplete?: (result: DocumentAnalysisResult) => void;
 }
 
-interface AnalysisOptions {
-  documentType: string;
-  performGrammarCheck: boolean;
-  performStyleCheck: boolean;
-  performTechnicalReview: boolean;
-  performComplianceCheck: boolean;
-}
-
 const PDFAnalyzer: React.FC<PDFAnalyzerProps> = ({ onAnalysisComplete }) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<DocumentAnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
+  const [batchQueue] = useState(() => new BatchAnalysisQueue());
   
-  const [analysisOptions, setAnalysisOptions] = useState<AnalysisOptions>({
-    documentType: 'general',
-    performGrammarCheck: true,
-    performStyleCheck: true,
-    performTechnicalReview: true,
-    performComplianceCheck: false
-  });
+  const [capabilities, setCapabilities] = useState<AnalysisCapabilities>(FALLBACK_ANALYSIS_CAPABILITIES);
+  const [analysisOptions, setAnalysisOptions] = useState<AnalysisOptions>(DEFAULT_ANALYSIS_OPTIONS);
+
+  // Document types, frameworks and upload limits come from the backend
+  useEffect(() => {
+    let cancelled = false;
+    loadAnalysisCapabilities().then(loaded => {
+      if (cancelled) return;
+      setCapabilities(loaded);
+      setAnalysisOptions(options => reconcileAnalysisOptions(options, loaded));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Leaving the page stops the uploads still in flight
+  useEffect(() => () => batchQueue.cancel(), [batchQueue]);
+
+  // Reject unsupported or oversized files before anything is uploaded
+  const selectFile = useCallback((file: File) => {
+    const problem = validateUploadFile(file, capabilities);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSelectedFile(file);
+    setError(null);
+  }, [capabilities]);
+
+  // Several files at once always go to the batch queue
+  const selectFiles = useCallback((files: FileList) => {
+    if (mode === 'single' && files.length === 1) {
+      selectFile(files[0]);
+      return;
+    }
+    batchQueue.add(Array.from(files), analysisOptions, file => validateUploadFile(file, capabilities));
+    setMode('batch');
+    setError(null);
+  }, [mode, selectFile, batchQueue, analysisOptions, capabilities]);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -45,26 +84,15 @@ const PDFAnalyzer: React.FC<PDFAnalyzerProps> = ({ onAnalysisComplete }) => {
     setDragActive(false);
     
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (file.type === 'application/pdf') {
-        setSelectedFile(file);
-        setError(null);
-      } else {
-        setError('Please select a PDF file');
-      }
+      selectFiles(e.dataTransfer.files);
     }
-  }, []);
+  }, [selectFiles]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      if (file.type === 'application/pdf') {
-        setSelectedFile(file);
-        setError(null);
-      } else {
-        setError('Please select a PDF file');
-      }
+      selectFiles(e.target.files);
     }
+    e.target.value = '';
   };
 
   const analyzeDocument = async () => {
@@ -83,8 +111,15 @@ const PDFAnalyzer: React.FC<PDFAnalyzerProps> = ({ onAnalysisComplete }) => {
         performStyleCheck: analysisOptions.performStyleCheck,
         performTechnicalReview: analysisOptions.performTechnicalReview,
         performComplianceCheck: analysisOptions.performComplianceCheck,
+        complianceFramework: analysisOptions.complianceFramework,
       });
 
+      if (!result.isAnalysisSuccessful) {
+        setAnalysisResult(null);
+        setError(result.errorMessage ?? 'Analysis failed');
+        return;
+      }
+
       setAnalysisResult(result);
       onAnalysisComplete?.(result);
     } catch (err) {
@@ -115,14 +150,6 @@ const PDFAnalyzer: React.FC<PDFAnalyzerProps> = ({ onAnalysisComplete }) => {
     }
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
   return (
     <div className="max-w-6xl mx-auto p-6 bg-white">
       <div className="mb-8">
@@ -130,13 +157,28 @@ const PDFAnalyzer: React.FC<PDFAnalyzerProps> = ({ onAnalysisComplete }) => {
         <p className="text-gray-600">Upload a PDF document to get comprehensive quality analysis, grammar checking, and improvement suggestions.</p>
       </div>
 
+      {/* Mode Selection */}
+      <div className="mb-6 flex border-b border-gray-200">
+        {(['single', 'batch'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              mode === option ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {option === 'single' ? 'Single Document' : 'Batch Analysis'}
+          </button>
+        ))}
+      </div>
+
       {/* File Upload Section */}
       <div className="mb-8">
         <div
           className={`relative border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
             dragActive 
               ? 'border-blue-400 bg-blue-50' 
-              : selectedFile 
+              : mode === 'single' && selectedFile 
               ? 'border-green-400 bg-green-50' 
               : 'border-gray-300 hover:border-gray-400'
           }`}
@@ -147,12 +189,13 @@ const PDFAnalyzer: React.FC<PDFAnalyzerProps> = ({ onAnalysisComplete }) => {
         >
           <input
             type="file"
-            accept=".pdf"
+            multiple
+            accept={getAcceptAttribute(capabilities)}
             onChange={handleFileSelect}
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
           />
           
-          {selectedFile ? (
+          {mode === 'single' && selectedFile ? (
             <div className="space-y-2">
               <div className="flex items-center justify-center">
                 <svg className="w-12 h-12 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -173,8 +216,13 @@ const PDFAnalyzer: React.FC<PDFAnalyzerProps> = ({ onAnalysisComplete }) => {
               <svg className="mx-auto h-12 w-12 text-gray-400" stroke="currentColor" fill="none" viewBox="0 0 48 48">
                 <path d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
               </svg>
-              <p className="text-lg font-medium text-gray-900">Drop your PDF here or click to browse</p>
-              <p className="text-sm text-gray-500">Maximum file size: 50MB</p>
+              <p className="text-lg font-medium text-gray-900">
+                {mode === 'single' ? 'Drop your PDF here or click to browse' : 'Drop a package of PDFs here or click to browse'}
+              </p>
+              <p className="text-sm text-gray-500">
+                {mode === 'single' ? 'Select several files to analyze them as a batch' : 'Files are analyzed a few at a time with the options below'}
+              </p>
+              <p className="text-sm text-gray-500">Maximum file size: {formatFileSize(getMaxUploadSize(capabilities))}</p>
             </div>
           )}
         </div>
@@ -184,67 +232,11 @@ const PDFAnalyzer: React.FC<PDFAnalyzerProps> = ({ onAnalysisComplete }) => {
       <div className="mb-8 bg-gray-50 p-6 rounded-lg">
         <h3 className="text-lg font-medium text-gray-900 mb-4">Analysis Options</h3>
         
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Document Type
-            </label>
-            <select
-              value={analysisOptions.documentType}
-              onChange={(e) => setAnalysisOptions({...analysisOptions, documentType: e.target.value})}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="general">General Document</option>
-              <option value="technical">Technical Document</option>
-              <option value="nuclear">Nuclear Engineering</option>
-              <option value="regulatory">Regulatory Document</option>
-              <option value="procedure">Procedure/Manual</option>
-              <option value="specification">Technical Specification</option>
-            </select>
-          </div>
-
-          <div className="space-y-3">
-            <label className="flex items-center">
-              <input
-                type="checkbox"
-                checked={analysisOptions.performGrammarCheck}
-                onChange={(e) => setAnalysisOptions({...analysisOptions, performGrammarCheck: e.target.checked})}
-                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-              />
-              <span className="ml-2 text-sm text-gray-700">Grammar & Spelling Check</span>
-            </label>
-            
-            <label className="flex items-center">
-              <input
-                type="checkbox"
-                checked={analysisOptions.performStyleCheck}
-                onChange={(e) => setAnalysisOptions({...analysisOptions, performStyleCheck: e.target.checked})}
-                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-              />
-              <span className="ml-2 text-sm text-gray-700">Style & Clarity Analysis</span>
-            </label>
-            
-            <label className="flex items-center">
-              <input
-                type="checkbox"
-                checked={analysisOptions.performTechnicalReview}
-                onChange={(e) => setAnalysisOptions({...analysisOptions, performTechnicalReview: e.target.checked})}
-                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-              />
-              <span className="ml-2 text-sm text-gray-700">Technical Review</span>
-            </label>
-            
-            <label className="flex items-center">
-              <input
-                type="checkbox"
-                checked={analysisOptions.performComplianceCheck}
-                onChange={(e) => setAnalysisOptions({...analysisOptions, performComplianceCheck: e.target.checked})}
-                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-              />
-              <span className="ml-2 text-sm text-gray-700">Compliance Check</span>
-            </label>
-          </div>
-        </div>
+        <AnalysisOptionsPanel
+          options={analysisOptions}
+          onChange={setAnalysisOptions}
+          capabilities={capabilities}
+        />
       </div>
 
       {/* Error Display */}
@@ -254,29 +246,38 @@ const PDFAnalyzer: React.FC<PDFAnalyzerProps> = ({ onAnalysisComplete }) => {
         </div>
       )}
 
+      {/* Batch Queue and Report */}
+      {mode === 'batch' && (
+        <div className="mb-8">
+          <BatchAnalysisPanel queue={batchQueue} options={analysisOptions} capabilities={capabilities} />
+        </div>
+      )}
+
       {/* Analyze Button */}
-      <div className="mb-8">
-        <button
-          onClick={analyzeDocument}
-          disabled={!selectedFile || isAnalyzing}
-          className="w-full md:w-auto px-8 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center"
-        >
-          {isAnalyzing ? (
-            <>
-              <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-              Analyzing Document...
-            </>
-          ) : (
-            'Analyze Document'
-          )}
-        </button>
-      </div>
+      {mode === 'single' && (
+        <div className="mb-8">
+          <button
+            onClick={analyzeDocument}
+            disabled={!selectedFile || isAnalyzing}
+            className="w-full md:w-auto px-8 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center"
+          >
+            {isAnalyzing ? (
+              <>
+                <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                Analyzing Document...
+              </>
+            ) : (
+              'Analyze Document'
+            )}
+          </button>
+        </div>
+      )}
 
       {/* Analysis Results */}
-      {analysisResult && (
+      {mode === 'single' && analysisResult && (
         <div className="space-y-8">
           {/* Overall Score */}
           <div className="bg-gradient-to-r from-blue-50 to-indigo-50 p-6 rounded-lg border border-blue-200">
@@ -0,0 +1,454 @@
+// ============================================================================
+// MOCK BACKEND FIXTURES
+// Deterministic responses for mock mode, typed against the frontend contracts so
+// a change to MTAnalysisResponse or DocumentAnalysisResult breaks the build here
+// ============================================================================
+
+import type {
+  EnhancedMTResponse,
+  Figure1AnsweredStep,
+  Figure1Answers,
+  Figure1Determination,
+  Figure1StepKey,
+  Figure1StepResponse,
+  IntelligentChatResponse,
+  MTAnalysisRequest,
+  MTAnalysisResponse,
+  MTClassificationResult,
+  MTGuidanceResponse,
+  MTInputValidationResult
+} from '../services/mtAnalyzerAPI';
+import type { ProjectAnalysisResult } from '../services/projectAnalysisContract';
+import {
+  Priority,
+  QualityRating,
+  Severity,
+  type AnalysisCapabilities,
+  type DocumentAnalysisResult
+} from '../types/documentAnalysis';
+
+// Fixed so repeated runs (and snapshots of them) are identical
+export const MOCK_TIMESTAMP = '2025-01-15T09:00:00.000Z';
+
+interface MockScenario {
+  designType: number; // 1-5 for Design Type I-V
+  designTypeName: string;
+  mtRequired: boolean;
+  reason: string;
+  safetyClassification: 'SC' | 'SS' | 'GS';
+}
+
+// Pick a scenario from keywords so different inputs exercise different UI paths
+export function getMockScenario(text: string): MockScenario {
+  const input = text.toLowerCase();
+  if (input.includes('temporary')) {
+    return { designType: 4, designTypeName: 'Type IV - Temporary', mtRequired: false, reason: 'All changes are temporary', safetyClassification: 'GS' };
+  }
+  if (/identical|like-for-like|same model/.test(input)) {
+    return { designType: 5, designTypeName: 'Type V - Identical Replacement', mtRequired: false, reason: 'Identical replacement - Design Type V', safetyClassification: 'GS' };
+  }
+  if (/digital|plc|software|control system/.test(input)) {
+    return { designType: 1, designTypeName: 'Type I - New Design', mtRequired: true, reason: 'Software changes required', safetyClassification: 'SS' };
+  }
+  return { designType: 2, designTypeName: 'Type II - Modification', mtRequired: true, reason: 'Multiple design documents required', safetyClassification: 'GS' };
+}
+
+const SAFETY_CLASSIFICATION_NAMES = { SC: 'Safety Class', SS: 'Safety Significant', GS: 'General Service' };
+
+export function mockChatReply(message: string): string {
+  const scenario = getMockScenario(message);
+  return [
+    '_Mock backend response - no AI service was called._',
+    '',
+    '## Preliminary Assessment',
+    '',
+    `${scenario.mtRequired ? 'An MT is required' : 'MT is not required'} for this change: ${scenario.reason.toLowerCase()}.`,
+    '',
+    `- **Design type:** ${scenario.designTypeName}`,
+    `- **Preliminary safety classification:** ${SAFETY_CLASSIFICATION_NAMES[scenario.safetyClassification]}`,
+    '- **Governing procedure:** TFC-ENG-DESIGN-C-10, Figure 1',
+    '',
+    'Next, confirm the affected systems and the design documents that need to be revised.'
+  ].join('\n');
+}
+
+export function mockIntelligentChatResponse(message: string): IntelligentChatResponse {
+  return { response: mockChatReply(message), timestamp: MOCK_TIMESTAMP, processedByGPT4: false };
+}
+
+export const mockProjectAnalysis: ProjectAnalysisResult = {
+  relatedSystems: 'Chemical addition system, Demineralized water system',
+  relatedBuildings: 'Building 242-A, Pump room',
+  relatedEquipment: 'Chemical addition manifold, Isolation valves V-101/V-102, Flow transmitter FT-201',
+  priority: 'Medium',
+  projectType: 'Component Replacement',
+  cacn: '2025-MT-042',
+  safetyClassification: 'General Service',
+  estimatedComplexity: 'Moderate',
+  recommendedApproach: 'Replace the manifold under a Type II MT with a single ECN, then perform a post-modification leak test before return to service.',
+  potentialRisks: ['Chemical exposure during isolation', 'Leakage at new flanged connections'],
+  requiredApprovals: ['Design Authority', 'Operations Manager', 'Industrial Hygiene'],
+  confidence: 0.8
+};
+
+export function mockMTAnalysis(text: string): MTAnalysisResponse {
+  const scenario = getMockScenario(text);
+  const checklistSection = (description: string) => ({
+    items: [{ description, status: 'Pending', comments: '', required: true }],
+    completionPercentage: 0,
+    riskLevel: 'Low'
+  });
+
+  return {
+    analysisId: 'mock-analysis-0001',
+    timestamp: MOCK_TIMESTAMP,
+    projectNumber: 'MOCK-2025-001',
+    mtRequired: scenario.mtRequired,
+    mtRequiredReason: scenario.reason,
+    designType: scenario.designType - 1, // Backend DesignType enum is 0-based
+    designInputs: {
+      problemStatement: text,
+      proposedSolution: mockProjectAnalysis.recommendedApproach,
+      designConstraints: ['Maintain existing pressure rating', 'No change to system interfaces'],
+      safetyRequirements: ['Isolate and drain before work'],
+      environmentalConsiderations: ['Collect drained chemicals for disposal'],
+      operationalImpacts: ['System out of service for one shift']
+    },
+    expectedOutputs: [
+      { type: 'ECN', description: 'Engineering change notice for the replacement', required: true, status: 'Not started' }
+    ],
+    impactedDocuments: [
+      {
+        documentId: 'H-2-12345',
+        documentType: 'P&ID',
+        impactRationale: 'Manifold configuration shown on the drawing',
+        requiresUpdate: true,
+        suggestedReviewers: ['Process Engineering']
+      }
+    ],
+    missingElements: ['Affected drawing revision numbers'],
+    inconsistencies: [],
+    suggestedActions: ['Confirm the replacement part specification with the vendor'],
+    attachmentAChecklist: {
+      a1DesignOutputCheck: checklistSection('Design output documents identified'),
+      a2EngineeringImpacts: checklistSection('Engineering impacts reviewed'),
+      a3NonEngineeringImpacts: checklistSection('Training and procedure impacts reviewed'),
+      a4SystemAcceptability: checklistSection('Acceptance test defined'),
+      a5InterfaceReviews: checklistSection('Interface reviews complete')
+    },
+    riskAssessment: {
+      overallRisk: 'Low',
+      safetyRisk: 'Low',
+      environmentalRisk: 'Medium',
+      operationalRisk: 'Low',
+      riskFactors: mockProjectAnalysis.potentialRisks,
+      mitigationRecommendations: ['Use the chemical handling procedure during isolation']
+    },
+    confidence: 0.8
+  };
+}
+
+export function mockClassification(description: string): MTClassificationResult {
+  const scenario = getMockScenario(description);
+  return {
+    classificationType: scenario.designType,
+    typeName: scenario.designTypeName,
+    confidence: 0.75,
+    reasoning: `Mock classification: ${scenario.reason}.`,
+    keyFactors: ['Keyword match on the description'],
+    agreesWithEmbedding: true
+  };
+}
+
+export function mockDocumentAnalysis(fileName: string, text = ''): DocumentAnalysisResult {
+  const wordCount = text ? text.split(/\s+/).filter(Boolean).length : 1250;
+  return {
+    documentId: 'mock-document-0001',
+    analysisTimestamp: MOCK_TIMESTAMP,
+    metadata: {
+      fileName,
+      documentType: 'nuclear',
+      fileSize: text.length || 245760,
+      pageCount: text ? 1 : 6,
+      wordCount,
+      characterCount: text.length || 7800,
+      paragraphCount: 24,
+      sentenceCount: 68,
+      readabilityScore: 48.5,
+      readabilityLevel: 'College'
+    },
+    qualityScore: {
+      overall: 82,
+      grammar: 90,
+      style: 78,
+      clarity: 80,
+      technical: 84,
+      compliance: 76,
+      rating: QualityRating.Good,
+      explanation: 'Mock analysis: clear structure with a few passive-voice and terminology issues.'
+    },
+    grammar: {
+      totalIssues: 1,
+      issues: [
+        {
+          type: 'Agreement',
+          description: 'Subject and verb do not agree',
+          context: 'The valves was isolated',
+          suggestion: 'The valves were isolated',
+          startPosition: 120,
+          length: 23,
+          severity: Severity.Medium,
+          confidence: 0.9
+        }
+      ],
+      issueTypeFrequency: { Agreement: 1 },
+      accuracyScore: 90
+    },
+    style: {
+      clarityScore: 80,
+      consistencyScore: 76,
+      concisionScore: 74,
+      professionalismScore: 85,
+      issues: [
+        {
+          type: 'PassiveVoice',
+          description: 'Passive voice hides who performs the step',
+          context: 'The system will be drained',
+          suggestion: 'Operations drains the system',
+          severity: Severity.Low
+        }
+      ],
+      statistics: {
+        averageSentenceLength: 18.4,
+        averageWordsPerParagraph: 52,
+        passiveVoiceCount: 7,
+        complexSentenceCount: 9,
+        wordFrequency: { valve: 14, manifold: 9, isolation: 6 },
+        technicalTerms: ['manifold', 'isolation valve', 'ECN']
+      }
+    },
+    technical: {
+      technicalAccuracyScore: 84,
+      terminologyConsistencyScore: 80,
+      structureScore: 86,
+      issues: [
+        {
+          type: 'Terminology',
+          description: 'Equipment is referred to by two different IDs',
+          context: 'FT-201 / FT201',
+          suggestion: 'Use FT-201 throughout',
+          severity: Severity.Low,
+          relatedStandards: ['TFC-ENG-DESIGN-C-10']
+        }
+      ],
+      identifiedStandards: ['TFC-ENG-DESIGN-C-10', '10 CFR 830'],
+      technicalTerms: ['manifold', 'isolation valve', 'flow transmitter'],
+      hasProperTechnicalStructure: true
+    },
+    compliance: {
+      complianceFramework: 'DOE O 414.1D',
+      complianceScore: 76,
+      issues: [],
+      requiredElements: ['Design inputs', 'Acceptance criteria'],
+      missingElements: ['Acceptance criteria'],
+      meetsMinimumRequirements: false
+    },
+    suggestions: [
+      {
+        id: 'mock-suggestion-1',
+        category: 'Compliance',
+        title: 'Add acceptance criteria',
+        description: 'The document has no acceptance criteria for the post-modification test.',
+        detailedExplanation: 'Acceptance criteria define when the modified system can return to service.',
+        beforeExample: 'Perform a leak test.',
+        afterExample: 'Perform a leak test at 150 psig for 10 minutes with no visible leakage.',
+        priority: Priority.High,
+        impact: Severity.High,
+        estimatedEffortMinutes: 30,
+        applicableSections: ['Testing'],
+        isActionable: true
+      }
+    ],
+    summary: 'Mock analysis result - no backend was called.',
+    isAnalysisSuccessful: true
+  };
+}
+
+export const mockCapabilities: AnalysisCapabilities = {
+  supportedFileTypes: ['.pdf'],
+  maxFileSize: 10 * 1024 * 1024,
+  maxTextLength: 50000,
+  supportedDocumentTypes: ['general', 'technical', 'nuclear', 'procedure'],
+  analysisFeatures: ['Grammar', 'Style', 'Technical review', 'Compliance'],
+  complianceFrameworks: ['DOE O 414.1D', '10 CFR 830']
+};
+
+export function mockEnhancedAnalysis(request: MTAnalysisRequest): EnhancedMTResponse {
+  const scenario = getMockScenario([request.problemDescription, request.proposedSolution].filter(Boolean).join(' '));
+  return {
+    analysisId: 'mock-enhanced-0001',
+    standardAnalysis: {
+      requiresLicenseAmendment: false,
+      reason: scenario.reason,
+      designType: scenario.designTypeName,
+      confidence: 0.8
+    },
+    enhancedAnalysis: `_Mock backend response - no AI service was called._ ${scenario.mtRequired ? 'An MT is required' : 'MT is not required'}: ${scenario.reason.toLowerCase()}.`,
+    confidenceScore: 0.8,
+    keyFindings: [`${scenario.designTypeName} change`, `Preliminary safety classification: ${SAFETY_CLASSIFICATION_NAMES[scenario.safetyClassification]}`],
+    regulatoryPath: 'TFC-ENG-DESIGN-C-10 design change process; no license amendment expected',
+    recommendations: [mockProjectAnalysis.recommendedApproach],
+    riskAssessment: {
+      overallRisk: 'Low',
+      riskFactors: mockProjectAnalysis.potentialRisks,
+      mitigations: ['Use the chemical handling procedure during isolation'],
+      confidence: 0.75
+    },
+    complianceStatus: 'Compliant',
+    timestamp: MOCK_TIMESTAMP
+  };
+}
+
+// Same checks as the backend's MTDecisionEngine.ValidateInput
+export function mockInputValidation(request: MTAnalysisRequest): MTInputValidationResult {
+  const result: MTInputValidationResult = { isValid: true, errors: [], warnings: [] };
+  const error = (field: string, message: string) => result.errors.push({ field, message });
+  const warning = (field: string, message: string) => result.warnings.push({ field, message });
+
+  const problem = request.problemDescription?.trim() ?? '';
+  if (!problem) error('problemDescription', 'Problem description is required');
+  else if (problem.length < 20) warning('problemDescription', 'Problem description is very short; describe the condition being corrected');
+  if (!request.proposedSolution?.trim()) error('proposedSolution', 'Proposed solution is required');
+  if (!request.projectNumber?.trim()) warning('projectNumber', 'Project number has not been assigned');
+
+  if (request.isTemporary && request.isIdenticalReplacement) {
+    error('isIdenticalReplacement', 'A change cannot be both temporary and an identical replacement');
+  }
+  if (!request.isPhysicalChange && request.isIdenticalReplacement) {
+    error('isIdenticalReplacement', 'An identical replacement is a physical change');
+  }
+  if (!request.isPhysicalChange && request.requiresHoistingRigging) {
+    warning('requiresHoistingRigging', 'Hoisting and rigging is marked as required for a non-physical change');
+  }
+  if (request.isPhysicalChange && request.facilityChangePackageApplicable) {
+    warning('facilityChangePackageApplicable', 'The Facilities Change Package process only applies to non-physical changes');
+  }
+  if (request.requiresMultipleDocuments && request.isIdenticalReplacement) {
+    warning('requiresMultipleDocuments', 'Identical replacements do not normally need multiple design documents');
+  }
+
+  result.isValid = result.errors.length === 0;
+  return result;
+}
+
+export function mockGuidance(question: string): MTGuidanceResponse {
+  return {
+    guidance: [
+      '_Mock backend response - no AI service was called._',
+      '',
+      `**${question}**`,
+      '',
+      'Work through the Figure 1 decision tree in TFC-ENG-DESIGN-C-10 to decide whether an MT is required, then use the design type guidance in TFC-ENG-DESIGN-C-67 to classify the change.'
+    ].join('\n'),
+    references: ['TFC-ENG-DESIGN-C-10', 'TFC-ENG-DESIGN-C-67'],
+    timestamp: MOCK_TIMESTAMP
+  };
+}
+
+// A Figure 1 question; endsOn is the answer that reaches an outcome (null: either answer does)
+interface MockFigure1Step {
+  key: Figure1StepKey;
+  question: string;
+  guidance: string;
+  endsOn: boolean | null;
+}
+
+// The backend's MTDecisionEngine paths, in the same order
+const FIGURE1_PHYSICAL_CHANGE_PATH: MockFigure1Step[] = [
+  { key: 'isTemporary', question: 'Are all changes temporary?', guidance: 'Temporary modifications are controlled as Design Type IV.', endsOn: true },
+  { key: 'isPhysicalChange', question: 'Is the change physical?', guidance: 'Physical changes alter plant structures, systems or components; procedure-only changes are not physical.', endsOn: null },
+  { key: 'isIdenticalReplacement', question: 'Is the change an identical replacement?', guidance: 'Identical replacements (same form, fit and function) are Design Type V.', endsOn: true },
+  { key: 'isDesignOutsideDA', question: "Is the design being performed outside the Design Authority's group?", guidance: 'Design work by another organization requires an MT for coordination.', endsOn: true },
+  { key: 'requiresNewProcedures', question: 'Is a new or revised technical procedure, training, or maintenance manual required?', guidance: 'Include operating, maintenance and surveillance procedures and training material.', endsOn: true },
+  { key: 'requiresMultipleDocuments', question: 'Is more than one design document (ECN, DCN, EDT, etc.) needed?', guidance: 'Count every design output document that must be issued or revised.', endsOn: true },
+  { key: 'isSingleDiscipline', question: 'Is the design single-discipline?', guidance: 'Designs that need more than one engineering discipline require an MT.', endsOn: false },
+  { key: 'revisionsOutsideDA', question: "Are revisions implemented outside the Design Authority's group?", guidance: 'Consider field work and document revisions performed by other groups.', endsOn: true },
+  { key: 'requiresSoftwareChange', question: 'Does the change also require a software change?', guidance: 'Include PLC logic, control system configuration and safety software.', endsOn: true },
+  { key: 'requiresHoistingRigging', question: 'Does the change require hoisting and/or rigging?', guidance: 'Any lift governed by the hoisting and rigging program counts.', endsOn: null }
+];
+
+const FIGURE1_NON_PHYSICAL_CHANGE_PATH: MockFigure1Step[] = [
+  { key: 'facilityChangePackageApplicable', question: 'Is the Facilities Change Package process (TFC-ENG-DESIGN-C-67) applicable?', guidance: 'Facility changes handled by TFC-ENG-DESIGN-C-67 do not use an MT.', endsOn: true },
+  { key: 'requiresNewProcedures', question: 'Is a new or revised technical procedure required?', guidance: 'Non-physical changes need an MT only when technical procedures change.', endsOn: null }
+];
+
+const DESIGN_TYPE_NAMES = ['Type I - New Design', 'Type II - Modification', 'Type III - Replacement', 'Type IV - Temporary', 'Type V - Identical Replacement'];
+
+function mockFigure1Determination(answers: Figure1Answers, description: string): Figure1Determination {
+  const outcome = (mtRequired: boolean, reason: string, designType: number): Figure1Determination =>
+    ({ mtRequired, reason, designType, designTypeName: DESIGN_TYPE_NAMES[designType - 1] });
+  const scenarioType = getMockScenario(description).designType;
+
+  if (answers.isTemporary) return outcome(false, 'All changes are temporary', 4);
+  if (!answers.isPhysicalChange) {
+    if (answers.facilityChangePackageApplicable) return outcome(false, 'Use TFC-ENG-DESIGN-C-67 - Facilities Change Package Process', 2);
+    if (answers.requiresNewProcedures) return outcome(true, 'Non-physical change requiring new or revised technical procedures', 2);
+    return outcome(false, 'Non-physical change - MT may not be required', 2);
+  }
+  if (answers.isIdenticalReplacement) return outcome(false, 'Identical replacement - Design Type V', 5);
+  if (answers.isDesignOutsideDA) return outcome(true, "Design being performed outside DA's group", scenarioType);
+  if (answers.requiresNewProcedures) return outcome(true, 'New or revised technical procedures/training/maintenance manual required', scenarioType);
+  if (answers.requiresMultipleDocuments) return outcome(true, 'Multiple design documents required', scenarioType);
+  // Unanswered means the tree ended earlier, so default to the answer that does not end it
+  if (answers.isSingleDiscipline === false) return outcome(true, 'Multi-discipline design required', scenarioType);
+  if (answers.revisionsOutsideDA) return outcome(true, "Revisions implemented outside DA's group", scenarioType);
+  if (answers.requiresSoftwareChange) return outcome(true, 'Software changes required', scenarioType);
+  if (answers.requiresHoistingRigging) return outcome(true, 'Hoisting and/or rigging required', scenarioType);
+  return outcome(false, 'Possibly exempt based on decision tree criteria', scenarioType);
+}
+
+// Walks the decision tree like the backend's EvaluateFigure1Step
+export function mockFigure1Step(answers: Figure1Answers, description = ''): Figure1StepResponse {
+  const path: Figure1AnsweredStep[] = [];
+  let remaining = [...FIGURE1_PHYSICAL_CHANGE_PATH];
+
+  while (remaining.length > 0) {
+    const [step, ...rest] = remaining;
+    remaining = rest;
+    const answer = answers[step.key];
+
+    if (answer === undefined) {
+      // Progress counts the answered steps against the longest route still possible
+      return {
+        currentStep: step.key,
+        stepNumber: path.length + 1,
+        question: step.question,
+        guidance: step.guidance,
+        options: ['Yes', 'No'],
+        progress: Math.round((100 * path.length) / (path.length + 1 + remaining.length)),
+        isComplete: false,
+        path,
+        determination: null
+      };
+    }
+
+    path.push({ step: step.key, question: step.question, answer });
+    if (step.key === 'isPhysicalChange' && !answer) {
+      remaining = [...FIGURE1_NON_PHYSICAL_CHANGE_PATH];
+      continue;
+    }
+    if (step.endsOn === null ? remaining.length === 0 : answer === step.endsOn) break;
+  }
+
+  return {
+    currentStep: '',
+    stepNumber: path.length,
+    question: '',
+    guidance: '',
+    options: [],
+    progress: 100,
+    isComplete: true,
+    path,
+    determination: mockFigure1Determination(answers, description)
+  };
+}
@@ -0,0 +1,163 @@
+// ============================================================================
+// MOCK BACKEND
+// Stands in for fetch when apiClient runs in mock mode: routes requests to
+// fixtures and answers with real Response objects, so parsing, streaming and
+// error handling run exactly as they do against the .NET service
+// ============================================================================
+
+import {
+  mockCapabilities,
+  mockChatReply,
+  mockClassification,
+  mockDocumentAnalysis,
+  mockEnhancedAnalysis,
+  mockFigure1Step,
+  mockGuidance,
+  mockInputValidation,
+  mockIntelligentChatResponse,
+  mockMTAnalysis,
+  mockProjectAnalysis,
+  MOCK_TIMESTAMP
+} from './fixtures';
+import { API_ROUTES, type ApiRoute } from '../services/apiRoutes';
+import type { Figure1Answers, MTAnalysisRequest } from '../services/mtAnalyzerAPI';
+import type { DocumentAnalysisHistoryItem, DocumentAnalysisResult } from '../types/documentAnalysis';
+
+export interface MockRequest {
+  method: string;
+  url: string;
+  // JSON bodies arrive already parsed; uploads arrive as FormData
+  body: unknown;
+  signal: AbortSignal;
+}
+
+type MockHandler = (request: MockRequest) => Response | Promise<Response>;
+
+// Delay between streamed chunks, so the streaming UI is visible in demos
+const STREAM_CHUNK_DELAY_MS = 30;
+
+const json = (data: unknown, status = 200): Response =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+
+const asObject = <T>(body: unknown): T => (typeof body === 'object' && body !== null ? body : {}) as T;
+
+const field = (body: unknown, name: string): string => {
+  if (body instanceof FormData) return String(body.get(name) ?? '');
+  if (typeof body === 'object' && body !== null) {
+    const value = (body as Record<string, unknown>)[name];
+    return typeof value === 'string' ? value : '';
+  }
+  return '';
+};
+
+// aiProjectAnalysis and the chat share intelligent-chat; analysis prompts ask for JSON
+function intelligentChatReply(message: string): string {
+  if (message.includes('"recommendedApproach"')) return JSON.stringify(mockProjectAnalysis);
+  if (message.includes('"projectType"')) {
+    const { projectType, priority, relatedSystems } = mockProjectAnalysis;
+    return JSON.stringify({ projectType, priority, relatedSystems });
+  }
+  return mockChatReply(message);
+}
+
+function streamChat(request: MockRequest): Response {
+  const message = field(request.body, 'message');
+  const reply = intelligentChatReply(message);
+  const chunks = reply.match(/\S+\s*|\s+/g) ?? [reply];
+  const encoder = new TextEncoder();
+  const event = (name: string, data: unknown) => encoder.encode(`event: ${name}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let index = 0;
+      const push = () => {
+        if (request.signal.aborted) return;
+        if (index < chunks.length) {
+          controller.enqueue(event('delta', { text: chunks[index++] }));
+          timer = setTimeout(push, STREAM_CHUNK_DELAY_MS);
+        } else {
+          controller.enqueue(event('done', { ...mockIntelligentChatResponse(message), response: reply }));
+          controller.close();
+        }
+      };
+      request.signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        controller.error(new DOMException('The request was aborted', 'AbortError'));
+      });
+      push();
+    },
+    cancel() {
+      clearTimeout(timer);
+    }
+  });
+
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+// Analyses made in this session, newest first, served by the history routes
+const analysisHistory: DocumentAnalysisResult[] = [];
+
+function recordAnalysis(result: DocumentAnalysisResult): Response {
+  const recorded = { ...result, documentId: `mock-document-${String(analysisHistory.length + 1).padStart(4, '0')}` };
+  analysisHistory.unshift(recorded);
+  return json(recorded);
+}
+
+const toHistoryItem = (result: DocumentAnalysisResult): DocumentAnalysisHistoryItem => ({
+  documentId: result.documentId,
+  fileName: result.metadata.fileName,
+  documentType: result.metadata.documentType,
+  analysisDate: result.analysisTimestamp,
+  overallScore: result.qualityScore.overall,
+  rating: result.qualityScore.rating,
+  issuesFound: result.grammar.totalIssues + result.style.issues.length + result.technical.issues.length
+});
+
+// One handler per API route: a backend endpoint added to API_ROUTES without a fixture here fails the build
+const ROUTES: Record<ApiRoute, MockHandler> = {
+  health: () => json({ status: 'healthy', version: 'mock', timestamp: MOCK_TIMESTAMP }),
+  intelligentChat: ({ body }) => {
+    const message = field(body, 'message');
+    return json({ ...mockIntelligentChatResponse(message), response: intelligentChatReply(message) });
+  },
+  intelligentChatStream: streamChat,
+  analyze: ({ body }) => json(mockEnhancedAnalysis(asObject<MTAnalysisRequest>(body))),
+  analyzeWithGpt4: ({ body }) => json(mockMTAnalysis(field(body, 'userInput'))),
+  classifyMT: ({ body }) => json(mockClassification(field(body, 'description'))),
+  validateInput: ({ body }) => json(mockInputValidation(asObject<MTAnalysisRequest>(body))),
+  guidance: ({ body }) => json(mockGuidance(field(body, 'question'))),
+  figure1Step: ({ body }) => {
+    const { answers = {} } = asObject<{ answers?: Figure1Answers }>(body);
+    return json(mockFigure1Step(answers, `${field(body, 'problemDescription')} ${field(body, 'proposedSolution')}`));
+  },
+  analyzePdf: ({ body }) => {
+    const file = body instanceof FormData ? body.get('pdfFile') : null;
+    return recordAnalysis(mockDocumentAnalysis(file instanceof File ? file.name : 'document.pdf'));
+  },
+  analyzeText: ({ body }) => recordAnalysis(mockDocumentAnalysis('Text Input', field(body, 'documentText'))),
+  capabilities: () => json(mockCapabilities),
+  analysisHistory: () => json(analysisHistory.map(toHistoryItem)),
+  analysisHistoryEntry: ({ url }) => {
+    const id = decodeURIComponent(new URL(url, 'http://mock.invalid').pathname.split('/').pop() ?? '');
+    const result = analysisHistory.find(entry => entry.documentId === id);
+    return result ? json(result) : json({ error: `No analysis found for document ${id}` }, 404);
+  }
+};
+
+// Keyed by "METHOD /path" with the path lower-cased; a trailing /:id matches any last segment
+const ROUTE_LOOKUP = new Map(
+  (Object.keys(API_ROUTES) as ApiRoute[]).map(route => [`${API_ROUTES[route].method} ${API_ROUTES[route].path.toLowerCase()}`, route])
+);
+
+export async function handleMockRequest(request: MockRequest): Promise<Response> {
+  if (request.signal.aborted) throw new DOMException('The request was aborted', 'AbortError');
+
+  const path = new URL(request.url, 'http://mock.invalid').pathname.replace(/\/+$/, '').toLowerCase();
+  const route = ROUTE_LOOKUP.get(`${request.method} ${path}`) ?? ROUTE_LOOKUP.get(`${request.method} ${path.replace(/\/[^/]+$/, '/:id')}`);
+  if (!route) {
+    // Explicit, so a missing fixture is not mistaken for a backend outage (and is never queued for retry)
+    return json({ error: `No mock response for ${request.method} ${path}`, details: 'Mock backend mode' }, 501);
+  }
+  return ROUTES[route](request);
+}
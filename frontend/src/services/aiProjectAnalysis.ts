@@ -3,6 +3,16 @@
 // Dynamic project analysis using AI instead of hardcoded mappings
 // ============================================================================
 
+import {
+  PROJECT_ANALYSIS_JSON_EXAMPLE,
+  ProjectAnalysisError,
+  parseProjectAnalysisJson,
+  validateProjectAnalysis,
+  type ProjectAnalysisResult
+} from './projectAnalysisContract';
+import { apiClient, ApiError, isAbortError } from './apiClient';
+import { apiPath } from './apiRoutes';
+
 interface ProjectAnalysisRequest {
   problemDescription: string;
   conversationContext?: string;
@@ -10,61 +20,91 @@ interface ProjectAnalysisRequest {
   additionalContext?: any;
 }
 
-interface ProjectAnalysisResult {
-  relatedSystems: string;
-  relatedBuildings: string;
-  relatedEquipment: string;
-  priority: 'Low' | 'Medium' | 'High' | 'Critical';
-  projectType: string;
-  cacn: string;
-  safetyClassification: string;
-  estimatedComplexity: string;
-  recommendedApproach: string;
-  potentialRisks: string[];
-  requiredApprovals: string[];
-  confidence: number; // 0-1 scale
-}
-
 export class AIProjectAnalysisService {
   private apiEndpoint: string;
+  // Malformed or off-contract replies are sent back to the model this many extra times
+  private maxRepairAttempts: number;
   
-  constructor(apiEndpoint: string = 'http://localhost:5000/api/MT/intelligent-chat') {
+  constructor(apiEndpoint: string = apiPath('intelligentChat'), maxRepairAttempts: number = 1) {
     this.apiEndpoint = apiEndpoint;
+    this.maxRepairAttempts = maxRepairAttempts;
   }
 
   /**
-   * Analyze project requirements using AI instead of hardcoded rules
+   * Analyze project requirements using AI instead of hardcoded rules.
+   * Throws ProjectAnalysisError when no reply satisfies the JSON contract, and the
+   * aborted ApiError as-is when the signal fires.
    */
-  async analyzeProject(request: ProjectAnalysisRequest): Promise<ProjectAnalysisResult> {
-    const analysisPrompt = this.buildAnalysisPrompt(request);
-    
-    try {
-      // Call existing backend intelligent chat endpoint
-      const response = await fetch(this.apiEndpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: analysisPrompt,
-          conversationHistory: JSON.stringify([]),
-          context: request
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`AI analysis failed: ${response.statusText}`);
+  async analyzeProject(request: ProjectAnalysisRequest, signal?: AbortSignal): Promise<ProjectAnalysisResult> {
+    return this.requestAnalysis(this.buildAnalysisPrompt(request), { context: request, signal });
+  }
+
+  /**
+   * Quick analysis for real-time UI updates
+   */
+  async quickAnalyze(problemDescription: string, signal?: AbortSignal): Promise<Pick<ProjectAnalysisResult, 'projectType' | 'priority' | 'relatedSystems'>> {
+    const prompt = `Quickly analyze this nuclear modification: "${problemDescription}".
+
+Respond with ONLY a JSON object (no markdown, no commentary) with exactly these keys:
+{"projectType": "project category", "priority": "Low | Medium | High | Critical", "relatedSystems": "affected systems, comma separated"}`;
+
+    return this.requestAnalysis(prompt, { signal }, ['projectType', 'priority', 'relatedSystems']);
+  }
+
+  // Send the prompt, then feed contract violations back to the model until it complies
+  private async requestAnalysis<K extends keyof ProjectAnalysisResult>(
+    prompt: string,
+    options: { context?: ProjectAnalysisRequest; signal?: AbortSignal },
+    fields?: K[]
+  ): Promise<Pick<ProjectAnalysisResult, K>> {
+    let message = prompt;
+    let reply = '';
+    let lastError: ProjectAnalysisError | undefined;
+
+    for (let attempt = 0; attempt <= this.maxRepairAttempts; attempt++) {
+      reply = await this.sendMessage(message, options.context, options.signal);
+      const parsed = parseProjectAnalysisJson(reply);
+
+      if (parsed === undefined) {
+        lastError = new ProjectAnalysisError('malformed', 'AI analysis did not return a JSON object', [], reply);
+      } else {
+        const validation = validateProjectAnalysis(parsed, fields);
+        if (validation.ok) return validation.value;
+        lastError = new ProjectAnalysisError(
+          'invalid',
+          `AI analysis did not match the expected format: ${validation.issues.join('; ')}`,
+          validation.issues,
+          reply
+        );
       }
 
-      const aiResult = await response.json();
-      // Parse the intelligent chat response
-      const aiResponseText = aiResult.response || aiResult.Response || aiResult;
-      return this.parseAIResponse(aiResponseText, request);
-      
+      console.warn(`AI analysis attempt ${attempt + 1} rejected:`, lastError.message);
+      message = this.buildRepairPrompt(prompt, reply, lastError);
+    }
+
+    throw lastError!;
+  }
+
+  private async sendMessage(message: string, context?: ProjectAnalysisRequest, signal?: AbortSignal): Promise<string> {
+    let aiResult: { response?: unknown; Response?: unknown };
+    try {
+      // Call existing backend intelligent chat endpoint
+      aiResult = await apiClient.post(this.apiEndpoint, {
+        message,
+        conversationHistory: JSON.stringify([]),
+        ...(context ? { context } : {})
+      }, { signal });
     } catch (error) {
-      console.error('AI project analysis failed:', error);
-      return this.getFallbackAnalysis(request);
+      if (isAbortError(error)) throw error;
+      if (error instanceof ApiError && error.kind === 'parse') {
+        throw new ProjectAnalysisError('malformed', 'AI analysis endpoint returned a non-JSON body');
+      }
+      throw new ProjectAnalysisError('request', `AI analysis failed: ${error instanceof Error ? error.message : error}`);
     }
+
+    // Parse the intelligent chat response
+    const aiResponse = aiResult.response ?? aiResult.Response ?? aiResult;
+    return typeof aiResponse === 'string' ? aiResponse : JSON.stringify(aiResponse);
   }
 
   private buildAnalysisPrompt(request: ProjectAnalysisRequest): string {
@@ -79,150 +119,46 @@ FACILITY: ${request.facility || 'Nuclear facility'}
 
 Please analyze this request and provide:
 
-1. RELATED SYSTEMS: Identify all nuclear systems that could be affected by this modification
-2. RELATED BUILDINGS: Specify which facility buildings/areas will be involved
-3. RELATED EQUIPMENT: List specific equipment, components, and instrumentation involved
-4. PRIORITY: Assess priority level (Low/Medium/High/Critical) based on safety significance
-5. PROJECT TYPE: Categorize the type of modification (e.g., "Safety System Upgrade", "Component Replacement", etc.)
-6. CACN: Generate an appropriate Cost Account Charge Number following nuclear industry standards
-7. SAFETY CLASSIFICATION: Determine safety class (Safety-Related, Important-to-Safety, etc.)
-8. COMPLEXITY: Assess project complexity (Simple/Moderate/Complex/Highly Complex)
-9. APPROACH: Recommend implementation approach
-10. RISKS: Identify potential technical and safety risks
-11. APPROVALS: List required regulatory and internal approvals
-12. CONFIDENCE: Rate your confidence in this analysis (0.0-1.0)
+1. relatedSystems: Identify all nuclear systems that could be affected by this modification
+2. relatedBuildings: Specify which facility buildings/areas will be involved
+3. relatedEquipment: List specific equipment, components, and instrumentation involved
+4. priority: Assess priority level (Low/Medium/High/Critical) based on safety significance
+5. projectType: Categorize the type of modification (e.g., "Safety System Upgrade", "Component Replacement", etc.)
+6. cacn: Generate an appropriate Cost Account Charge Number following nuclear industry standards
+7. safetyClassification: Determine safety class (Safety-Related, Important-to-Safety, etc.)
+8. estimatedComplexity: Assess project complexity (Simple/Moderate/Complex/Highly Complex)
+9. recommendedApproach: Recommend implementation approach
+10. potentialRisks: Identify potential technical and safety risks
+11. requiredApprovals: List required regulatory and internal approvals
+12. confidence: Rate your confidence in this analysis (0.0-1.0)
 
 Provide comprehensive, technically accurate responses suitable for nuclear modification documentation.
 Focus on safety, regulatory compliance, and technical feasibility.
 
 IMPORTANT: Base your analysis on nuclear industry standards, regulatory requirements (10 CFR, etc.), and safety principles.
-`;
-  }
 
-  private parseAIResponse(aiResponseText: string, request: ProjectAnalysisRequest): ProjectAnalysisResult {
-    try {
-      // Parse the AI text response
-      const analysis = typeof aiResponseText === 'string' ? aiResponseText : JSON.stringify(aiResponseText);
-      
-      return {
-        relatedSystems: this.extractValue(analysis, 'RELATED SYSTEMS', 'Systems identified through AI analysis'),
-        relatedBuildings: this.extractValue(analysis, 'RELATED BUILDINGS', 'Buildings identified through AI analysis'),
-        relatedEquipment: this.extractValue(analysis, 'RELATED EQUIPMENT', 'Equipment identified through AI analysis'),
-        priority: this.extractPriority(analysis),
-        projectType: this.extractValue(analysis, 'PROJECT TYPE', 'AI-Determined Project Type'),
-        cacn: this.extractValue(analysis, 'CACN', this.generateDynamicCACN()),
-        safetyClassification: this.extractValue(analysis, 'SAFETY CLASSIFICATION', 'To Be Determined'),
-        estimatedComplexity: this.extractValue(analysis, 'COMPLEXITY', 'Moderate'),
-        recommendedApproach: this.extractValue(analysis, 'APPROACH', 'Standard modification process'),
-        potentialRisks: this.extractArray(analysis, 'RISKS'),
-        requiredApprovals: this.extractArray(analysis, 'APPROVALS'),
-        confidence: this.extractConfidence(analysis)
-      };
-    } catch (error) {
-      console.error('Error parsing AI response:', error);
-      return this.getFallbackAnalysis(request);
-    }
-  }
-
-  private extractValue(text: string, section: string, defaultValue: string): string {
-    const regex = new RegExp(`${section}:?\\s*([^\\n]+)`, 'i');
-    const match = text.match(regex);
-    return match ? match[1].trim() : defaultValue;
-  }
-
-  private extractPriority(text: string): 'Low' | 'Medium' | 'High' | 'Critical' {
-    const priorityMatch = text.match(/PRIORITY:?\s*(Low|Medium|High|Critical)/i);
-    if (priorityMatch) {
-      return priorityMatch[1] as 'Low' | 'Medium' | 'High' | 'Critical';
-    }
-    
-    // AI-based priority detection
-    const lowerText = text.toLowerCase();
-    if (lowerText.includes('safety') && lowerText.includes('critical')) return 'Critical';
-    if (lowerText.includes('emergency') || lowerText.includes('reactor')) return 'High';
-    if (lowerText.includes('important') || lowerText.includes('significant')) return 'Medium';
-    return 'Medium';
-  }
-
-  private extractArray(text: string, section: string): string[] {
-    const regex = new RegExp(`${section}:?\\s*([^\\n]+(?:\\n\\s*-[^\\n]+)*)`, 'i');
-    const match = text.match(regex);
-    if (!match) return [];
-    
-    return match[1]
-      .split(/\n\s*-/)
-      .map(item => item.trim())
-      .filter(item => item.length > 0);
-  }
-
-  private extractConfidence(text: string): number {
-    const confidenceMatch = text.match(/CONFIDENCE:?\s*([0-9.]+)/i);
-    if (confidenceMatch) {
-      return Math.max(0, Math.min(1, parseFloat(confidenceMatch[1])));
-    }
-    return 0.8; // Default confidence
+Respond with ONLY a JSON object (no markdown, no commentary) with exactly these keys and types:
+${PROJECT_ANALYSIS_JSON_EXAMPLE}
+`;
   }
 
-  private generateDynamicCACN(): string {
-    const year = new Date().getFullYear();
-    const randomNum = Math.floor(Math.random() * 9999).toString().padStart(4, '0');
-    return `${year}-AI-${randomNum}`;
-  }
+  private buildRepairPrompt(originalPrompt: string, reply: string, error: ProjectAnalysisError): string {
+    const problems = error.issues.length > 0 ? error.issues.map(issue => `- ${issue}`).join('\n') : `- ${error.message}`;
+    return `${originalPrompt}
 
-  private getFallbackAnalysis(request: ProjectAnalysisRequest): ProjectAnalysisResult {
-    return {
-      relatedSystems: 'System analysis pending detailed engineering review',
-      relatedBuildings: 'Building assessment pending site survey',
-      relatedEquipment: 'Equipment identification pending technical analysis',
-      priority: 'Medium',
-      projectType: 'Modification - Type To Be Determined',
-      cacn: this.generateDynamicCACN(),
-      safetyClassification: 'To Be Determined',
-      estimatedComplexity: 'To Be Assessed',
-      recommendedApproach: 'Standard engineering analysis and review process',
-      potentialRisks: ['Technical feasibility assessment required', 'Regulatory review needed'],
-      requiredApprovals: ['Engineering approval', 'Safety review'],
-      confidence: 0.5
-    };
-  }
+Your previous reply could not be used:
+${problems}
 
-  /**
-   * Quick analysis for real-time UI updates
-   */
-  async quickAnalyze(problemDescription: string): Promise<Partial<ProjectAnalysisResult>> {
-    try {
-      const response = await fetch(this.apiEndpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: `Quickly analyze this nuclear modification: "${problemDescription}". Provide: system type, priority level, project category.`,
-          conversationHistory: JSON.stringify([])
-        })
-      });
-
-      if (response.ok) {
-        const result = await response.json();
-        const aiText = result.response || result.Response || '';
-        return {
-          projectType: this.extractValue(aiText, 'PROJECT TYPE', 'Analysis in progress'),
-          priority: this.extractPriority(aiText) || 'Medium',
-          relatedSystems: this.extractValue(aiText, 'RELATED SYSTEMS', 'Analysis in progress')
-        };
-      }
-    } catch (error) {
-      console.error('Quick analysis failed:', error);
-    }
+Previous reply:
+${reply.slice(0, 4000)}
 
-    return {
-      projectType: 'AI Analysis in Progress',
-      priority: 'Medium',
-      relatedSystems: 'Analyzing...'
-    };
+Return ONLY the corrected JSON object.`;
   }
 }
 
+// Callers handle the contract's errors without importing it separately
+export { ProjectAnalysisError, type ProjectAnalysisResult };
+
 // Export singleton instance
 export const aiProjectAnalysis = new AIProjectAnalysisService();
 
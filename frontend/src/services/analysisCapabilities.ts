@@ -0,0 +1,125 @@
+// ============================================================================
+// ANALYSIS CAPABILITIES
+// What the document analysis backend accepts (file types, size, document types,
+// compliance frameworks) and the client-side upload checks built from it
+// ============================================================================
+
+import { appConfig } from '../config/appConfig';
+import type { AnalysisCapabilities, AnalysisOptions } from '../types/documentAnalysis';
+import { DocumentAnalysisAPI } from './documentAnalysisAPI';
+
+// Used until the capabilities response arrives, and when it cannot be fetched
+export const FALLBACK_ANALYSIS_CAPABILITIES: AnalysisCapabilities = {
+  supportedFileTypes: ['application/pdf'],
+  maxFileSize: appConfig.document.maxFileSize,
+  maxTextLength: 1000000,
+  supportedDocumentTypes: ['general', 'technical', 'nuclear', 'regulatory', 'procedure', 'specification'],
+  analysisFeatures: [],
+  complianceFrameworks: []
+};
+
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  general: 'General Document',
+  technical: 'Technical Document',
+  nuclear: 'Nuclear Engineering',
+  regulatory: 'Regulatory Document',
+  procedure: 'Procedure/Manual',
+  specification: 'Technical Specification'
+};
+
+// Supported file types may be MIME types or extensions; files are matched on either
+const MIME_EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'application/msword': '.doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'text/plain': '.txt'
+};
+
+let capabilitiesPromise: Promise<AnalysisCapabilities> | null = null;
+
+/**
+ * Fetch the capabilities once per page load. Resolves with the fallback when the
+ * backend cannot be reached; the next call then tries again.
+ */
+export function loadAnalysisCapabilities(): Promise<AnalysisCapabilities> {
+  if (!capabilitiesPromise) {
+    capabilitiesPromise = DocumentAnalysisAPI.getCapabilities()
+      .then(capabilities => ({
+        ...capabilities,
+        // An empty list means the backend did not say; keep the known defaults
+        supportedFileTypes: capabilities.supportedFileTypes.length > 0
+          ? capabilities.supportedFileTypes
+          : FALLBACK_ANALYSIS_CAPABILITIES.supportedFileTypes,
+        supportedDocumentTypes: capabilities.supportedDocumentTypes.length > 0
+          ? capabilities.supportedDocumentTypes
+          : FALLBACK_ANALYSIS_CAPABILITIES.supportedDocumentTypes
+      }))
+      .catch(error => {
+        console.warn('Could not load analysis capabilities, using defaults:', error);
+        capabilitiesPromise = null;
+        return FALLBACK_ANALYSIS_CAPABILITIES;
+      });
+  }
+  return capabilitiesPromise;
+}
+
+export const getDocumentTypeLabel = (documentType: string): string =>
+  DOCUMENT_TYPE_LABELS[documentType.toLowerCase()] ?? documentType.charAt(0).toUpperCase() + documentType.slice(1);
+
+// The stricter of the backend limit and appConfig.document.maxFileSize
+export const getMaxUploadSize = (capabilities: AnalysisCapabilities): number =>
+  capabilities.maxFileSize > 0
+    ? Math.min(capabilities.maxFileSize, appConfig.document.maxFileSize)
+    : appConfig.document.maxFileSize;
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// Value for an <input type="file"> accept attribute
+export const getAcceptAttribute = (capabilities: AnalysisCapabilities): string =>
+  capabilities.supportedFileTypes
+    .flatMap(type => (MIME_EXTENSIONS[type] ? [type, MIME_EXTENSIONS[type]] : [type]))
+    .join(',');
+
+/**
+ * Check a file against the supported types and the upload size limit before it is
+ * sent. Returns a message for the user, or null when the file can be uploaded.
+ */
+export function validateUploadFile(file: File, capabilities: AnalysisCapabilities): string | null {
+  const extension = /\.[^.]+$/.exec(file.name)?.[0].toLowerCase() ?? '';
+  const isSupported = capabilities.supportedFileTypes.some(type => {
+    const normalized = type.toLowerCase();
+    return normalized.startsWith('.')
+      ? normalized === extension
+      : normalized === file.type || MIME_EXTENSIONS[normalized] === extension;
+  });
+  if (!isSupported) {
+    const names = capabilities.supportedFileTypes.map(type => (MIME_EXTENSIONS[type] ?? type).replace(/^\./, '').toUpperCase());
+    return `${file.name} is not a supported file type. Supported: ${names.join(', ')}`;
+  }
+
+  const maxSize = getMaxUploadSize(capabilities);
+  if (file.size > maxSize) {
+    return `${file.name} is ${formatFileSize(file.size)}; the maximum upload size is ${formatFileSize(maxSize)}`;
+  }
+  return null;
+}
+
+// Keep chosen options valid for the loaded capabilities (e.g. a document type the backend dropped)
+export function reconcileAnalysisOptions(options: AnalysisOptions, capabilities: AnalysisCapabilities): AnalysisOptions {
+  const { supportedDocumentTypes, complianceFrameworks } = capabilities;
+  return {
+    ...options,
+    documentType: supportedDocumentTypes.includes(options.documentType)
+      ? options.documentType
+      : supportedDocumentTypes[0] ?? options.documentType,
+    complianceFramework: complianceFrameworks.includes(options.complianceFramework)
+      ? options.complianceFramework
+      : complianceFrameworks[0] ?? ''
+  };
+}
@@ -0,0 +1,290 @@
+// ============================================================================
+// BACKEND API CLIENT
+// Single entry point for .NET backend calls: base URL, timeouts, auth, request IDs
+// ============================================================================
+
+export interface ApiClientConfig {
+  // Backend origin, e.g. "https://mt-staging.example.org"; empty for same-origin behind a reverse proxy
+  baseUrl: string;
+  timeoutMs: number;
+  // Bearer token sent as Authorization when present
+  getAuthToken?: () => string | null | undefined;
+  // Answer from built-in fixtures (src/mocks) instead of calling the backend
+  mock: boolean;
+}
+
+// Set on window before the app loads to configure a deployment without rebuilding
+declare global {
+  interface Window {
+    __MT_RUNTIME_CONFIG__?: Partial<Pick<ApiClientConfig, 'baseUrl' | 'timeoutMs' | 'mock'>>;
+  }
+}
+
+export type ApiErrorKind =
+  | 'network'  // backend unreachable (DNS, CORS, connection refused)
+  | 'timeout'  // no response within the configured timeout
+  | 'aborted'  // cancelled by the caller's AbortSignal
+  | 'http'     // non-2xx response
+  | 'parse';   // 2xx response whose body could not be read
+
+export class ApiError extends Error {
+  constructor(
+    public readonly kind: ApiErrorKind,
+    message: string,
+    public readonly requestId: string,
+    public readonly url: string,
+    public readonly status?: number,
+    // Response body text for HTTP errors (backend validation messages etc.)
+    public readonly body?: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// True for requests cancelled through the caller's AbortSignal (not timeouts)
+export const isAbortError = (error: unknown): error is ApiError =>
+  error instanceof ApiError && error.kind === 'aborted';
+
+export interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  // Objects are sent as JSON; FormData is sent as multipart
+  body?: unknown;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  responseType?: 'json' | 'text' | 'blob';
+}
+
+// One server-sent event; data is the raw (usually JSON) payload
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  // Request the event arrived on, for errors raised while handling it
+  requestId: string;
+}
+
+const DEFAULT_BASE_URL = 'http://localhost:5000';
+const DEFAULT_TIMEOUT_MS = 30000;
+
+const createRequestId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+class ApiClient {
+  private config: ApiClientConfig;
+
+  constructor(config: Partial<ApiClientConfig> = {}) {
+    const runtime = typeof window !== 'undefined' ? window.__MT_RUNTIME_CONFIG__ : undefined;
+    this.config = {
+      baseUrl: runtime?.baseUrl ?? process.env.NEXT_PUBLIC_API_BASE_URL ?? DEFAULT_BASE_URL,
+      timeoutMs: runtime?.timeoutMs || Number(process.env.NEXT_PUBLIC_API_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+      mock: runtime?.mock ?? process.env.NEXT_PUBLIC_API_MOCK === 'true',
+      ...config
+    };
+    if (this.config.mock) {
+      console.info('API client is in mock backend mode: responses come from src/mocks fixtures');
+    }
+  }
+
+  configure(config: Partial<ApiClientConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getBaseUrl(): string {
+    return this.config.baseUrl;
+  }
+
+  isMockMode(): boolean {
+    return this.config.mock;
+  }
+
+  // Paths are relative to the backend origin, e.g. "/api/MT/intelligent-chat"
+  buildUrl(path: string): string {
+    if (/^https?:\/\//i.test(path)) return path;
+    return `${this.config.baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+  }
+
+  async request<T>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+    const url = this.buildUrl(path);
+    const requestId = createRequestId();
+    const connection = this.open(url, path, requestId, options);
+
+    try {
+      const response = await connection.response;
+      try {
+        if (options.responseType === 'text') return await response.text() as T;
+        if (options.responseType === 'blob') return await response.blob() as T;
+        return await response.json() as T;
+      } catch (error) {
+        throw new ApiError('parse', `Invalid response from ${path}: ${error instanceof Error ? error.message : error}`, requestId, url, response.status);
+      }
+    } catch (error) {
+      logApiError(error);
+      throw error;
+    } finally {
+      connection.close();
+    }
+  }
+
+  /**
+   * Read a text/event-stream response event by event. The timeout applies to the
+   * gap between chunks rather than the whole stream, so long generations are not cut off.
+   */
+  async *stream(path: string, options: ApiRequestOptions = {}): AsyncGenerator<ServerSentEvent> {
+    const url = this.buildUrl(path);
+    const requestId = createRequestId();
+    const connection = this.open(url, path, requestId, { ...options, headers: { Accept: 'text/event-stream', ...options.headers } });
+
+    try {
+      const response = await connection.response;
+      if (!response.body) {
+        throw new ApiError('parse', `Response from ${path} has no body to stream`, requestId, url, response.status);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      try {
+        while (true) {
+          let chunk: ReadableStreamReadResult<Uint8Array>;
+          try {
+            chunk = await reader.read();
+          } catch (error) {
+            throw connection.toError(error);
+          }
+          if (chunk.done) break;
+          connection.touch();
+
+          buffer += decoder.decode(chunk.value, { stream: true }).replace(/\r\n?/g, '\n');
+          let boundary: number;
+          while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+            const event = parseServerSentEvent(buffer.slice(0, boundary), requestId);
+            buffer = buffer.slice(boundary + 2);
+            // Events already buffered are dropped once the caller cancels
+            if (options.signal?.aborted) throw connection.toError(null);
+            if (event) yield event;
+          }
+        }
+        const trailing = parseServerSentEvent(buffer + decoder.decode(), requestId);
+        if (trailing) yield trailing;
+      } finally {
+        // Stops the download when the consumer breaks out early
+        reader.cancel().catch(() => undefined);
+      }
+    } catch (error) {
+      logApiError(error);
+      throw error;
+    } finally {
+      connection.close();
+    }
+  }
+
+  // Start a request with auth, request ID, timeout and caller cancellation wired up
+  private open(url: string, path: string, requestId: string, options: ApiRequestOptions) {
+    const headers: Record<string, string> = { 'X-Request-ID': requestId, ...options.headers };
+
+    const token = this.config.getAuthToken?.();
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    let body: BodyInit | undefined;
+    if (options.body instanceof FormData) {
+      body = options.body;
+    } else if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(options.body);
+    }
+
+    // One controller covers both the timeout and the caller's own cancellation
+    const controller = new AbortController();
+    const timeoutMs = options.timeoutMs ?? this.config.timeoutMs;
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const touch = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    };
+    touch();
+    const abortFromCaller = () => controller.abort();
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', abortFromCaller);
+
+    const toError = (error: unknown): ApiError => {
+      if (timedOut) return new ApiError('timeout', `Request to ${path} timed out`, requestId, url);
+      if (controller.signal.aborted) return new ApiError('aborted', `Request to ${path} was cancelled`, requestId, url);
+      return new ApiError('network', `Could not reach the backend (${error instanceof Error ? error.message : error})`, requestId, url);
+    };
+
+    const response = (async () => {
+      const method = options.method || 'GET';
+      let response: Response;
+      try {
+        response = this.config.mock
+          // Loaded on demand so fixtures stay out of the bundle unless mock mode is used
+          ? await import('../mocks/mockBackend').then(({ handleMockRequest }) =>
+              handleMockRequest({ method, url, body: options.body, signal: controller.signal }))
+          : await fetch(url, { method, headers, body, signal: controller.signal });
+      } catch (error) {
+        throw toError(error);
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        throw new ApiError(
+          'http',
+          errorText || `HTTP error! status: ${response.status}`,
+          response.headers.get('X-Request-ID') || requestId,
+          url,
+          response.status,
+          errorText
+        );
+      }
+      return response;
+    })();
+
+    return {
+      response,
+      // Restart the timeout, e.g. after each streamed chunk
+      touch,
+      toError,
+      close: () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', abortFromCaller);
+      }
+    };
+  }
+
+  get<T>(path: string, options: Omit<ApiRequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'GET' });
+  }
+
+  post<T>(path: string, body?: unknown, options: Omit<ApiRequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'POST', body });
+  }
+}
+
+function parseServerSentEvent(block: string, requestId: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  block.split('\n').forEach(line => {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+  });
+  return data.length > 0 ? { event, data: data.join('\n'), requestId } : null;
+}
+
+function logApiError(error: unknown): void {
+  if (error instanceof ApiError && error.kind !== 'aborted') {
+    console.error(`API Error [${error.requestId}]:`, error.message);
+  }
+}
+
+// Export singleton instance
+export const apiClient = new ApiClient();
+
+// Export for dependency injection/testing
+export default ApiClient;
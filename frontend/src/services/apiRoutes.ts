@@ -0,0 +1,28 @@
+// ============================================================================
+// API ROUTES
+// Every backend endpoint the frontend calls. The mock backend's route table is
+// typed against this list, so an endpoint without a mock fixture fails the build
+// ============================================================================
+
+export const API_ROUTES = {
+  health: { method: 'GET', path: '/api/MT/health' },
+  intelligentChat: { method: 'POST', path: '/api/MT/intelligent-chat' },
+  intelligentChatStream: { method: 'POST', path: '/api/MT/intelligent-chat/stream' },
+  analyze: { method: 'POST', path: '/api/MT/analyze' },
+  analyzeWithGpt4: { method: 'POST', path: '/api/MT/analyze-with-gpt4' },
+  classifyMT: { method: 'POST', path: '/api/MT/classify-mt' },
+  validateInput: { method: 'POST', path: '/api/MT/validate-input' },
+  guidance: { method: 'POST', path: '/api/MT/guidance' },
+  figure1Step: { method: 'POST', path: '/api/MT/figure1-step' },
+  analyzePdf: { method: 'POST', path: '/api/MT/analyze-pdf' },
+  analyzeText: { method: 'POST', path: '/api/DocumentAnalysis/analyze-text' },
+  capabilities: { method: 'GET', path: '/api/DocumentAnalysis/capabilities' },
+  analysisHistory: { method: 'GET', path: '/api/DocumentAnalysis/history' },
+  analysisHistoryEntry: { method: 'GET', path: '/api/DocumentAnalysis/history/:id' }
+} as const;
+
+export type ApiRoute = keyof typeof API_ROUTES;
+
+// The path to request, with :id filled in for routes that take one
+export const apiPath = (route: ApiRoute, id = ''): string =>
+  API_ROUTES[route].path.replace(':id', encodeURIComponent(id));
@@ -0,0 +1,151 @@
+// ============================================================================
+// ATTACHMENT A - DESIGN VERIFICATION CHECKLIST
+// Category definitions, backend A1-A5 mapping and completion statistics
+// ============================================================================
+
+import type { ChecklistItem, MTDocumentData } from './mtDocumentService';
+
+export type AttachmentAData = NonNullable<MTDocumentData['attachmentA']>;
+export type AttachmentACategory = keyof AttachmentAData;
+
+// Sections of mtAnalyzerAPI's attachmentAChecklist, keyed by their short reference
+export type AttachmentABackendSection = 'A1' | 'A2' | 'A3' | 'A4' | 'A5';
+
+export const ATTACHMENT_A_BACKEND_SECTIONS: Record<AttachmentABackendSection, { key: string; title: string }> = {
+  A1: { key: 'a1DesignOutputCheck', title: 'Design Output Check' },
+  A2: { key: 'a2EngineeringImpacts', title: 'Engineering Impacts' },
+  A3: { key: 'a3NonEngineeringImpacts', title: 'Non-Engineering Impacts' },
+  A4: { key: 'a4SystemAcceptability', title: 'System Acceptability' },
+  A5: { key: 'a5InterfaceReviews', title: 'Interface Reviews' }
+};
+
+interface AttachmentACategoryDefinition {
+  key: AttachmentACategory;
+  title: string;
+  // Keywords that route a backend item into this category
+  keywords: string[];
+  // Starting checklist when the backend does not supply one
+  defaultItems: string[];
+}
+
+export const ATTACHMENT_A_CATEGORIES: AttachmentACategoryDefinition[] = [
+  {
+    key: 'structuralSystems',
+    title: 'Structural Systems',
+    keywords: ['structur', 'seismic', 'civil', 'foundation', 'support', 'anchor', 'load'],
+    defaultItems: [
+      'Structural loads and supports evaluated',
+      'Seismic qualification addressed'
+    ]
+  },
+  {
+    key: 'mechanicalSystems',
+    title: 'Mechanical Systems',
+    keywords: ['mechanical', 'piping', 'pump', 'valve', 'hvac', 'pressure', 'flow', 'tank'],
+    defaultItems: [
+      'Mechanical design and pressure boundary reviewed',
+      'Piping and component compatibility verified'
+    ]
+  },
+  {
+    key: 'electricalSystems',
+    title: 'Electrical Systems',
+    keywords: ['electrical', 'power', 'cable', 'breaker', 'motor', 'grounding', 'voltage'],
+    defaultItems: [
+      'Electrical loads and power supply reviewed',
+      'Cable routing and separation verified'
+    ]
+  },
+  {
+    key: 'instrumentationSystems',
+    title: 'Instrumentation & Control Systems',
+    keywords: ['instrument', 'control', 'i&c', 'software', 'digital', 'plc', 'alarm', 'setpoint'],
+    defaultItems: [
+      'Instrumentation and setpoints reviewed',
+      'Control logic and software changes verified'
+    ]
+  },
+  {
+    key: 'safetySystems',
+    title: 'Safety Systems',
+    keywords: ['safety', 'hazard', 'fire', 'accident', 'usq', 'dsa', 'tsr'],
+    defaultItems: [
+      'Safety basis impact (USQ) evaluated',
+      'Fire protection and hazard analysis reviewed'
+    ]
+  },
+  {
+    key: 'qualityAssurance',
+    title: 'Quality Assurance',
+    keywords: ['quality', 'qa', 'procedure', 'document', 'record', 'training', 'test', 'inspection'],
+    defaultItems: [
+      'Design outputs checked against design inputs',
+      'Affected procedures and documents identified',
+      'Post-modification testing defined'
+    ]
+  },
+  {
+    key: 'environmentalCompliance',
+    title: 'Environmental Compliance',
+    keywords: ['environment', 'permit', 'waste', 'emission', 'discharge', 'epa', 'radiolog'],
+    defaultItems: [
+      'Environmental permits and waste streams reviewed'
+    ]
+  }
+];
+
+// Where a backend item lands when none of its keywords match a category
+const SECTION_FALLBACK_CATEGORY: Record<AttachmentABackendSection, AttachmentACategory> = {
+  A1: 'qualityAssurance',
+  A2: 'mechanicalSystems',
+  A3: 'qualityAssurance',
+  A4: 'safetySystems',
+  A5: 'instrumentationSystems'
+};
+
+export interface AttachmentACompletion {
+  total: number;
+  complete: number;
+  pending: number;
+  notApplicable: number;
+  // Complete items as a share of the applicable (non N/A) items
+  percentage: number;
+}
+
+export function normalizeChecklistStatus(status: unknown): ChecklistItem['status'] {
+  const value = String(status || '').trim().toLowerCase();
+  if (['complete', 'completed', 'done', 'yes', 'satisfactory', 'acceptable'].includes(value)) return 'Complete';
+  if (['n/a', 'na', 'not applicable'].includes(value)) return 'N/A';
+  return 'Pending';
+}
+
+export function categorizeChecklistItem(item: ChecklistItem, section: AttachmentABackendSection): AttachmentACategory {
+  const text = `${item.description} ${item.comments || ''}`.toLowerCase();
+  const match = ATTACHMENT_A_CATEGORIES.find(category => category.keywords.some(keyword => text.includes(keyword)));
+  return match ? match.key : SECTION_FALLBACK_CATEGORY[section];
+}
+
+export function createDefaultAttachmentA(): AttachmentAData {
+  const attachmentA: AttachmentAData = {};
+  ATTACHMENT_A_CATEGORIES.forEach(category => {
+    attachmentA[category.key] = category.defaultItems.map(description => ({ description, status: 'Pending' as const }));
+  });
+  return attachmentA;
+}
+
+export function calculateChecklistCompletion(items: ChecklistItem[] = []): AttachmentACompletion {
+  const complete = items.filter(item => item.status === 'Complete').length;
+  const notApplicable = items.filter(item => item.status === 'N/A').length;
+  const applicable = items.length - notApplicable;
+  return {
+    total: items.length,
+    complete,
+    pending: applicable - complete,
+    notApplicable,
+    percentage: applicable > 0 ? Math.round((complete / applicable) * 100) : items.length > 0 ? 100 : 0
+  };
+}
+
+export function calculateAttachmentACompletion(attachmentA: AttachmentAData = {}): AttachmentACompletion {
+  return calculateChecklistCompletion(ATTACHMENT_A_CATEGORIES.flatMap(category => attachmentA[category.key] || []));
+}
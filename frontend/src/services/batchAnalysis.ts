@@ -0,0 +1,165 @@
+// ============================================================================
+// BATCH PDF ANALYSIS QUEUE
+// Runs document analyses for a package of files with limited concurrency and
+// reports per-file status, so 20-50 documents can be reviewed in one pass
+// ============================================================================
+
+import { isAbortError } from './apiClient';
+import { DocumentAnalysisAPI } from './documentAnalysisAPI';
+import type { AnalysisOptions, DocumentAnalysisResult } from '../types/documentAnalysis';
+
+export type BatchItemStatus =
+  | 'queued'     // waiting for a free slot
+  | 'analyzing'  // upload and analysis in flight
+  | 'done'       // analysis succeeded; result is set
+  | 'failed'     // the request failed or the analysis reported an error
+  | 'rejected'   // never uploaded: unsupported type or too large
+  | 'cancelled'; // stopped by the user before it finished
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  status: BatchItemStatus;
+  result?: DocumentAnalysisResult;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface BatchProgress {
+  total: number;
+  // Items that reached a final status (done, failed, rejected or cancelled)
+  finished: number;
+  succeeded: number;
+  failed: number;
+  active: number;
+}
+
+// The analysis runs the full GPT pipeline per file; more parallel uploads mostly queue on the backend
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+const FINAL_STATUSES: BatchItemStatus[] = ['done', 'failed', 'rejected', 'cancelled'];
+
+class BatchAnalysisQueue {
+  private items: BatchItem[] = [];
+  private files = new Map<string, { file: File; options: AnalysisOptions }>();
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Set<(items: BatchItem[]) => void>();
+  private nextId = 1;
+
+  constructor(private readonly concurrency: number = DEFAULT_BATCH_CONCURRENCY) {}
+
+  getItems(): BatchItem[] {
+    return this.items;
+  }
+
+  getProgress(): BatchProgress {
+    const count = (status: BatchItemStatus) => this.items.filter(item => item.status === status).length;
+    return {
+      total: this.items.length,
+      finished: this.items.filter(item => FINAL_STATUSES.includes(item.status)).length,
+      succeeded: count('done'),
+      failed: count('failed') + count('rejected'),
+      active: count('analyzing')
+    };
+  }
+
+  subscribe(listener: (items: BatchItem[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.items);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue files with the options chosen when they were added. `validate` returns a
+   * reason to reject a file before upload (see validateUploadFile), or null.
+   */
+  add(files: File[], options: AnalysisOptions, validate?: (file: File) => string | null): void {
+    const added = files.map((file): BatchItem => {
+      const id = `batch-${this.nextId++}`;
+      const problem = validate?.(file) ?? null;
+      if (!problem) this.files.set(id, { file, options });
+      return problem
+        ? { id, fileName: file.name, fileSize: file.size, status: 'rejected', error: problem }
+        : { id, fileName: file.name, fileSize: file.size, status: 'queued' };
+    });
+    this.items = [...this.items, ...added];
+    this.notify();
+    this.pump();
+  }
+
+  // Stop everything: in-flight requests are aborted and waiting files are not sent
+  cancel(): void {
+    this.controllers.forEach(controller => controller.abort());
+    this.update(item => (item.status === 'queued' ? { ...item, status: 'cancelled' } : item));
+  }
+
+  // Send failed and cancelled files again; rejected files would fail the same way
+  retryFailed(): void {
+    this.update(item =>
+      item.status === 'failed' || item.status === 'cancelled'
+        ? { id: item.id, fileName: item.fileName, fileSize: item.fileSize, status: 'queued' }
+        : item
+    );
+    this.pump();
+  }
+
+  // Forget finished items; ignored while files are still being analyzed
+  clear(): void {
+    if (this.getProgress().active > 0) return;
+    this.items = [];
+    this.files.clear();
+    this.notify();
+  }
+
+  private pump(): void {
+    let active = this.getProgress().active;
+    for (const item of this.items) {
+      if (active >= this.concurrency) break;
+      if (item.status !== 'queued') continue;
+      active++;
+      this.run(item.id);
+    }
+  }
+
+  private async run(id: string): Promise<void> {
+    const entry = this.files.get(id);
+    if (!entry) return;
+
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+    this.update(item => (item.id === id ? { ...item, status: 'analyzing', startedAt: Date.now(), error: undefined } : item));
+
+    let outcome: Partial<BatchItem>;
+    try {
+      const result = await DocumentAnalysisAPI.analyzePDF(entry.file, entry.options, controller.signal);
+      outcome = result.isAnalysisSuccessful
+        ? { status: 'done', result }
+        : { status: 'failed', error: result.errorMessage };
+    } catch (error) {
+      outcome = isAbortError(error)
+        ? { status: 'cancelled' }
+        : { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      this.controllers.delete(id);
+    }
+
+    this.update(item => (item.id === id ? { ...item, ...outcome, finishedAt: Date.now() } : item));
+    this.pump();
+  }
+
+  private update(change: (item: BatchItem) => BatchItem): void {
+    this.items = this.items.map(change);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.items));
+  }
+}
+
+// Export for dependency injection/testing; each batch panel owns its own queue
+export default BatchAnalysisQueue;
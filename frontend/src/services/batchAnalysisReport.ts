@@ -0,0 +1,244 @@
+// ============================================================================
+// BATCH ANALYSIS REPORT
+// Aggregates the results of a batch: score distributions, the most common issue
+// types per category and the documents ranked worst first, with CSV and
+// Markdown exports
+// ============================================================================
+
+import type { BatchItem } from './batchAnalysis';
+import type { DocumentAnalysisResult, QualityRating } from '../types/documentAnalysis';
+
+export type BatchScoreKey = 'overall' | 'grammar' | 'style' | 'technical' | 'compliance';
+export type BatchIssueCategory = 'grammar' | 'style' | 'technical' | 'compliance';
+
+export interface ScoreBucket {
+  label: string;
+  // Lowest score in the band; each band ends where the one above it starts
+  min: number;
+  count: number;
+}
+
+export interface IssueTypeCount {
+  type: string;
+  occurrences: number;
+  // Number of documents the issue type appears in
+  fileCount: number;
+}
+
+export interface BatchReportDocument {
+  fileName: string;
+  scores: Record<BatchScoreKey, number>;
+  rating: QualityRating;
+  issueCount: number;
+}
+
+export interface BatchReport {
+  generatedAt: string;
+  totalFiles: number;
+  analyzedFiles: number;
+  failedFiles: Array<{ fileName: string; error: string }>;
+  averageScores: Record<BatchScoreKey, number>;
+  distributions: Record<BatchScoreKey, ScoreBucket[]>;
+  topIssueTypes: Record<BatchIssueCategory, IssueTypeCount[]>;
+  // Lowest overall score first
+  documents: BatchReportDocument[];
+}
+
+export const BATCH_SCORE_LABELS: Record<BatchScoreKey, string> = {
+  overall: 'Overall',
+  grammar: 'Grammar',
+  style: 'Style',
+  technical: 'Technical',
+  compliance: 'Compliance'
+};
+
+export const BATCH_ISSUE_CATEGORY_LABELS: Record<BatchIssueCategory, string> = {
+  grammar: 'Grammar',
+  style: 'Style',
+  technical: 'Technical',
+  compliance: 'Compliance'
+};
+
+// Same bands as the backend's QualityRating
+const SCORE_BANDS: Array<Omit<ScoreBucket, 'count'>> = [
+  { label: '90-100', min: 90 },
+  { label: '80-89', min: 80 },
+  { label: '70-79', min: 70 },
+  { label: '60-69', min: 60 },
+  { label: '0-59', min: -Infinity }
+];
+
+const bandIndex = (score: number): number => SCORE_BANDS.findIndex(band => score >= band.min);
+
+const TOP_ISSUE_TYPES = 5;
+
+const SCORE_KEYS = Object.keys(BATCH_SCORE_LABELS) as BatchScoreKey[];
+const ISSUE_CATEGORIES = Object.keys(BATCH_ISSUE_CATEGORY_LABELS) as BatchIssueCategory[];
+
+const scoresOf = (result: DocumentAnalysisResult): Record<BatchScoreKey, number> => ({
+  overall: result.qualityScore.overall,
+  grammar: result.qualityScore.grammar,
+  style: result.qualityScore.style,
+  technical: result.qualityScore.technical,
+  compliance: result.qualityScore.compliance
+});
+
+// Compliance issues have no type; the standard they cite groups them instead
+const issueTypesOf = (result: DocumentAnalysisResult, category: BatchIssueCategory): string[] => {
+  switch (category) {
+    case 'grammar': return result.grammar.issues.map(issue => issue.type);
+    case 'style': return result.style.issues.map(issue => issue.type);
+    case 'technical': return result.technical.issues.map(issue => issue.type);
+    case 'compliance': return (result.compliance?.issues ?? []).map(issue => issue.standard || issue.requirement);
+  }
+};
+
+const average = (values: number[]): number =>
+  values.length === 0 ? 0 : Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+
+function countIssueTypes(results: DocumentAnalysisResult[], category: BatchIssueCategory): IssueTypeCount[] {
+  const counts = new Map<string, IssueTypeCount>();
+  results.forEach(result => {
+    const types = issueTypesOf(result, category).map(type => type.trim() || 'Unspecified');
+    types.forEach(type => {
+      const entry = counts.get(type) ?? { type, occurrences: 0, fileCount: 0 };
+      entry.occurrences++;
+      counts.set(type, entry);
+    });
+    new Set(types).forEach(type => {
+      const entry = counts.get(type);
+      if (entry) entry.fileCount++;
+    });
+  });
+  return Array.from(counts.values())
+    .sort((a, b) => b.occurrences - a.occurrences || b.fileCount - a.fileCount || a.type.localeCompare(b.type))
+    .slice(0, TOP_ISSUE_TYPES);
+}
+
+export function buildBatchReport(items: BatchItem[]): BatchReport {
+  const analyzed = items.filter((item): item is BatchItem & { result: DocumentAnalysisResult } => item.status === 'done' && !!item.result);
+  const results = analyzed.map(item => item.result);
+
+  const averageScores = {} as Record<BatchScoreKey, number>;
+  const distributions = {} as Record<BatchScoreKey, ScoreBucket[]>;
+  SCORE_KEYS.forEach(key => {
+    const values = results.map(result => scoresOf(result)[key]);
+    averageScores[key] = average(values);
+    distributions[key] = SCORE_BANDS.map((band, index) => ({
+      ...band,
+      count: values.filter(value => bandIndex(value) === index).length
+    }));
+  });
+
+  const topIssueTypes = {} as Record<BatchIssueCategory, IssueTypeCount[]>;
+  ISSUE_CATEGORIES.forEach(category => {
+    topIssueTypes[category] = countIssueTypes(results, category);
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    totalFiles: items.length,
+    analyzedFiles: analyzed.length,
+    failedFiles: items
+      .filter(item => item.status === 'failed' || item.status === 'rejected')
+      .map(item => ({ fileName: item.fileName, error: item.error ?? 'Analysis failed' })),
+    averageScores,
+    distributions,
+    topIssueTypes,
+    documents: analyzed
+      .map(({ fileName, result }) => ({
+        fileName,
+        scores: scoresOf(result),
+        rating: result.qualityScore.rating,
+        issueCount: ISSUE_CATEGORIES.reduce((sum, category) => sum + issueTypesOf(result, category).length, 0)
+      }))
+      .sort((a, b) => a.scores.overall - b.scores.overall || b.issueCount - a.issueCount)
+  };
+}
+
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per file, worst first, followed by the files that could not be analyzed
+export function batchReportToCsv(report: BatchReport): string {
+  const header = ['File', 'Status', ...SCORE_KEYS.map(key => `${BATCH_SCORE_LABELS[key]} Score`), 'Rating', 'Issues', 'Error'];
+  const rows = [
+    ...report.documents.map(document => [
+      document.fileName,
+      'Analyzed',
+      ...SCORE_KEYS.map(key => document.scores[key].toFixed(1)),
+      document.rating,
+      document.issueCount,
+      ''
+    ]),
+    ...report.failedFiles.map(file => [file.fileName, 'Failed', ...SCORE_KEYS.map(() => ''), '', '', file.error])
+  ];
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
+
+const markdownCell = (value: string | number): string => String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+export function batchReportToMarkdown(report: BatchReport): string {
+  const lines: string[] = [
+    '# Batch Document Analysis Report',
+    '',
+    `Generated ${new Date(report.generatedAt).toLocaleString()} · ${report.analyzedFiles} of ${report.totalFiles} files analyzed`,
+    '',
+    '## Average Scores',
+    '',
+    `| ${SCORE_KEYS.map(key => BATCH_SCORE_LABELS[key]).join(' | ')} |`,
+    `| ${SCORE_KEYS.map(() => '---').join(' | ')} |`,
+    `| ${SCORE_KEYS.map(key => report.averageScores[key].toFixed(1)).join(' | ')} |`,
+    '',
+    '## Score Distribution',
+    '',
+    `| Range | ${SCORE_KEYS.map(key => BATCH_SCORE_LABELS[key]).join(' | ')} |`,
+    `| --- | ${SCORE_KEYS.map(() => '---').join(' | ')} |`,
+    ...SCORE_BANDS.map((band, index) =>
+      `| ${band.label} | ${SCORE_KEYS.map(key => report.distributions[key][index].count).join(' | ')} |`),
+    '',
+    '## Most Common Issue Types',
+    ''
+  ];
+
+  ISSUE_CATEGORIES.forEach(category => {
+    lines.push(`### ${BATCH_ISSUE_CATEGORY_LABELS[category]}`, '');
+    const issues = report.topIssueTypes[category];
+    if (issues.length === 0) {
+      lines.push('_No issues reported._', '');
+      return;
+    }
+    lines.push('| Issue type | Occurrences | Files |', '| --- | --- | --- |');
+    issues.forEach(issue => lines.push(`| ${markdownCell(issue.type)} | ${issue.occurrences} | ${issue.fileCount} |`));
+    lines.push('');
+  });
+
+  lines.push(
+    '## Documents (worst first)',
+    '',
+    `| File | ${SCORE_KEYS.map(key => BATCH_SCORE_LABELS[key]).join(' | ')} | Rating | Issues |`,
+    `| --- | ${SCORE_KEYS.map(() => '---').join(' | ')} | --- | --- |`,
+    ...report.documents.map(document =>
+      `| ${markdownCell(document.fileName)} | ${SCORE_KEYS.map(key => document.scores[key].toFixed(1)).join(' | ')} | ${document.rating} | ${document.issueCount} |`)
+  );
+
+  if (report.failedFiles.length > 0) {
+    lines.push('', '## Not Analyzed', '');
+    report.failedFiles.forEach(file => lines.push(`- **${markdownCell(file.fileName)}**: ${markdownCell(file.error)}`));
+  }
+
+  return lines.join('\n');
+}
+
+export function downloadTextFile(content: string, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,112 @@
+// ============================================================================
+// BROWSER DATABASE
+// Shared IndexedDB database for client-side state that must survive reloads
+// ============================================================================
+
+const DB_NAME = 'mt-analyzer';
+
+export const DB_STORES = {
+  // Chat turns waiting to reach the backend, keyed by user message id
+  outboundQueue: 'outboundQueue',
+  // Chat titles and dates, keyed by chat id; messages are stored separately
+  chats: 'chats',
+  // One record per message, keyed by [chatId, id]
+  chatMessages: 'chatMessages',
+  // Each chat's MT document, keyed by chat id
+  mtDocuments: 'mtDocuments',
+  // Name, size and type of files sent in a chat (not their contents), keyed by id
+  uploadedFiles: 'uploadedFiles',
+  // The uploaded DOCX template used for Word exports, keyed by a fixed id
+  mtTemplates: 'mtTemplates'
+} as const;
+
+export type DbStoreName = typeof DB_STORES[keyof typeof DB_STORES];
+
+// Schema changes, one per database version and never edited once released: a
+// browser on version N runs every step after N in order
+const SCHEMA_UPGRADES: Array<(db: IDBDatabase) => void> = [
+  // Version 1: outbound chat queue
+  db => {
+    db.createObjectStore(DB_STORES.outboundQueue, { keyPath: 'id' });
+  },
+  // Version 2: chat histories move out of localStorage
+  db => {
+    db.createObjectStore(DB_STORES.chats, { keyPath: 'id' });
+    const messages = db.createObjectStore(DB_STORES.chatMessages, { keyPath: ['chatId', 'id'] });
+    messages.createIndex('chatId', 'chatId');
+    db.createObjectStore(DB_STORES.mtDocuments, { keyPath: 'chatId' });
+    const files = db.createObjectStore(DB_STORES.uploadedFiles, { keyPath: 'id' });
+    files.createIndex('chatId', 'chatId');
+  },
+  // Version 3: the DOCX template moves out of localStorage
+  db => {
+    db.createObjectStore(DB_STORES.mtTemplates, { keyPath: 'id' });
+  }
+];
+
+const DB_VERSION = SCHEMA_UPGRADES.length;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const isBrowserDatabaseAvailable = (): boolean =>
+  typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+
+export function openBrowserDatabase(): Promise<IDBDatabase> {
+  if (!isBrowserDatabaseAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          SCHEMA_UPGRADES[version](db);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error ?? new Error('Could not open the browser database'));
+      };
+    });
+  }
+  return databasePromise;
+}
+
+// Run one request against a store and resolve with its result once the transaction commits
+export async function withStore<T>(
+  storeName: DbStoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openBrowserDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Browser database transaction aborted'));
+  });
+}
+
+// Run several requests, possibly across stores, as one transaction that either fully commits or fails
+export async function withTransaction(
+  storeNames: DbStoreName[],
+  mode: IDBTransactionMode,
+  operation: (transaction: IDBTransaction) => void
+): Promise<void> {
+  const db = await openBrowserDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    operation(transaction);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Browser database transaction aborted'));
+  });
+}
+
+// Browsers report a full disk or exhausted origin quota as a QuotaExceededError
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
@@ -0,0 +1,158 @@
+// ============================================================================
+// CHAT ARCHIVE
+// Export a chat as one .zip a colleague can import or attach to a condition
+// report: the messages, the chat's MT document, its PDF analysis results and a
+// readable Markdown transcript
+// ============================================================================
+
+import PizZip from 'pizzip';
+import type { ChatHistory } from '../components/ChatSidebar';
+import type { Message } from '../components/ChatMessage';
+import type { DocumentAnalysisResult } from '../types/documentAnalysis';
+import type { MTDocumentState } from './mtDocumentService';
+import { chatStorage, type UploadedFileRecord } from './chatStorage';
+
+const ARCHIVE_FORMAT = 'mt-analyzer-chat';
+// Bump when the archive layout changes; importers reject versions newer than they know
+const ARCHIVE_VERSION = 1;
+
+const ARCHIVE_FILES = {
+  manifest: 'manifest.json',
+  messages: 'messages.json',
+  mtDocument: 'mt-document.json',
+  analyses: 'analyses.json',
+  uploadedFiles: 'uploaded-files.json',
+  transcript: 'transcript.md'
+} as const;
+
+interface ChatArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  chat: {
+    id: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    mtProgress?: number;
+  };
+}
+
+export interface ImportedChat {
+  chat: ChatHistory;
+  uploadedFiles: UploadedFileRecord[];
+}
+
+// Analysis messages carry the full result in metadata.documentAnalysis (see ChatInterface_Pure)
+const getMessageAnalysis = (message: Message): DocumentAnalysisResult | undefined =>
+  message.metadata?.documentAnalysis;
+
+function buildTranscript(chat: ChatHistory): string {
+  const lines = [
+    `# ${chat.title}`,
+    '',
+    `Exported ${new Date().toLocaleString()} · ${chat.messages.length} messages` +
+      (chat.mtProgress !== undefined ? ` · MT document ${chat.mtProgress}% complete` : ''),
+    ''
+  ];
+  chat.messages.forEach((message: Message) => {
+    const author = message.sender === 'user' ? 'User' : message.type === 'analysis' ? 'Document Analysis' : 'Assistant';
+    lines.push('---', '', `**${author}** · ${new Date(message.timestamp).toLocaleString()}`, '', message.text, '');
+  });
+  return lines.join('\n');
+}
+
+export async function exportChatArchive(chat: ChatHistory): Promise<Blob> {
+  const manifest: ChatArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    chat: {
+      id: chat.id,
+      title: chat.title,
+      createdAt: chat.createdAt.toISOString(),
+      updatedAt: chat.updatedAt.toISOString(),
+      mtProgress: chat.mtProgress
+    }
+  };
+  const analyses = chat.messages
+    .map(getMessageAnalysis)
+    .filter((analysis): analysis is DocumentAnalysisResult => !!analysis);
+
+  const zip = new PizZip();
+  zip.file(ARCHIVE_FILES.manifest, JSON.stringify(manifest, null, 2));
+  zip.file(ARCHIVE_FILES.messages, JSON.stringify(chat.messages, null, 2));
+  if (chat.mtDocument) {
+    zip.file(ARCHIVE_FILES.mtDocument, JSON.stringify(chat.mtDocument, null, 2));
+  }
+  zip.file(ARCHIVE_FILES.analyses, JSON.stringify(analyses, null, 2));
+  zip.file(ARCHIVE_FILES.uploadedFiles, JSON.stringify(await chatStorage.getUploadedFiles(chat.id), null, 2));
+  zip.file(ARCHIVE_FILES.transcript, buildTranscript(chat));
+  return zip.generate({ type: 'blob', mimeType: 'application/zip', compression: 'DEFLATE' });
+}
+
+export async function downloadChatArchive(chat: ChatHistory): Promise<void> {
+  const blob = await exportChatArchive(chat);
+  const safeTitle = chat.title.replace(/[^a-z0-9]+/gi, '_').replace(/^_+|_+$/g, '') || 'chat';
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${safeTitle}.mtchat.zip`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function readJson<T>(zip: PizZip, name: string): T | undefined {
+  const entry = zip.file(name);
+  if (!entry) return undefined;
+  try {
+    return JSON.parse(entry.asText()) as T;
+  } catch {
+    throw new Error(`The archive's ${name} is not valid JSON`);
+  }
+}
+
+/**
+ * Read an archive made by exportChatArchive. A chat whose id is already in
+ * `existingIds` gets a new id, so importing never overwrites a local chat.
+ */
+export async function importChatArchive(file: File, existingIds: Set<string>): Promise<ImportedChat> {
+  let zip: PizZip;
+  try {
+    zip = new PizZip(await file.arrayBuffer());
+  } catch {
+    throw new Error(`${file.name} is not a chat archive`);
+  }
+
+  const manifest = readJson<ChatArchiveManifest>(zip, ARCHIVE_FILES.manifest);
+  if (manifest?.format !== ARCHIVE_FORMAT) {
+    throw new Error(`${file.name} is not a chat archive`);
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error(`${file.name} was exported by a newer version of the MT Analyzer (archive version ${manifest.version})`);
+  }
+
+  const messages = (readJson<Array<Omit<Message, 'timestamp'> & { timestamp: string }>>(zip, ARCHIVE_FILES.messages) ?? [])
+    .map(message => ({ ...message, timestamp: new Date(message.timestamp) }));
+  const mtDocument = readJson<MTDocumentState>(zip, ARCHIVE_FILES.mtDocument);
+
+  const isTaken = existingIds.has(manifest.chat.id);
+  const chatId = isTaken ? Date.now().toString() : manifest.chat.id;
+  const uploadedFiles = (readJson<Array<Omit<UploadedFileRecord, 'uploadedAt'> & { uploadedAt: string }>>(zip, ARCHIVE_FILES.uploadedFiles) ?? [])
+    .map(record => ({ ...record, id: `${chatId}:${record.messageId}`, chatId, uploadedAt: new Date(record.uploadedAt) }));
+
+  return {
+    chat: {
+      id: chatId,
+      title: isTaken ? `${manifest.chat.title} (imported)` : manifest.chat.title,
+      messages,
+      createdAt: new Date(manifest.chat.createdAt),
+      updatedAt: new Date(manifest.chat.updatedAt),
+      mtDocument,
+      mtProgress: manifest.chat.mtProgress
+    },
+    uploadedFiles
+  };
+}
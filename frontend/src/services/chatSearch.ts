@@ -0,0 +1,172 @@
+// ============================================================================
+// CHAT SEARCH
+// Full-text search across chat history: message text, the MT fields each chat
+// filled in and its dates, with snippets for each hit and filters on the MT
+// determination
+// ============================================================================
+
+import type { ChatHistory } from '../components/ChatSidebar';
+import type { Message } from '../components/ChatMessage';
+import type { MTDocumentData } from './mtDocumentService';
+
+export interface ChatSearchFilters {
+  // '' for any design type, otherwise '1'-'6'
+  designType: string;
+  mtRequired: 'any' | 'yes' | 'no';
+  // yyyy-mm-dd from a date input; '' leaves that end of the range open
+  fromDate: string;
+  toDate: string;
+}
+
+export interface ChatSearchMatch {
+  // Set when the hit is in a message, so the chat can scroll to it
+  messageId?: string;
+  // Where the hit is, e.g. "Message" or "Project number"
+  source: string;
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface ChatSearchResult {
+  chat: ChatHistory;
+  matches: ChatSearchMatch[];
+}
+
+export const EMPTY_CHAT_SEARCH_FILTERS: ChatSearchFilters = {
+  designType: '',
+  mtRequired: 'any',
+  fromDate: '',
+  toDate: ''
+};
+
+export const DESIGN_TYPE_OPTIONS = ['1', '2', '3', '4', '5', '6'];
+
+// MT fields worth searching, with the label shown next to a hit
+const SEARCHABLE_MT_FIELDS: Array<[keyof MTDocumentData, string]> = [
+  ['title', 'MT title'],
+  ['mtNumber', 'MT number'],
+  ['projectNumber', 'Project number'],
+  ['relatedEquipment', 'Equipment'],
+  ['relatedSystems', 'Systems'],
+  ['preliminarySafetyClassification', 'Safety classification'],
+  ['facility', 'Facility']
+];
+
+// Free-text MT fields scanned for equipment tags
+const EQUIPMENT_SOURCE_FIELDS: Array<keyof MTDocumentData> = ['problemDescription', 'proposedSolution', 'scopeOfWork', 'description'];
+
+// Equipment tags such as FCV-001, P-101A or 2-MOV-1234
+const EQUIPMENT_ID_PATTERN = /\b(?:\d{1,2}-)?[A-Z]{1,5}-\d{1,5}[A-Z]?\b/g;
+
+// One place in a chat a hit can be reported
+type SearchEntry = Omit<ChatSearchMatch, 'before' | 'match' | 'after'> & { text: string };
+
+const SNIPPET_CONTEXT = 40;
+const MAX_MATCHES_PER_CHAT = 3;
+
+export const hasActiveChatFilters = (filters: ChatSearchFilters): boolean =>
+  filters.designType !== '' || filters.mtRequired !== 'any' || filters.fromDate !== '' || filters.toDate !== '';
+
+function extractEquipmentIds(text: string): string[] {
+  return Array.from(new Set(text.match(EQUIPMENT_ID_PATTERN) ?? []));
+}
+
+const ROMAN_DESIGN_TYPES: Record<string, string> = { I: '1', II: '2', III: '3', IV: '4', V: '5', VI: '6' };
+
+// "Type 2", 2, "2 - Minor modification" and "Type II - Modification" all mean design type 2
+const normalizeDesignType = (designType?: string | number): string => {
+  if (designType === undefined) return '';
+  const text = String(designType);
+  const digit = /\d/.exec(text);
+  if (digit) return digit[0];
+  const roman = /\b(VI|IV|V|I{1,3})\b/.exec(text);
+  return roman ? ROMAN_DESIGN_TYPES[roman[1]] : '';
+};
+
+const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Text to search for a chat, one entry per place a hit can be reported, in the order hits are listed
+function buildSearchEntries(chat: ChatHistory): SearchEntry[] {
+  const data: Partial<MTDocumentData> = chat.mtDocument?.data ?? {};
+  const entries: SearchEntry[] = [{ source: 'Chat title', text: chat.title }];
+
+  SEARCHABLE_MT_FIELDS.forEach(([field, label]) => {
+    const value = data[field];
+    if (typeof value === 'string' && value.trim()) entries.push({ source: label, text: value });
+  });
+  const equipmentIds = extractEquipmentIds(EQUIPMENT_SOURCE_FIELDS.map(field => String(data[field] ?? '')).join(' '));
+  if (equipmentIds.length > 0) entries.push({ source: 'Equipment IDs', text: equipmentIds.join(', ') });
+
+  chat.messages.forEach((message: Message) => entries.push({ source: 'Message', messageId: message.id, text: message.text }));
+
+  // Dates are searchable as typed in a date input and as displayed in the list
+  entries.push({
+    source: 'Date',
+    text: [chat.createdAt, chat.updatedAt].map(date => `${toDateKey(date)} ${date.toLocaleDateString()}`).join(' ')
+  });
+  return entries;
+}
+
+function makeSnippet(text: string, index: number, length: number): Pick<ChatSearchMatch, 'before' | 'match' | 'after'> {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  const collapse = (part: string) => part.replace(/\s+/g, ' ');
+  return {
+    before: (start > 0 ? '…' : '') + collapse(text.slice(start, index)),
+    match: text.slice(index, index + length),
+    after: collapse(text.slice(index + length, end)) + (end < text.length ? '…' : '')
+  };
+}
+
+function matchesFilters(chat: ChatHistory, filters: ChatSearchFilters): boolean {
+  const data: Partial<MTDocumentData> = chat.mtDocument?.data ?? {};
+
+  if (filters.designType && normalizeDesignType(data.designType) !== filters.designType) return false;
+  if (filters.mtRequired !== 'any' && data.mtRequired !== (filters.mtRequired === 'yes')) return false;
+
+  if (filters.fromDate || filters.toDate) {
+    // A chat is in range when any of its activity is
+    const activity = chat.messages.length > 0
+      ? chat.messages.map((message: Message) => toDateKey(new Date(message.timestamp)))
+      : [toDateKey(chat.updatedAt)];
+    const inRange = activity.some((day: string) =>
+      (!filters.fromDate || day >= filters.fromDate) && (!filters.toDate || day <= filters.toDate));
+    if (!inRange) return false;
+  }
+  return true;
+}
+
+/**
+ * Chats matching every word of `query` (anywhere in the chat) and all filters,
+ * most recently updated first. An empty query lists every chat that passes the
+ * filters, without snippets.
+ */
+export function searchChats(chats: ChatHistory[], query: string, filters: ChatSearchFilters): ChatSearchResult[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return chats
+    .filter(chat => matchesFilters(chat, filters))
+    .map((chat): ChatSearchResult | null => {
+      if (terms.length === 0) return { chat, matches: [] };
+
+      const entries = buildSearchEntries(chat).map(entry => ({ ...entry, lower: entry.text.toLowerCase() }));
+      if (!terms.every(term => entries.some(entry => entry.lower.includes(term)))) return null;
+
+      const matches: ChatSearchMatch[] = [];
+      for (const entry of entries) {
+        if (matches.length >= MAX_MATCHES_PER_CHAT) break;
+        const term = terms.find(t => entry.lower.includes(t));
+        if (!term) continue;
+        const index = entry.lower.indexOf(term);
+        matches.push({ source: entry.source, messageId: entry.messageId, ...makeSnippet(entry.text, index, term.length) });
+      }
+      return { chat, matches };
+    })
+    .filter((result): result is ChatSearchResult => result !== null)
+    .sort((a, b) => b.chat.updatedAt.getTime() - a.chat.updatedAt.getTime());
+}
@@ -0,0 +1,325 @@
+// ============================================================================
+// CHAT STORAGE
+// Chat histories, each chat's MT document, uploaded-file metadata and the
+// DOCX template in IndexedDB. Saves write only what changed, histories from the
+// old localStorage key are migrated once, and a full disk is reported to the UI
+// ============================================================================
+
+import type { ChatHistory } from '../components/ChatSidebar';
+import type { Message } from '../components/ChatMessage';
+import type { MTDocumentState, MTTemplateInfo } from './mtDocumentService';
+import { DB_STORES, isBrowserDatabaseAvailable, isQuotaExceededError, withStore, withTransaction } from './browserDatabase';
+
+export type ChatStorageState =
+  | 'ok'
+  | 'nearly-full'  // usage is above QUOTA_WARNING_RATIO of the origin's quota
+  | 'full'         // a save failed for lack of space; recent changes are not stored
+  | 'unavailable'; // no IndexedDB: history lasts until the page is closed
+
+export interface ChatStorageStatus {
+  state: ChatStorageState;
+  usageBytes?: number;
+  quotaBytes?: number;
+}
+
+// What is kept of a file sent in a chat; the contents are not stored
+export interface UploadedFileRecord {
+  id: string;
+  chatId: string;
+  messageId: string;
+  name: string;
+  size: number;
+  type: string;
+  uploadedAt: Date;
+}
+
+export interface StoredTemplate {
+  info: MTTemplateInfo;
+  data: ArrayBuffer;
+}
+
+interface StoredChat {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type StoredMessage = Message & { chatId: string };
+
+interface StoredDocument {
+  chatId: string;
+  state: MTDocumentState;
+  progress: number;
+  updatedAt: Date;
+}
+
+// The JSON shape of a chat in the legacy localStorage key
+type SerializedChat = Omit<ChatHistory, 'createdAt' | 'updatedAt' | 'messages'> & {
+  createdAt: string;
+  updatedAt: string;
+  messages: Array<Omit<Message, 'timestamp'> & { timestamp: string }>;
+};
+
+// Where chat histories lived before IndexedDB; removed once migrated
+const LEGACY_STORAGE_KEY = 'mtChatHistories';
+// Only one template is kept at a time
+const TEMPLATE_ID = 'current';
+const QUOTA_WARNING_RATIO = 0.9;
+const QUOTA_CHECK_INTERVAL_MS = 60000;
+
+class ChatStorage {
+  private status: ChatStorageStatus = { state: 'ok' };
+  private listeners = new Set<(status: ChatStorageStatus) => void>();
+  // Messages as last written, per chat, so a save only puts the ones that changed
+  private savedMessages = new Map<string, Map<string, Message>>();
+  private lastQuotaCheck = 0;
+
+  getStatus(): ChatStorageStatus {
+    return this.status;
+  }
+
+  subscribe(listener: (status: ChatStorageStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // All chats, newest first, with their messages and MT documents
+  async loadChats(): Promise<ChatHistory[]> {
+    if (!isBrowserDatabaseAvailable()) {
+      this.setStatus({ state: 'unavailable' });
+      return this.readLegacyHistories();
+    }
+
+    try {
+      await this.migrateLegacyHistories();
+    } catch (error) {
+      // The localStorage copy is kept, so the migration runs again on the next load
+      console.error('Failed to migrate chat history to IndexedDB:', error);
+      if (isQuotaExceededError(error)) this.setStatus({ state: 'full' });
+      return this.readLegacyHistories();
+    }
+
+    try {
+      const [chats, messages, documents] = await Promise.all([
+        withStore<StoredChat[]>(DB_STORES.chats, 'readonly', store => store.getAll()),
+        withStore<StoredMessage[]>(DB_STORES.chatMessages, 'readonly', store => store.getAll()),
+        withStore<StoredDocument[]>(DB_STORES.mtDocuments, 'readonly', store => store.getAll())
+      ]);
+
+      const messagesByChat = new Map<string, Message[]>();
+      messages.forEach(({ chatId, ...message }) => {
+        messagesByChat.set(chatId, [...(messagesByChat.get(chatId) ?? []), message]);
+      });
+      const documentsByChat = new Map(documents.map(document => [document.chatId, document]));
+
+      const histories = chats.map((chat): ChatHistory => {
+        const chatMessages = (messagesByChat.get(chat.id) ?? [])
+          .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        this.savedMessages.set(chat.id, new Map(chatMessages.map(message => [message.id, message])));
+        const document = documentsByChat.get(chat.id);
+        return { ...chat, messages: chatMessages, mtDocument: document?.state, mtProgress: document?.progress };
+      });
+
+      this.checkQuota(true);
+      return histories.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      console.error('Failed to load chat history:', error);
+      return [];
+    }
+  }
+
+  // Store the chat's title and dates, and the messages added, changed or removed since the last save
+  async saveChat(chat: ChatHistory): Promise<void> {
+    const saved = this.savedMessages.get(chat.id) ?? new Map<string, Message>();
+    const messages: Message[] = chat.messages;
+    const changed = messages.filter(message => saved.get(message.id) !== message);
+    const currentIds = new Set(messages.map(message => message.id));
+    const removed = Array.from(saved.keys()).filter(id => !currentIds.has(id));
+
+    const stored = await this.write([DB_STORES.chats, DB_STORES.chatMessages], transaction => {
+      transaction.objectStore(DB_STORES.chats).put(this.toStoredChat(chat));
+      const messageStore = transaction.objectStore(DB_STORES.chatMessages);
+      changed.forEach(message => messageStore.put({ ...message, chatId: chat.id }));
+      removed.forEach(id => messageStore.delete([chat.id, id]));
+    });
+    if (stored) {
+      this.savedMessages.set(chat.id, new Map(messages.map(message => [message.id, message])));
+    }
+  }
+
+  async saveChatDocument(chatId: string, state: MTDocumentState, progress: number): Promise<void> {
+    const document: StoredDocument = { chatId, state, progress, updatedAt: new Date() };
+    await this.write([DB_STORES.mtDocuments], transaction => {
+      transaction.objectStore(DB_STORES.mtDocuments).put(document);
+    });
+  }
+
+  async recordUploadedFile(chatId: string, messageId: string, file: File): Promise<void> {
+    const record: UploadedFileRecord = {
+      id: `${chatId}:${messageId}`,
+      chatId,
+      messageId,
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      uploadedAt: new Date()
+    };
+    await this.write([DB_STORES.uploadedFiles], transaction => {
+      transaction.objectStore(DB_STORES.uploadedFiles).put(record);
+    });
+  }
+
+  // File records that arrive with an imported chat
+  async saveUploadedFiles(records: UploadedFileRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.write([DB_STORES.uploadedFiles], transaction => {
+      const files = transaction.objectStore(DB_STORES.uploadedFiles);
+      records.forEach(record => files.put(record));
+    });
+  }
+
+  async getUploadedFiles(chatId: string): Promise<UploadedFileRecord[]> {
+    if (!isBrowserDatabaseAvailable()) return [];
+    try {
+      return await withStore<UploadedFileRecord[]>(DB_STORES.uploadedFiles, 'readonly', store => store.index('chatId').getAll(chatId));
+    } catch (error) {
+      console.error('Failed to load uploaded files:', error);
+      return [];
+    }
+  }
+
+  // Resolves false when the template could not be stored (see the status for why)
+  async saveTemplate(template: StoredTemplate): Promise<boolean> {
+    return this.write([DB_STORES.mtTemplates], transaction => {
+      transaction.objectStore(DB_STORES.mtTemplates).put({ id: TEMPLATE_ID, ...template });
+    });
+  }
+
+  async loadTemplate(): Promise<StoredTemplate | undefined> {
+    if (!isBrowserDatabaseAvailable()) return undefined;
+    try {
+      const record = await withStore<(StoredTemplate & { id: string }) | undefined>(
+        DB_STORES.mtTemplates, 'readonly', store => store.get(TEMPLATE_ID)
+      );
+      return record && { info: record.info, data: record.data };
+    } catch (error) {
+      console.error('Failed to load the MT template:', error);
+      return undefined;
+    }
+  }
+
+  async deleteTemplate(): Promise<void> {
+    await this.write([DB_STORES.mtTemplates], transaction => {
+      transaction.objectStore(DB_STORES.mtTemplates).delete(TEMPLATE_ID);
+    });
+  }
+
+  // Remove a chat with its messages, MT document and file records
+  async deleteChat(chatId: string): Promise<void> {
+    this.savedMessages.delete(chatId);
+    await this.write(
+      [DB_STORES.chats, DB_STORES.chatMessages, DB_STORES.mtDocuments, DB_STORES.uploadedFiles],
+      transaction => {
+        transaction.objectStore(DB_STORES.chats).delete(chatId);
+        transaction.objectStore(DB_STORES.chatMessages).delete(IDBKeyRange.bound([chatId], [chatId, []]));
+        transaction.objectStore(DB_STORES.mtDocuments).delete(chatId);
+        const files = transaction.objectStore(DB_STORES.uploadedFiles);
+        const keys = files.index('chatId').getAllKeys(chatId);
+        keys.onsuccess = () => keys.result.forEach(key => files.delete(key));
+      }
+    );
+  }
+
+  // Copy the histories from localStorage in one transaction, then drop the old key
+  private async migrateLegacyHistories(): Promise<void> {
+    if (localStorage.getItem(LEGACY_STORAGE_KEY) === null) return;
+
+    const histories = this.readLegacyHistories();
+    await withTransaction([DB_STORES.chats, DB_STORES.chatMessages, DB_STORES.mtDocuments], 'readwrite', transaction => {
+      const messageStore = transaction.objectStore(DB_STORES.chatMessages);
+      histories.forEach(chat => {
+        transaction.objectStore(DB_STORES.chats).put(this.toStoredChat(chat));
+        chat.messages.forEach((message: Message) => messageStore.put({ ...message, chatId: chat.id }));
+        if (chat.mtDocument) {
+          const document: StoredDocument = { chatId: chat.id, state: chat.mtDocument, progress: chat.mtProgress ?? 0, updatedAt: chat.updatedAt };
+          transaction.objectStore(DB_STORES.mtDocuments).put(document);
+        }
+      });
+    });
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    console.log(`Migrated ${histories.length} chats from localStorage to IndexedDB`);
+  }
+
+  private readLegacyHistories(): ChatHistory[] {
+    try {
+      const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!saved) return [];
+      const chats: SerializedChat[] = JSON.parse(saved);
+      return chats.map(chat => ({
+        ...chat,
+        createdAt: new Date(chat.createdAt),
+        updatedAt: new Date(chat.updatedAt),
+        messages: chat.messages.map(msg => ({
+          ...msg,
+          timestamp: new Date(msg.timestamp)
+        }))
+      }));
+    } catch (error) {
+      console.error('Failed to read chat history from localStorage:', error);
+      return [];
+    }
+  }
+
+  private toStoredChat(chat: ChatHistory): StoredChat {
+    return { id: chat.id, title: chat.title, createdAt: chat.createdAt, updatedAt: chat.updatedAt };
+  }
+
+  // Resolves false when nothing could be stored; failures are reported through the status, not thrown
+  private async write(storeNames: Parameters<typeof withTransaction>[0], operation: (transaction: IDBTransaction) => void): Promise<boolean> {
+    if (!isBrowserDatabaseAvailable()) return false;
+    try {
+      await withTransaction(storeNames, 'readwrite', operation);
+      this.checkQuota(this.status.state === 'full');
+      return true;
+    } catch (error) {
+      console.error('Failed to write to browser storage:', error);
+      if (isQuotaExceededError(error)) {
+        this.setStatus({ ...this.status, state: 'full' });
+      }
+      return false;
+    }
+  }
+
+  // Warn before the quota runs out; estimates are cheap but not free, so at most once a minute
+  private async checkQuota(force = false): Promise<void> {
+    if (!force && Date.now() - this.lastQuotaCheck < QUOTA_CHECK_INTERVAL_MS) return;
+    this.lastQuotaCheck = Date.now();
+
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      if (this.status.state === 'full') this.setStatus({ state: 'ok' });
+      return;
+    }
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      const nearlyFull = quota > 0 && usage / quota >= QUOTA_WARNING_RATIO;
+      this.setStatus({ state: nearlyFull ? 'nearly-full' : 'ok', usageBytes: usage, quotaBytes: quota });
+    } catch (error) {
+      console.warn('Could not estimate browser storage usage:', error);
+    }
+  }
+
+  private setStatus(status: ChatStorageStatus): void {
+    this.status = status;
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+// Export singleton instance
+export const chatStorage = new ChatStorage();
+
+// Export for dependency injection/testing
+export default ChatStorage;
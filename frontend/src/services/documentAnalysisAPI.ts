@@ -1,19 +1,18 @@
 // API service for document analysis
-import { DocumentAnalysisResult, AnalyzeTextRequest, AnalysisCapabilities } from '../types/documentAnalysis';
+import { DocumentAnalysisResult, DocumentAnalysisHistoryItem, AnalyzeTextRequest, AnalysisCapabilities, AnalysisOptions } from '../types/documentAnalysis';
+import { apiClient } from './apiClient';
+import { apiPath } from './apiRoutes';
+import { decodeAnalysisCapabilities, decodeDocumentAnalysisHistory, decodeDocumentAnalysisResult } from './responseDecoders';
 
 export class DocumentAnalysisAPI {
   /**
-   * Analyze a PDF document
+   * Analyze a PDF document. Failed or partial analyses resolve with
+   * isAnalysisSuccessful=false and an errorMessage instead of throwing.
    */
   static async analyzePDF(
     file: File,
-    options: {
-      documentType?: string;
-      performGrammarCheck?: boolean;
-      performStyleCheck?: boolean;
-      performTechnicalReview?: boolean;
-      performComplianceCheck?: boolean;
-    } = {}
+    options: Partial<AnalysisOptions> = {},
+    signal?: AbortSignal
   ): Promise<DocumentAnalysisResult> {
     const formData = new FormData();
     formData.append('pdfFile', file);
@@ -22,63 +21,44 @@ export class DocumentAnalysisAPI {
     formData.append('performStyleCheck', String(options.performStyleCheck ?? true));
     formData.append('performTechnicalReview', String(options.performTechnicalReview ?? true));
     formData.append('performComplianceCheck', String(options.performComplianceCheck ?? false));
-
-    const response = await fetch(`http://localhost:5000/api/MT/analyze-pdf`, {
-      method: 'POST',
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(errorText || `HTTP error! status: ${response.status}`);
+    if (options.complianceFramework) {
+      formData.append('complianceFramework', options.complianceFramework);
     }
 
-    return response.json();
+    // PDF analysis runs the full GPT pipeline, so it gets a longer timeout than ordinary calls
+    const response = await apiClient.post<unknown>(apiPath('analyzePdf'), formData, { timeoutMs: 120000, signal });
+    return decodeDocumentAnalysisResult(response);
   }
 
   /**
    * Analyze text content
    */
   static async analyzeText(request: AnalyzeTextRequest): Promise<DocumentAnalysisResult> {
-    const response = await fetch(`http://localhost:5000/api/DocumentAnalysis/analyze-text`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(errorText || `HTTP error! status: ${response.status}`);
-    }
-
-    return response.json();
+    const response = await apiClient.post<unknown>(apiPath('analyzeText'), request);
+    return decodeDocumentAnalysisResult(response);
   }
 
   /**
    * Get analysis capabilities
    */
   static async getCapabilities(): Promise<AnalysisCapabilities> {
-    const response = await fetch(`/api/documentanalysis/capabilities`);
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    return response.json();
+    const response = await apiClient.get<unknown>(apiPath('capabilities'));
+    return decodeAnalysisCapabilities(response);
   }
 
   /**
-   * Get analysis history (placeholder)
+   * Get recent analyses, newest first
    */
-  static async getHistory(): Promise<any[]> {
-    const response = await fetch(`http://localhost:5000/api/DocumentAnalysis/history`);
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+  static async getHistory(): Promise<DocumentAnalysisHistoryItem[]> {
+    const response = await apiClient.get<unknown>(apiPath('analysisHistory'));
+    return decodeDocumentAnalysisHistory(response);
+  }
 
-    return response.json();
+  /**
+   * Get the full result of a previous analysis
+   */
+  static async getHistoryEntry(documentId: string): Promise<DocumentAnalysisResult> {
+    const response = await apiClient.get<unknown>(apiPath('analysisHistoryEntry', documentId));
+    return decodeDocumentAnalysisResult(response);
   }
 }
\ No newline at end of file
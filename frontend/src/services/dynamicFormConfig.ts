@@ -4,6 +4,8 @@
 // ============================================================================
 
 import { aiProjectAnalysis } from './aiProjectAnalysis';
+import { apiClient } from './apiClient';
+import { apiPath } from './apiRoutes';
 
 interface FormConfiguration {
   formNumber: string;
@@ -67,21 +69,11 @@ export class DynamicFormConfigService {
   async generateFormConfig(facilityContext: FacilityContext = {}): Promise<FormConfiguration> {
     try {
       // Use AI to determine appropriate form configuration
-      const response = await fetch('http://localhost:5000/api/MT/intelligent-chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: this.buildConfigPrompt(facilityContext),
-          conversationHistory: JSON.stringify([])
-        })
+      const aiResult = await apiClient.post(apiPath('intelligentChat'), {
+        message: this.buildConfigPrompt(facilityContext),
+        conversationHistory: JSON.stringify([])
       });
-
-      if (response.ok) {
-        const aiResult = await response.json();
-        return this.parseConfigResponse(aiResult, facilityContext);
-      }
+      return this.parseConfigResponse(aiResult, facilityContext);
     } catch (error) {
       console.error('AI form config generation failed:', error);
     }
@@ -1,22 +1,6 @@
-import axios from 'axios';
-
-// Configure API client to point to .NET backend
-const apiClient = axios.create({
-  baseURL: 'http://localhost:5000/api',
-  timeout: 30000,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Response interceptor for error handling
-apiClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    console.error('API Error:', error);
-    throw error;
-  }
-);
+import { ApiError, apiClient } from './apiClient';
+import { apiPath } from './apiRoutes';
+import { decodeMTAnalysisResponse } from './responseDecoders';
 
 export interface MTAnalysisRequest {
   projectNumber?: string;
@@ -113,111 +97,251 @@ export interface ChatResponse {
   relatedTopics?: string[];
 }
 
+// Mirrors backend IntelligentChatResponse
+export interface IntelligentChatResponse {
+  response: string;
+  timestamp: string;
+  processedByGPT4: boolean;
+}
+
+export interface IntelligentChatStreamOptions {
+  // Called with each chunk of text as it is generated
+  onDelta?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+// Mirrors backend MTClassificationResult
+export interface MTClassificationResult {
+  classificationType: number;
+  typeName: string;
+  confidence: number;
+  reasoning: string;
+  keyFactors: string[];
+  agreesWithEmbedding: boolean;
+}
+
+// Mirrors backend EnhancedMTResponse (api/MT/analyze)
+export interface EnhancedMTResponse {
+  analysisId: string;
+  standardAnalysis: {
+    requiresLicenseAmendment: boolean;
+    reason: string;
+    designType: string;
+    confidence: number;
+  };
+  enhancedAnalysis: string;
+  confidenceScore: number;
+  keyFindings: string[];
+  regulatoryPath: string;
+  recommendations: string[];
+  riskAssessment: {
+    overallRisk: string;
+    riskFactors: string[];
+    mitigations: string[];
+    confidence: number;
+  };
+  complianceStatus: string;
+  timestamp: string;
+}
+
+export interface MTInputValidationMessage {
+  // Input flag or text field the message is about, e.g. "problemDescription"
+  field: string;
+  message: string;
+}
+
+export interface MTInputValidationResult {
+  isValid: boolean;
+  errors: MTInputValidationMessage[];
+  warnings: MTInputValidationMessage[];
+}
+
+export interface MTGuidanceResponse {
+  guidance: string;
+  // Procedures and regulations cited in the guidance, e.g. "TFC-ENG-DESIGN-C-67", "10 CFR 830"
+  references: string[];
+  timestamp: string;
+}
+
+// Figure 1 questions are keyed by their MTAnalysisRequest flag
+export type Figure1StepKey =
+  | 'isTemporary'
+  | 'isPhysicalChange'
+  | 'isIdenticalReplacement'
+  | 'isDesignOutsideDA'
+  | 'requiresNewProcedures'
+  | 'requiresMultipleDocuments'
+  | 'isSingleDiscipline'
+  | 'revisionsOutsideDA'
+  | 'requiresSoftwareChange'
+  | 'requiresHoistingRigging'
+  | 'facilityChangePackageApplicable';
+
+export type Figure1Answers = Partial<Record<Figure1StepKey, boolean>>;
+
+export interface Figure1AnsweredStep {
+  step: Figure1StepKey;
+  question: string;
+  answer: boolean;
+}
+
+export interface Figure1Determination {
+  mtRequired: boolean;
+  reason: string;
+  designType: number; // 1-5 for Design Type I-V
+  designTypeName: string;
+}
+
+export interface Figure1StepResponse {
+  // Next question to ask; empty once isComplete
+  currentStep: Figure1StepKey | '';
+  stepNumber: number;
+  question: string;
+  guidance: string;
+  options: string[];
+  progress: number; // 0-100
+  isComplete: boolean;
+  path: Figure1AnsweredStep[];
+  determination?: Figure1Determination | null;
+}
+
+const FIGURE1_STEP_KEYS: Figure1StepKey[] = [
+  'isTemporary',
+  'isPhysicalChange',
+  'isIdenticalReplacement',
+  'isDesignOutsideDA',
+  'requiresNewProcedures',
+  'requiresMultipleDocuments',
+  'isSingleDiscipline',
+  'revisionsOutsideDA',
+  'requiresSoftwareChange',
+  'requiresHoistingRigging',
+  'facilityChangePackageApplicable'
+];
+
 class MTAnalyzerAPI {
-  // Analyze MT document
+  // Full MT analysis report (Figure 1, Attachment A, risk) from structured input
   async analyzeMTDocument(request: MTAnalysisRequest): Promise<MTAnalysisResponse> {
-    const response = await apiClient.post('/mtanalysis/analyze-text', request);
-    return response.data;
+    const response = await apiClient.post<unknown>(apiPath('analyzeWithGpt4'), {
+      userInput: [request.problemDescription, request.proposedSolution, request.justification].filter(Boolean).join('\n\n'),
+      structuredInput: request
+    });
+    return decodeMTAnalysisResponse(response);
   }
 
-  // Analyze text input with embedding enhancements (new enhanced endpoint)
-  async analyzeTextWithEmbeddings(text: string): Promise<MTAnalysisResponse> {
-    const request = {
-      projectNumber: `MT-${Date.now()}`,
-      problemDescription: text,
-      proposedSolution: text,
-      justification: text
-    };
-    const response = await apiClient.post('/enhanced-mt/analyze-with-embeddings', request);
-    return response.data;
+  // Chain-of-thought regulatory analysis (10 CFR 50.59 path, findings, risk)
+  async analyzeModification(request: MTAnalysisRequest): Promise<EnhancedMTResponse> {
+    return apiClient.post<EnhancedMTResponse>(apiPath('analyze'), request);
   }
 
-  // NEW: Analyze with GPT-4 intelligence
+  // Analyze free text with GPT-4
   async analyzeWithGPT4(text: string): Promise<MTAnalysisResponse> {
-    const request = {
+    const response = await apiClient.post<unknown>(apiPath('analyzeWithGpt4'), {
       userInput: text,
       structuredInput: null
-    };
-    const response = await apiClient.post('/enhanced-mt/analyze-with-gpt4', request);
-    return response.data;
+    });
+    return decodeMTAnalysisResponse(response);
   }
 
-  // NEW: Intelligent chat with GPT-4
-  async intelligentChat(message: string, conversationHistory: string = ''): Promise<any> {
-    const request = {
-      message: message,
-      conversationHistory: conversationHistory
-    };
-    const response = await apiClient.post('/enhanced-mt/intelligent-chat', request);
-    return response.data;
+  // Intelligent chat with GPT-4
+  async intelligentChat(message: string, conversationHistory: string = ''): Promise<IntelligentChatResponse> {
+    return apiClient.post<IntelligentChatResponse>(apiPath('intelligentChat'), { message, conversationHistory });
   }
 
-  // NEW: Smart MT classification
-  async classifyMTType(description: string): Promise<any> {
-    const request = {
-      description: description
-    };
-    const response = await apiClient.post('/enhanced-mt/classify-mt', request);
-    return response.data;
+  // Intelligent chat streamed over server-sent events; resolves with the full reply once generation completes
+  async streamIntelligentChat(
+    message: string,
+    conversationHistory: string = '',
+    options: IntelligentChatStreamOptions = {}
+  ): Promise<IntelligentChatResponse> {
+    const path = apiPath('intelligentChatStream');
+    let streamed = '';
+    try {
+      for await (const event of apiClient.stream(path, {
+        method: 'POST',
+        body: { message, conversationHistory },
+        signal: options.signal
+      })) {
+        let payload;
+        try {
+          payload = JSON.parse(event.data);
+        } catch (error) {
+          throw new ApiError(
+            'parse',
+            `Invalid ${event.event} event from ${path}: ${error instanceof Error ? error.message : error}`,
+            event.requestId,
+            apiClient.buildUrl(path)
+          );
+        }
+        if (event.event === 'delta') {
+          streamed += payload.text;
+          options.onDelta?.(payload.text);
+        } else if (event.event === 'done') {
+          return payload as IntelligentChatResponse;
+        } else if (event.event === 'error') {
+          throw new Error(payload.error || 'Intelligent chat failed');
+        }
+      }
+    } catch (error) {
+      // Backends without the streaming route still answer through the regular endpoint
+      if (error instanceof ApiError && error.kind === 'http' && error.status === 404 && !streamed) {
+        const response = await apiClient.post<IntelligentChatResponse>(
+          apiPath('intelligentChat'),
+          { message, conversationHistory },
+          { signal: options.signal }
+        );
+        options.onDelta?.(response.response);
+        return response;
+      }
+      throw error;
+    }
+    throw new Error('Chat stream ended before the response was complete');
   }
 
-  // Analyze text input (like from chat) - legacy endpoint
-  async analyzeText(text: string): Promise<MTAnalysisResponse> {
-    const response = await apiClient.post('/mtanalysis/analyze-text', { text });
-    return response.data;
+  // Smart MT classification
+  async classifyMTType(description: string): Promise<MTClassificationResult> {
+    return apiClient.post<MTClassificationResult>(apiPath('classifyMT'), { description });
   }
 
-  // Upload and analyze file
-  async uploadAndAnalyze(file: File): Promise<MTAnalysisResponse> {
-    const formData = new FormData();
-    formData.append('file', file);
-
-    const response = await apiClient.post('/mtanalysis/upload-analyze', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-    });
-    return response.data;
+  // Analyze text input (like from chat)
+  async analyzeText(text: string): Promise<MTAnalysisResponse> {
+    return this.analyzeWithGPT4(text);
   }
 
-  // Chat with AI assistant
+  // Chat with AI assistant; context is passed to the backend as conversation history
   async chatWithAI(message: ChatMessage): Promise<ChatResponse> {
-    const response = await apiClient.post('/mtanalysis/analyze-text', { text: message.message });
-    return { response: response.data.mtRequiredReason || 'Analysis completed' };
+    const response = await this.intelligentChat(message.message, message.context || '');
+    return { response: response.response };
   }
 
-  // Validate MT input
-  async validateInput(request: MTAnalysisRequest): Promise<{ isValid: boolean; errors: string[] }> {
-    const response = await apiClient.post('/mtanalysis/analyze-text', request);
-    return { isValid: true, errors: [] };
+  // Check MT input for missing required fields and contradictory Figure 1 answers
+  async validateInput(request: MTAnalysisRequest): Promise<MTInputValidationResult> {
+    return apiClient.post<MTInputValidationResult>(apiPath('validateInput'), request);
   }
 
-  // Get MT guidance based on specific question
-  async getMTGuidance(question: string): Promise<{ guidance: string; references: string[] }> {
-    const response = await apiClient.get(`/mtanalysis/health`);
-    return { guidance: 'MT guidance system available', references: [] };
+  // Get MT guidance for a specific question, optionally about a described modification
+  async getMTGuidance(question: string, context: string = ''): Promise<MTGuidanceResponse> {
+    return apiClient.post<MTGuidanceResponse>(apiPath('guidance'), { question, context });
   }
 
-  // Get Figure 1 decision tree steps
-  async getFigure1Steps(currentAnswers: Partial<MTAnalysisRequest>): Promise<{
-    currentStep: string;
-    question: string;
-    options: string[];
-    progress: number;
-  }> {
-    const response = await apiClient.post('/mtanalysis/analyze-text', currentAnswers);
-    return {
-      currentStep: 'Step 1',
-      question: 'Is this a physical change?',
-      options: ['Yes', 'No'],
-      progress: 10
-    };
+  // Next Figure 1 decision tree question for the answers given so far, or the outcome once complete
+  async getFigure1Steps(currentAnswers: Partial<MTAnalysisRequest>): Promise<Figure1StepResponse> {
+    const answers: Figure1Answers = {};
+    FIGURE1_STEP_KEYS.forEach(key => {
+      const answer = currentAnswers[key];
+      if (typeof answer === 'boolean') answers[key] = answer;
+    });
+
+    return apiClient.post<Figure1StepResponse>(apiPath('figure1Step'), {
+      answers,
+      problemDescription: currentAnswers.problemDescription || '',
+      proposedSolution: currentAnswers.proposedSolution || ''
+    });
   }
 
   // Health check
   async healthCheck(): Promise<{ status: string; version: string }> {
-    const response = await apiClient.get('/mtanalysis/health');
-    return { status: response.data.status, version: '1.0.0' };
+    return apiClient.get<{ status: string; version: string }>(apiPath('health'));
   }
 }
 
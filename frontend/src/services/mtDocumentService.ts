@@ -1,5 +1,27 @@
 import { dynamicFormConfig } from './dynamicFormConfig';
+import { chatStorage } from './chatStorage';
 import { aiProjectAnalysis } from './aiProjectAnalysis';
+import { MTRevisionStore, type MTFieldChange, type MTSnapshot, type MTUpdateSource } from './mtRevisionStore';
+import { mtValidationService, MT_SECTION_TITLES, type MTSection, type MTValidationIssue, type MTValidationResult } from './mtValidationService';
+import {
+  createProvenance,
+  describeProvenance,
+  getVerificationStatus,
+  type MTFieldOrigin,
+  type MTFieldProvenance,
+  type MTProvenanceMap
+} from './mtProvenance';
+import {
+  ATTACHMENT_A_BACKEND_SECTIONS,
+  ATTACHMENT_A_CATEGORIES,
+  calculateAttachmentACompletion,
+  calculateChecklistCompletion,
+  categorizeChecklistItem,
+  createDefaultAttachmentA,
+  normalizeChecklistStatus,
+  type AttachmentABackendSection,
+  type AttachmentAData
+} from './attachmentAChecklist';
 
 export interface MTFormConfig {
   // Form metadata that can be configured
@@ -59,6 +81,8 @@ export interface MTDocumentData {
   
   // Section IV - Design Input Record
   designInputs?: string;
+  designInputDocuments?: MTDocumentReference[];
+  impactedDocuments?: MTDocumentReference[];
   designInputConsiderations?: string;
   applicableCodes?: string;
   designCriteria?: string;
@@ -109,6 +133,8 @@ export interface MTDocumentData {
     qualityAssurance?: ChecklistItem[];
     environmentalCompliance?: ChecklistItem[];
   };
+  // Risk level the backend reported for each A1-A5 checklist section
+  attachmentARiskLevels?: Partial<Record<AttachmentABackendSection, string>>;
   
   // Approval signatures
   preparedBy?: string;
@@ -119,12 +145,49 @@ export interface MTDocumentData {
   approvedDate?: string;
 }
 
+// An uploaded site DOCX template and what was found in it
+export interface MTTemplateInfo {
+  name: string;
+  uploadedAt: string;
+  // Raw placeholder commands, e.g. "projectNumber" or "FOR doc IN designInputDocuments"
+  placeholders: string[];
+  // Placeholders that do not match any MT field and would fail to fill
+  unknownPlaceholders: string[];
+}
+
+// Outcome of reading a filled MT PDF back into the document
+export interface MTPdfImportReport {
+  fileName: string;
+  appliedFields: string[];
+  // Fields where the PDF disagrees with a value already in the MT
+  conflicts: Array<{ field: string; currentValue: string; pdfValue: string; applied: boolean }>;
+  unknownFields: string[];
+  invalidFields: Array<{ field: string; value: string; reason: string }>;
+}
+
+// Everything one traveler consists of, so each chat can own its own document
+export interface MTDocumentState {
+  data: Partial<MTDocumentData>;
+  provenance: MTProvenanceMap;
+  revisions: MTSnapshot[];
+}
+
+export interface MTDocumentReference {
+  documentType?: string;
+  documentNumber?: string;
+  title?: string;
+  revision?: string;
+}
+
 export interface ChecklistItem {
   description: string;
   status: 'Complete' | 'Pending' | 'N/A';
   comments?: string;
   reviewer?: string;
   date?: string;
+  required?: boolean;
+  // Backend checklist section (A1-A5) the item was mapped from
+  sourceSection?: AttachmentABackendSection;
 }
 
 export interface MTAnalysisResponse {
@@ -137,8 +200,28 @@ export interface MTAnalysisResponse {
   hazardAnalysis?: any;
   riskAssessment?: any;
   attachmentAResults?: any;
+  // A1-A5 sections as returned by mtAnalyzerAPI
+  attachmentAChecklist?: Record<string, unknown>;
 }
 
+// A possible value for a field paired with where it would come from
+type MTFieldCandidate = [unknown, MTFieldOrigin];
+
+// Where the working document and the DOCX template lived before IndexedDB; read once, then removed
+const LEGACY_DRAFT_STORAGE_KEY = 'mtDocumentDraft';
+const LEGACY_TEMPLATE_STORAGE_KEY = 'mtDocxTemplate';
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Provenance recorded for fields that arrive without an explicit origin
+const SOURCE_ORIGINS: Record<MTUpdateSource, MTFieldOrigin> = {
+  chat: 'chat',
+  questionnaire: 'questionnaire',
+  manual: 'manual',
+  analysis: 'backend',
+  // Filled in by an engineer offline
+  'pdf-import': 'manual'
+};
+
 class MTDocumentService {
   private static instance: MTDocumentService;
   
@@ -146,11 +229,21 @@ class MTDocumentService {
   private formConfig: MTFormConfig = {};
   private progressCallbacks: ((progress: number) => void)[] = [];
   private documentPreviewCallbacks: ((preview: string) => void)[] = [];
+  private documentChangeCallbacks = new Set<(state: MTDocumentState) => void>();
   private templateBuffer: ArrayBuffer | null = null;
+  private templateInfo: MTTemplateInfo | null = null;
+  // Settles once the saved template has been read back; set or cleared since then wins over it
+  private templateRestored: Promise<void> = Promise.resolve();
+  private templateChanged = false;
+  private revisionStore = new MTRevisionStore();
+  private provenance: MTProvenanceMap = {};
+  private highlightProvenance = true;
 
   private constructor() {
     // Initialize with quick config, then load dynamic config
     this.formConfig = dynamicFormConfig.getQuickConfig();
+    this.restoreLegacyDraft();
+    this.templateRestored = this.restoreTemplate();
     this.setDefaultFormConfig().catch(error => {
       console.warn('Could not load dynamic form config:', error);
     });
@@ -184,19 +277,90 @@ class MTDocumentService {
     return MTDocumentService.instance;
   }
 
-  // Load the DOCX template for document generation
-  async loadTemplate(): Promise<void> {
-    if (this.templateBuffer) return;
+  // Use an uploaded site DOCX (e.g. the controlled MT-50231 form) for every DOCX export
+  async setTemplate(file: File): Promise<MTTemplateInfo> {
+    const buffer = await file.arrayBuffer();
+    const info = await this.inspectTemplate(file.name, buffer);
+
+    this.templateBuffer = buffer;
+    this.templateInfo = info;
+    this.templateChanged = true;
+    chatStorage.saveTemplate({ info, data: buffer });
+    console.log(`MT template loaded: ${info.name} (${info.placeholders.length} placeholders)`);
+    return info;
+  }
+
+  // Go back to the built-in generated layout
+  clearTemplate(): void {
+    this.templateBuffer = null;
+    this.templateInfo = null;
+    this.templateChanged = true;
+    chatStorage.deleteTemplate();
+  }
+
+  getTemplateInfo(): MTTemplateInfo | null {
+    return this.templateInfo;
+  }
+
+  // The template saved in an earlier session, once it has been read back from browser storage
+  async getSavedTemplateInfo(): Promise<MTTemplateInfo | null> {
+    await this.templateRestored;
+    return this.templateInfo;
+  }
+
+  // List the template's placeholders and flag those the MT data cannot fill
+  private async inspectTemplate(name: string, buffer: ArrayBuffer): Promise<MTTemplateInfo> {
+    const { listCommands } = await import('docx-templates');
+    const { buildMTTemplateContext, MT_TEMPLATE_DELIMITER } = await import('../utils/mtTemplateContext');
 
+    let commands;
     try {
-      // Create template dynamically using our MT template creator
-      const { createMTTemplate } = await import('../utils/createMTTemplate');
-      const templateBlob = await createMTTemplate();
-      this.templateBuffer = await templateBlob.arrayBuffer();
-      console.log('MT template loaded successfully');
+      commands = await listCommands(buffer, MT_TEMPLATE_DELIMITER);
+    } catch (error) {
+      throw new Error(`${name} is not a valid DOCX template: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const knownFields = new Set(Object.keys(buildMTTemplateContext({})));
+    const unknownPlaceholders = commands
+      .map(command => {
+        const code = command.code.trim();
+        if (command.type === 'INS' && /^[A-Za-z_]\w*$/.test(code)) return code;
+        // FOR loops must iterate over one of the context lists
+        const loop = command.type === 'FOR' ? code.match(/^\w+\s+IN\s+([A-Za-z_]\w*)$/i) : null;
+        return loop ? loop[1] : undefined;
+      })
+      .filter((field): field is string => !!field && !knownFields.has(field));
+
+    return {
+      name,
+      uploadedAt: new Date().toISOString(),
+      placeholders: commands.map(command => command.raw),
+      unknownPlaceholders: Array.from(new Set(unknownPlaceholders))
+    };
+  }
+
+  // The uploaded template is kept across sessions so it only has to be uploaded once. One still
+  // in localStorage is moved to IndexedDB; the old copy stays until the move succeeds.
+  private async restoreTemplate(): Promise<void> {
+    if (typeof window === 'undefined') return;
+    try {
+      let saved = await chatStorage.loadTemplate();
+      const legacy = localStorage.getItem(LEGACY_TEMPLATE_STORAGE_KEY);
+      if (legacy !== null) {
+        if (!saved) {
+          const { info, data } = JSON.parse(legacy);
+          saved = { info, data: Uint8Array.from(atob(data), (char: string) => char.charCodeAt(0)).buffer };
+        }
+        if (await chatStorage.saveTemplate(saved)) {
+          localStorage.removeItem(LEGACY_TEMPLATE_STORAGE_KEY);
+        }
+      }
+      if (saved && !this.templateChanged) {
+        this.templateBuffer = saved.data;
+        this.templateInfo = saved.info;
+      }
     } catch (error) {
-      console.error('Error loading MT template:', error);
-      throw new Error('Failed to load document template');
+      console.error('Failed to load saved MT template:', error);
     }
   }
 
@@ -206,6 +370,14 @@ class MTDocumentService {
   }
 
   // Subscribe to document preview updates  
+  // Called after every change to the document (not when another document is loaded)
+  onDocumentChange(callback: (state: MTDocumentState) => void): () => void {
+    this.documentChangeCallbacks.add(callback);
+    return () => {
+      this.documentChangeCallbacks.delete(callback);
+    };
+  }
+
   onDocumentPreview(callback: (preview: string) => void): void {
     this.documentPreviewCallbacks.push(callback);
   }
@@ -220,24 +392,21 @@ class MTDocumentService {
     return { ...this.formConfig };
   }
 
-  // Calculate completion progress based on filled fields
+  // Calculate completion progress from the required fields in the validation schema
   calculateProgress(): number {
-    const requiredFields = [
-      'projectNumber', 'title', 'facility', 'submittedBy', 'description',
-      'justification', 'mtRequired', 'mtRequiredReason', 'designType'
-    ];
-    
-    const filledFields = requiredFields.filter(field => 
-      this.documentData[field as keyof MTDocumentData] !== undefined && 
-      this.documentData[field as keyof MTDocumentData] !== ''
-    );
-    
-    return Math.round((filledFields.length / requiredFields.length) * 100);
+    return mtValidationService.calculateCompleteness(this.documentData);
+  }
+
+  // Validate the current document against the MT field schema and consistency rules
+  validateDocument(): MTValidationResult {
+    return mtValidationService.validate(this.documentData);
   }
 
   // Generate HTML preview of the document using dynamic configuration
   generatePreviewHTML(): string {
     const data = this.documentData;
+    const validation = this.validateDocument();
+    const provenance: MTProvenanceMap = this.highlightProvenance ? this.provenance : {};
     
     return `
     <style>
@@ -305,6 +474,47 @@ class MTDocumentService {
         font-size: 8pt;
         margin-left: 16px;
       }
+      .mt-invalid-field {
+        outline: 2px dashed #dc2626;
+        outline-offset: 1px;
+        background-color: #fef2f2;
+        min-width: 40px;
+        display: inline-block;
+      }
+      .mt-warning-field {
+        outline: 2px dashed #d97706;
+        outline-offset: 1px;
+        background-color: #fffbeb;
+        min-width: 40px;
+        display: inline-block;
+      }
+      .mt-ai-field {
+        background-color: #dbeafe;
+        border-bottom: 2px dotted #2563eb;
+      }
+      .mt-default-field {
+        background-color: #f3f4f6;
+        border-bottom: 2px dotted #6b7280;
+        font-style: italic;
+      }
+      .mt-editing [data-mt-edit="text"] {
+        display: inline-block;
+        min-width: 60px;
+        min-height: 1.2em;
+        outline: 1px dashed #93c5fd;
+        cursor: text;
+      }
+      .mt-editing [data-mt-edit="text"]:focus {
+        outline: 2px solid #2563eb;
+        background-color: #eff6ff;
+      }
+      .mt-editing [data-mt-edit="choice"] {
+        cursor: pointer;
+        border-radius: 3px;
+      }
+      .mt-editing [data-mt-edit="choice"]:hover {
+        background-color: #dbeafe;
+      }
       .clearfix::after {
         content: "";
         display: table;
@@ -329,6 +539,9 @@ class MTDocumentService {
         </p>
       </div>
       
+      ${this.renderValidationSummary(validation)}
+      ${this.highlightProvenance ? this.renderProvenanceLegend() : ''}
+      
       <!-- Header with form number and title -->
       <div class="mt-form-header">${this.formConfig.formNumber} ${this.formConfig.formRevision} ${this.formConfig.formDate} 1 of ${this.formConfig.pageCount}</div>
       
@@ -354,13 +567,13 @@ class MTDocumentService {
       <table class="mt-table">
         <tr>
           <td class="mt-header-cell" style="width: 15%;">1. MT No:</td>
-          <td style="width: 15%;">${this.formatFieldValue(data.mtNumber, '')}</td>
+          <td style="width: 15%;">${this.formatFieldValue(data.mtNumber, '', validation.byField.mtNumber, provenance.mtNumber, 'mtNumber')}</td>
           <td class="mt-header-cell" style="width: 10%;">Rev.</td>
-          <td style="width: 60%;"></td>
+          <td style="width: 60%;">${this.formatFieldValue(data.revision, '')}</td>
         </tr>
         <tr>
           <td class="mt-header-cell">2. Title:</td>
-          <td colspan="3">${this.formatFieldValue(data.title, '')}</td>
+          <td colspan="3">${this.formatFieldValue(data.title, '', validation.byField.title, provenance.title, 'title')}</td>
         </tr>
       </table>
 
@@ -370,22 +583,22 @@ class MTDocumentService {
       <table class="mt-table">
         <tr>
           <td class="mt-header-cell" style="width: 40%;">3. Requested Completion Date (Optional):</td>
-          <td style="width: 25%;">${this.formatFieldValue(data.requestedCompletionDate, '')}</td>
+          <td style="width: 25%;">${this.formatFieldValue(data.requestedCompletionDate, '', validation.byField.requestedCompletionDate, provenance.requestedCompletionDate, 'requestedCompletionDate')}</td>
           <td class="mt-header-cell" style="width: 20%;">4. CACN (optional)</td>
-          <td style="width: 15%;">${this.formatFieldValue(data.cacn, '')}</td>
+          <td style="width: 15%;">${this.formatFieldValue(data.cacn, '', validation.byField.cacn, provenance.cacn, 'cacn')}</td>
         </tr>
         <tr>
           <td class="mt-header-cell">5. Project Number: <span class="mt-checkbox">☐</span></td>
-          <td>${this.formatFieldValue(data.projectNumber, '')}</td>
+          <td>${this.formatFieldValue(data.projectNumber, '', validation.byField.projectNumber, provenance.projectNumber, 'projectNumber')}</td>
           <td class="mt-header-cell">6. Design Type:</td>
           <td class="mt-header-cell">7. Project Type:</td>
         </tr>
         <tr>
           <td colspan="2"></td>
           <td>
-            ${this.renderDesignTypeCheckboxes(data.designType)}
+            ${this.decorateField(this.renderDesignTypeCheckboxes(data.designType, 'designType'), validation.byField.designType, provenance.designType)}
           </td>
-          <td>${this.formatFieldValue(data.projectType, '')}</td>
+          <td>${this.formatFieldValue(data.projectType, '', validation.byField.projectType, provenance.projectType, 'projectType')}</td>
         </tr>
       </table>
 
@@ -400,9 +613,9 @@ class MTDocumentService {
           <td class="mt-header-cell" style="width: 34%;">c. Related Equipment ID Nos. (EIN) <span class="mt-checkbox">☐</span> N/A</td>
         </tr>
         <tr>
-          <td style="height: 40px; vertical-align: top;">${this.formatFieldValue(data.relatedBuildings, '')}</td>
-          <td style="height: 40px; vertical-align: top;">${this.formatFieldValue(data.relatedSystems, '')}</td>
-          <td style="height: 40px; vertical-align: top;">${this.formatFieldValue(data.relatedEquipment, '')}</td>
+          <td style="height: 40px; vertical-align: top;">${this.formatFieldValue(data.relatedBuildings, '', validation.byField.relatedBuildings, provenance.relatedBuildings, 'relatedBuildings')}</td>
+          <td style="height: 40px; vertical-align: top;">${this.formatFieldValue(data.relatedSystems, '', validation.byField.relatedSystems, provenance.relatedSystems, 'relatedSystems')}</td>
+          <td style="height: 40px; vertical-align: top;">${this.formatFieldValue(data.relatedEquipment, '', validation.byField.relatedEquipment, provenance.relatedEquipment, 'relatedEquipment')}</td>
         </tr>
       </table>
 
@@ -412,7 +625,7 @@ class MTDocumentService {
           <td class="mt-header-cell">9. Problem Description</td>
         </tr>
         <tr>
-          <td style="height: 80px; vertical-align: top;">${this.formatFieldValue(data.problemDescription || data.description, '')}</td>
+          <td style="height: 80px; vertical-align: top;">${this.formatFieldValue(data.problemDescription || data.description, '', validation.byField.problemDescription, provenance.problemDescription, 'problemDescription')}</td>
         </tr>
       </table>
 
@@ -422,7 +635,7 @@ class MTDocumentService {
           <td class="mt-header-cell">10. Justification</td>
         </tr>
         <tr>
-          <td style="height: 80px; vertical-align: top;">${this.formatFieldValue(data.justification, '')}</td>
+          <td style="height: 80px; vertical-align: top;">${this.formatFieldValue(data.justification, '', validation.byField.justification, provenance.justification, 'justification')}</td>
         </tr>
       </table>
 
@@ -437,13 +650,13 @@ class MTDocumentService {
         </tr>
         <tr>
           <td>
-            ${this.renderCheckboxes(data.projectDesignReviewRequired, ['Yes', 'No', 'N/A'])}
+            ${this.decorateField(this.renderCheckboxes(data.projectDesignReviewRequired, ['Yes', 'No', 'N/A'], 'projectDesignReviewRequired'), validation.byField.projectDesignReviewRequired, provenance.projectDesignReviewRequired)}
           </td>
           <td>
-            ${this.renderCheckboxes(data.majorModificationEvaluationRequired, ['Yes', 'No', 'N/A'])}
+            ${this.decorateField(this.renderCheckboxes(data.majorModificationEvaluationRequired, ['Yes', 'No', 'N/A'], 'majorModificationEvaluationRequired'), validation.byField.majorModificationEvaluationRequired, provenance.majorModificationEvaluationRequired)}
           </td>
           <td>
-            ${this.renderCheckboxes(data.safetyInDesignStrategyRequired, ['Yes', 'No', 'N/A'])}
+            ${this.decorateField(this.renderCheckboxes(data.safetyInDesignStrategyRequired, ['Yes', 'No', 'N/A'], 'safetyInDesignStrategyRequired'), validation.byField.safetyInDesignStrategyRequired, provenance.safetyInDesignStrategyRequired)}
           </td>
         </tr>
       </table>
@@ -456,7 +669,7 @@ class MTDocumentService {
           <td class="mt-header-cell">12. Proposed Solution</td>
         </tr>
         <tr>
-          <td style="height: 100px; vertical-align: top;">${this.formatFieldValue(data.proposedSolution, '')}</td>
+          <td style="height: 100px; vertical-align: top;">${this.formatFieldValue(data.proposedSolution, '', validation.byField.proposedSolution, provenance.proposedSolution, 'proposedSolution')}</td>
         </tr>
       </table>
 
@@ -468,7 +681,7 @@ class MTDocumentService {
           <td class="mt-header-cell">13. Design Inputs <span class="mt-checkbox">☐</span> N/A</td>
         </tr>
         <tr>
-          <td style="height: 60px; vertical-align: top;">${this.formatFieldValue(data.designInputs, '')}</td>
+          <td style="height: 60px; vertical-align: top;">${this.formatFieldValue(data.designInputs, '', validation.byField.designInputs, provenance.designInputs, 'designInputs')}</td>
         </tr>
       </table>
 
@@ -489,7 +702,7 @@ class MTDocumentService {
           <td class="mt-header-cell">14. Other Design Input Considerations:</td>
         </tr>
         <tr>
-          <td style="height: 100px; vertical-align: top;">${this.formatFieldValue(data.designInputConsiderations, '')}</td>
+          <td style="height: 100px; vertical-align: top;">${this.formatFieldValue(data.designInputConsiderations, '', validation.byField.designInputConsiderations, provenance.designInputConsiderations, 'designInputConsiderations')}</td>
         </tr>
       </table>
 
@@ -501,9 +714,9 @@ class MTDocumentService {
         <table class="mt-table">
           <tr>
             <td class="mt-header-cell" style="width: 15%;">MT No:</td>
-            <td style="width: 15%;">${this.formatFieldValue(data.mtNumber, '')}</td>
+            <td style="width: 15%;">${this.formatFieldValue(data.mtNumber, '', validation.byField.mtNumber, provenance.mtNumber, 'mtNumber')}</td>
             <td class="mt-header-cell" style="width: 10%;">Rev.</td>
-            <td style="width: 60%;"></td>
+            <td style="width: 60%;">${this.formatFieldValue(data.revision, '')}</td>
           </tr>
         </table>
       </div>
@@ -511,9 +724,9 @@ class MTDocumentService {
       <!-- Section V: Classification -->
       <table class="mt-table">
         <tr>
-          <td class="mt-header-cell" style="width: 33%;">15. Preliminary Safety<br>Classification:<br>${this.renderCheckboxes(data.preliminarySafetyClassification, ['SC', 'SS', 'GS', 'N/A'])}</td>
-          <td class="mt-header-cell" style="width: 33%;">15a. Environmental Risk:<br>(TFC-ENG-DESIGN-C-52 Att. D)<br>${this.renderCheckboxes(data.environmentalRisk, ['Yes', 'No'])}</td>
-          <td class="mt-header-cell" style="width: 34%;">15b. Radiological Risk:<br>(TFC-ENG-DESIGN-C-52 Att. D)<br>${this.renderCheckboxes(data.radiologicalRisk, ['Yes', 'No'])}</td>
+          <td class="mt-header-cell" style="width: 33%;">15. Preliminary Safety<br>Classification:<br>${this.decorateField(this.renderCheckboxes(data.preliminarySafetyClassification, ['SC', 'SS', 'GS', 'N/A'], 'preliminarySafetyClassification'), validation.byField.preliminarySafetyClassification, provenance.preliminarySafetyClassification)}</td>
+          <td class="mt-header-cell" style="width: 33%;">15a. Environmental Risk:<br>(TFC-ENG-DESIGN-C-52 Att. D)<br>${this.decorateField(this.renderCheckboxes(data.environmentalRisk, ['Yes', 'No'], 'environmentalRisk'), validation.byField.environmentalRisk, provenance.environmentalRisk)}</td>
+          <td class="mt-header-cell" style="width: 34%;">15b. Radiological Risk:<br>(TFC-ENG-DESIGN-C-52 Att. D)<br>${this.decorateField(this.renderCheckboxes(data.radiologicalRisk, ['Yes', 'No'], 'radiologicalRisk'), validation.byField.radiologicalRisk, provenance.radiologicalRisk)}</td>
         </tr>
       </table>
 
@@ -523,8 +736,8 @@ class MTDocumentService {
           <td class="mt-header-cell" style="width: 50%;">18. Approval Designators</td>
         </tr>
         <tr>
-          <td style="height: 40px;">${this.formatFieldValue(data.hazardCategory, '')}</td>
-          <td style="height: 40px;">${this.formatFieldValue(data.approvalDesignators, '')}</td>
+          <td style="height: 40px;">${this.formatFieldValue(data.hazardCategory, '', validation.byField.hazardCategory, provenance.hazardCategory, 'hazardCategory')}</td>
+          <td style="height: 40px;">${this.formatFieldValue(data.approvalDesignators, '', validation.byField.approvalDesignators, provenance.approvalDesignators, 'approvalDesignators')}</td>
         </tr>
       </table>
 
@@ -625,20 +838,148 @@ class MTDocumentService {
       <div style="text-align: right; font-size: 8pt; margin-top: 16px;">
         ${this.formConfig.pageCount} ${this.formConfig.formReference}
       </div>
+
+      ${this.renderAttachmentA(data)}
     </div>
     `;
   }
 
+  // Attachment A checklist on its own page, one table per category
+  private renderAttachmentA(data: Partial<MTDocumentData>): string {
+    const attachmentA = data.attachmentA;
+    if (!attachmentA) return '';
+
+    const overall = calculateAttachmentACompletion(attachmentA);
+    const riskLevels = Object.entries(data.attachmentARiskLevels || {})
+      .map(([section, risk]) => `${section}: ${this.escapeHtml(risk)}`)
+      .join(' | ');
+
+    const categories = ATTACHMENT_A_CATEGORIES.map(category => {
+      const items = attachmentA[category.key] || [];
+      if (items.length === 0) return '';
+      const completion = calculateChecklistCompletion(items);
+      const rows = items.map((item, index) => `
+        <tr>
+          <td style="width: 4%;">${index + 1}</td>
+          <td style="width: 36%;">${this.escapeHtml(item.description)}${item.required ? ' <strong>*</strong>' : ''}${item.sourceSection ? ` <span style="color: #6b7280;">(${item.sourceSection})</span>` : ''}</td>
+          <td style="width: 22%;">${this.renderCheckboxes(item.status, ['Complete', 'Pending', 'N/A'])}</td>
+          <td style="width: 13%;">${this.escapeHtml(item.reviewer || '')}</td>
+          <td style="width: 10%;">${this.escapeHtml(item.date || '')}</td>
+          <td style="width: 15%;">${this.escapeHtml(item.comments || '')}</td>
+        </tr>`).join('');
+
+      return `
+      <table class="mt-table">
+        <tr>
+          <td class="mt-header-cell" colspan="6">${category.title} - ${completion.percentage}% complete (${completion.complete} of ${completion.total - completion.notApplicable})</td>
+        </tr>
+        <tr>
+          <td class="mt-header-cell">#</td>
+          <td class="mt-header-cell">Item</td>
+          <td class="mt-header-cell">Status</td>
+          <td class="mt-header-cell">Reviewer</td>
+          <td class="mt-header-cell">Date</td>
+          <td class="mt-header-cell">Comments</td>
+        </tr>
+        ${rows}
+      </table>`;
+    }).join('');
+
+    return `
+      <div style="page-break-before: always; margin-top: 20px;">
+        <div class="mt-section-header">ATTACHMENT A - DESIGN VERIFICATION CHECKLIST</div>
+        <p style="font-size: 9pt; margin: 4px 0 8px 0;">
+          Overall completion: <strong>${overall.percentage}%</strong> (${overall.complete} complete, ${overall.pending} pending, ${overall.notApplicable} N/A)
+          ${riskLevels ? `<br>Backend risk levels: ${riskLevels}` : ''}
+          <br>* Required item
+        </p>
+        ${categories}
+      </div>`;
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
   // Helper function to format field values with styling
-  private formatFieldValue(value: string | undefined, placeholder: string): string {
+  // Passing `field` tags the value so MTDocumentModal can edit it in place. Values are
+  // escaped: edits, filled PDFs and imported chats can all carry markup.
+  private formatFieldValue(
+    value: string | undefined,
+    placeholder: string,
+    issues?: MTValidationIssue[],
+    provenance?: MTFieldProvenance,
+    field?: keyof MTDocumentData
+  ): string {
+    const editAttributes = field ? ` data-mt-field="${field}" data-mt-edit="text"` : '';
     if (value && value.trim()) {
-      return `<span class="mt-filled-field">${value}</span>`;
+      return this.decorateField(`<span class="mt-filled-field"${editAttributes}>${this.escapeHtml(value)}</span>`, issues, provenance);
+    }
+    return this.decorateField(`<span class="mt-placeholder-field"${editAttributes}>${placeholder}</span>`, issues);
+  }
+
+  // Shade AI-guessed or defaulted values, then outline fields with validation issues
+  // in red (errors) or amber (warnings). Both explanations end up in the tooltip.
+  private decorateField(html: string, issues?: MTValidationIssue[], provenance?: MTFieldProvenance): string {
+    const status = getVerificationStatus(provenance);
+    if (provenance && status !== 'verified') {
+      const className = status === 'defaulted' ? 'mt-default-field' : 'mt-ai-field';
+      html = `<span class="${className}" title="${this.escapeHtml(describeProvenance(provenance))}">${html}</span>`;
     }
-    return `<span class="mt-placeholder-field">${placeholder}</span>`;
+
+    if (!issues || issues.length === 0) return html;
+    const className = issues.some(issue => issue.severity === 'error') ? 'mt-invalid-field' : 'mt-warning-field';
+    const title = this.escapeHtml(issues.map(issue => issue.message).join('; '));
+    return `<span class="${className}" title="${title}">${html}</span>`;
+  }
+
+  // Key for the provenance shading, with a count of fields still needing verification
+  private renderProvenanceLegend(): string {
+    const statuses = Object.values(this.provenance).map(provenance => getVerificationStatus(provenance));
+    const aiGuessed = statuses.filter(status => status === 'ai-guessed').length;
+    const defaulted = statuses.filter(status => status === 'defaulted').length;
+
+    return `
+      <div style="border: 1px solid #d1d5db; padding: 8px 12px; margin-bottom: 16px; border-radius: 6px; font-size: 11px; color: #374151;">
+        <strong>Field sources:</strong>
+        <span class="mt-ai-field" style="padding: 0 4px; margin-left: 6px;">AI-guessed (${aiGuessed})</span>
+        <span class="mt-default-field" style="padding: 0 4px; margin-left: 6px;">Default value (${defaulted})</span>
+        <span style="margin-left: 6px;">Hover a field to see its source and confidence.</span>
+      </div>`;
+  }
+
+  // Render the validation results grouped by section above the form
+  private renderValidationSummary(validation: MTValidationResult): string {
+    if (validation.errors.length === 0 && validation.warnings.length === 0) {
+      return `
+      <div style="background-color: #ecfdf5; border: 1px solid #10b981; padding: 8px 12px; margin-bottom: 16px; border-radius: 6px; color: #065f46; font-size: 11px;">
+        ✅ <strong>Validation passed</strong> - no missing fields or conflicts detected.
+      </div>`;
+    }
+
+    const sections = (Object.keys(validation.bySection) as MTSection[]).map(section => {
+      const items = (validation.bySection[section] || []).map(issue => `
+          <li style="color: ${issue.severity === 'error' ? '#b91c1c' : '#b45309'};">
+            ${issue.severity === 'error' ? '✖' : '⚠'} ${this.escapeHtml(issue.message)}
+          </li>`).join('');
+      return `
+        <div style="margin-top: 6px;">
+          <strong>${MT_SECTION_TITLES[section]}</strong>
+          <ul style="margin: 2px 0 0 16px; padding: 0;">${items}</ul>
+        </div>`;
+    }).join('');
+
+    return `
+      <div style="background-color: #fef2f2; border: 2px solid ${validation.isValid ? '#f59e0b' : '#dc2626'}; padding: 12px; margin-bottom: 16px; border-radius: 6px; font-size: 11px;">
+        <strong style="color: ${validation.isValid ? '#92400e' : '#991b1b'}; font-size: 13px;">
+          VALIDATION: ${validation.errors.length} error(s), ${validation.warnings.length} warning(s)${validation.isValid ? '' : ' - export blocked until errors are resolved'}
+        </strong>
+        ${sections}
+      </div>`;
   }
 
   // Enhanced helper function to render checkbox options with better styling
-  private renderCheckboxes(selectedValue?: string, options: string[] = ['Yes', 'No', 'N/A']): string {
+  private renderCheckboxes(selectedValue?: string, options: string[] = ['Yes', 'No', 'N/A'], field?: keyof MTDocumentData): string {
     return options.map(option => {
       const isSelected = selectedValue === option;
       const checkbox = isSelected 
@@ -647,12 +988,12 @@ class MTDocumentService {
       const textStyle = isSelected 
         ? 'font-weight: bold; color: #059669;' 
         : 'color: #374151;';
-      return `${checkbox} <span style="${textStyle}">${option}</span>`;
+      return this.wrapChoice(`${checkbox} <span style="${textStyle}">${option}</span>`, option, field);
     }).join(' ');
   }
 
   // Enhanced helper function to render design type checkboxes
-  private renderDesignTypeCheckboxes(selectedDesignType?: string | number): string {
+  private renderDesignTypeCheckboxes(selectedDesignType?: string | number, field?: keyof MTDocumentData): string {
     const types = ['I', 'II', 'III', 'IV', 'V', 'VI'];
     const selectedNumber = this.extractDesignTypeNumber(selectedDesignType);
     
@@ -664,10 +1005,16 @@ class MTDocumentService {
       const textStyle = isSelected 
         ? 'font-weight: bold; color: #059669;' 
         : 'color: #374151;';
-      return `${checkbox} <span style="${textStyle}">${type}</span>`;
+      return this.wrapChoice(`${checkbox} <span style="${textStyle}">${type}</span>`, type, field);
     }).join(' ');
   }
 
+  // Tag a checkbox option so MTDocumentModal can select it in edit mode
+  private wrapChoice(html: string, value: string, field?: keyof MTDocumentData): string {
+    if (!field) return html;
+    return `<span data-mt-field="${field}" data-mt-edit="choice" data-mt-value="${value}">${html}</span>`;
+  }
+
   // Extract design type number from string like "Type I - New Design" or number like 1
   private extractDesignTypeNumber(designType?: string | number): string {
     if (!designType) return '';
@@ -758,99 +1105,315 @@ class MTDocumentService {
     return rows.join('');
   }
 
-  // Update document data progressively
-  updateDocument(data: Partial<MTDocumentData>): void {
-    console.log('🔍 MT Document Service - Received data:', data);
-    console.log('🔍 MT Document Service - Current documentData before update:', this.documentData);
-    
+  // Update document data progressively and snapshot the result in the revision history.
+  // Fields missing from `provenance` are attributed to `source` with its default confidence.
+  updateDocument(
+    data: Partial<MTDocumentData>,
+    source: MTUpdateSource = 'chat',
+    provenance: MTProvenanceMap = {}
+  ): MTSnapshot | null {
     this.documentData = { ...this.documentData, ...data };
+    (Object.keys(data) as Array<keyof MTDocumentData>)
+      .filter(field => data[field] !== undefined)
+      .forEach(field => {
+        if (data[field] === '' || data[field] === null) {
+          delete this.provenance[field];
+        } else {
+          this.provenance[field] = provenance[field] || createProvenance(SOURCE_ORIGINS[source]);
+        }
+      });
+    const snapshot = this.revisionStore.record(this.documentData, source, { provenance: this.provenance });
     
-    console.log('🔍 MT Document Service - Updated documentData:', this.documentData);
-    
+    this.notifyListeners();
+    return snapshot;
+  }
+
+  // Apply a correction typed into the preview; the raw text is normalized to the field's type
+  applyManualEdit(field: keyof MTDocumentData, rawValue: string): void {
+    const value = rawValue.trim();
+    let normalized: MTDocumentData[keyof MTDocumentData] = value;
+
+    if (field === 'designType') {
+      const numerals = ['I', 'II', 'III', 'IV', 'V', 'VI'];
+      const index = numerals.indexOf(value.toUpperCase());
+      normalized = index >= 0 ? this.getDesignTypeString(index + 1) : value;
+    } else if (field === 'mtRequired') {
+      normalized = value.toLowerCase() === 'yes' || value.toLowerCase() === 'true';
+    }
+
+    this.updateDocument({ [field]: normalized }, 'manual');
+  }
+
+  /**
+   * Bring an offline-filled MT PDF back into the document. Blank PDF fields are ignored and
+   * values that disagree with the current MT are only taken when overwriteConflicts is set.
+   */
+  async importFilledPdf(file: File, options: { overwriteConflicts?: boolean } = {}): Promise<MTPdfImportReport> {
+    const { readFillableMTForm } = await import('../utils/importFillableForm');
+    const result = await readFillableMTForm(await file.arrayBuffer());
+
+    const changes: Partial<MTDocumentData> = {};
+    const conflicts: MTPdfImportReport['conflicts'] = [];
+    const format = (value: unknown) => value === undefined || value === null ? '' : String(value);
+
+    const compare = (field: string, currentValue: unknown, pdfValue: unknown): boolean => {
+      const current = format(currentValue).trim();
+      const incoming = format(pdfValue).trim();
+      if (current === incoming) return false;
+      if (current) {
+        conflicts.push({ field, currentValue: current, pdfValue: incoming, applied: !!options.overwriteConflicts });
+        return !!options.overwriteConflicts;
+      }
+      return true;
+    };
+
+    (Object.keys(result.data) as Array<keyof MTDocumentData>).forEach(field => {
+      if (field === 'riskAssessment') return;
+      // Numeric design types are exported as their full name
+      const current = field === 'designType' && typeof this.documentData.designType === 'number'
+        ? this.getDesignTypeString(this.documentData.designType)
+        : this.documentData[field];
+      if (compare(field, current, result.data[field])) {
+        (changes as Record<string, unknown>)[field] = result.data[field];
+      }
+    });
+
+    // Risk levels are compared one by one and merged into the existing assessment
+    const pdfRisk = result.data.riskAssessment || {};
+    const currentRisk: Partial<NonNullable<MTDocumentData['riskAssessment']>> = this.documentData.riskAssessment || {};
+    const riskChanges = (Object.keys(pdfRisk) as Array<keyof typeof pdfRisk>)
+      .filter(key => compare(`riskAssessment.${key}`, currentRisk[key], pdfRisk[key]));
+    if (riskChanges.length > 0) {
+      changes.riskAssessment = {
+        overallRisk: '', safetyRisk: '', environmentalRisk: '', operationalRisk: '',
+        ...currentRisk,
+        ...Object.fromEntries(riskChanges.map(key => [key, pdfRisk[key]]))
+      };
+    }
+
+    if (Object.keys(changes).length > 0) {
+      this.updateDocument(changes, 'pdf-import');
+    }
+
+    return {
+      fileName: file.name,
+      appliedFields: [
+        ...Object.keys(changes).filter(field => field !== 'riskAssessment'),
+        ...riskChanges.map(key => `riskAssessment.${key}`)
+      ],
+      conflicts,
+      unknownFields: result.unknownFields,
+      invalidFields: result.invalidFields
+    };
+  }
+
+  // Issue the next formal revision (0 -> 1 -> 2 ...) of the current document
+  bumpRevision(note?: string): string {
+    const current = parseInt(this.documentData.revision || '0', 10);
+    const nextRevision = String(Number.isNaN(current) ? 1 : current + 1);
+
+    this.documentData = { ...this.documentData, revision: nextRevision };
+    this.revisionStore.record(this.documentData, 'manual', { isRevisionIssue: true, note, provenance: this.provenance });
+    this.notifyListeners();
+    return nextRevision;
+  }
+
+  /**
+   * Swap the fields one update wrote for new values, e.g. when the user picks another variant
+   * of a chat reply. Fields written by `replacedId` go back to their value at `baseId` (the
+   * snapshot that update started from; null for an empty MT), then `data` is applied. Fields
+   * changed by any later update (another turn, an inline edit, a PDF import...) keep their
+   * current value. Without `replacedId` nothing is undone and `baseId` marks "later".
+   */
+  replaceUpdate(
+    baseId: string | null,
+    replacedId: string | undefined,
+    data: Partial<MTDocumentData>,
+    source: MTUpdateSource = 'chat',
+    provenance: MTProvenanceMap = {}
+  ): MTSnapshot | null {
+    const history = this.revisionStore.getHistory();
+    const boundaryId = replacedId ?? baseId;
+    const boundary = boundaryId ? history.findIndex(snapshot => snapshot.id === boundaryId) : -1;
+    if (boundaryId && boundary < 0) {
+      // The history was reset since; there is nothing left to undo
+      return this.updateDocument(data, source, provenance);
+    }
+
+    const topLevelField = (change: MTFieldChange) => change.path.split(/[.[]/)[0] as keyof MTDocumentData;
+    const changedLater = new Set(history.slice(boundary + 1).flatMap(snapshot => snapshot.changes.map(topLevelField)));
+    const base = baseId ? this.revisionStore.getSnapshot(baseId) : undefined;
+    const undone = new Set(replacedId ? history[boundary].changes.map(topLevelField) : []);
+    const fields = this.documentData as Record<string, unknown>;
+    undone.forEach(field => {
+      if (changedLater.has(field)) return;
+      const baseValue = base?.data[field];
+      const baseProvenance = base?.provenance?.[field];
+      if (baseValue === undefined) delete fields[field];
+      else fields[field] = structuredClone(baseValue);
+      if (baseProvenance) this.provenance[field] = baseProvenance;
+      else delete this.provenance[field];
+    });
+
+    const kept = Object.fromEntries(
+      Object.entries(data).filter(([field]) => !changedLater.has(field as keyof MTDocumentData))
+    ) as Partial<MTDocumentData>;
+    return this.updateDocument(kept, source, provenance);
+  }
+
+  // Most recent recorded update, if any
+  getLatestSnapshot(): MTSnapshot | undefined {
+    return this.revisionStore.getLatest();
+  }
+
+  // Every recorded update, oldest first
+  getRevisionHistory(): MTSnapshot[] {
+    return this.revisionStore.getHistory();
+  }
+
+  // Final snapshot of each formal revision, oldest first
+  getRevisions(): MTSnapshot[] {
+    return this.revisionStore.getRevisions();
+  }
+
+  // Field-level diff between two recorded snapshots
+  diffSnapshots(fromId: string, toId: string): MTFieldChange[] {
+    return this.revisionStore.diff(fromId, toId);
+  }
+
+  // Where a field's current value came from and how confident that source was
+  getFieldProvenance(field: keyof MTDocumentData): MTFieldProvenance | undefined {
+    return this.provenance[field];
+  }
+
+  getProvenance(): MTProvenanceMap {
+    return { ...this.provenance };
+  }
+
+  // Toggle the AI-guessed / defaulted highlighting in the preview
+  setProvenanceHighlighting(enabled: boolean): void {
+    this.highlightProvenance = enabled;
+    this.notifyListeners();
+  }
+
+  isProvenanceHighlightingEnabled(): boolean {
+    return this.highlightProvenance;
+  }
+
+  // Each chat now saves its own MT document. A draft left by an older version is loaded once
+  // so the open chat can adopt it (see ChatInterface_Pure), then dropped from localStorage.
+  private restoreLegacyDraft(): void {
+    if (typeof window === 'undefined') return;
+    try {
+      const saved = localStorage.getItem(LEGACY_DRAFT_STORAGE_KEY);
+      if (saved) {
+        const draft = JSON.parse(saved);
+        this.documentData = draft.data || {};
+        this.provenance = draft.provenance || {};
+      }
+      localStorage.removeItem(LEGACY_DRAFT_STORAGE_KEY);
+    } catch (error) {
+      console.error('Failed to load MT document draft:', error);
+    }
+  }
+
+  // Push the current preview and progress to subscribers
+  private notifyListeners(): void {
     const progress = this.calculateProgress();
     
     // Generate and notify preview update
     const previewHTML = this.generatePreviewHTML();
-    console.log('🔍 MT Document Service - Generated HTML length:', previewHTML.length);
-    console.log('🔍 MT Document Service - HTML preview (first 500 chars):', previewHTML.substring(0, 500));
     
     this.documentPreviewCallbacks.forEach(callback => callback(previewHTML));
     
     // Notify progress update
     this.progressCallbacks.forEach(callback => callback(progress));
-    
-    // Ensure template is loaded for document generation
-    if (!this.templateBuffer) {
-      this.loadTemplate().catch(error => {
-        console.warn('Could not load template:', error);
-      });
-    }
+
+    const state = this.getState();
+    this.documentChangeCallbacks.forEach(callback => callback(state));
     
     console.log(`MT Document Progress: ${progress}% complete`);
   }
 
-  // Convert analysis response to document data with enhanced checkbox logic
-  fromAnalysisResponse(analysis: MTAnalysisResponse, questionnaireData?: any): MTDocumentData {
+  // Convert analysis response to document data with enhanced checkbox logic.
+  // Each field records which source supplied it; analysisOrigin says where `analysis` itself came from.
+  async fromAnalysisResponse(analysis: MTAnalysisResponse, questionnaireData?: any, analysisOrigin: MTFieldOrigin = 'backend'): Promise<MTDocumentData> {
     const now = new Date();
+    const provenance: MTProvenanceMap = {};
+    const pick = <K extends keyof MTDocumentData>(field: K, ...candidates: MTFieldCandidate[]): MTDocumentData[K] =>
+      this.resolveField(provenance, field, candidates, analysis.confidence);
     
     // Extract enhanced document fields from backend
     const documentFields = (analysis as any).documentFields || {};
+    const backendChecklist = this.mapAttachmentAChecklist(analysis.attachmentAChecklist || analysis.attachmentAResults);
+    // The AI fallback costs a backend call, so it only runs when nothing else fills the project type.
+    // A CACN is never generated: without one from the backend or questionnaire it stays empty.
+    const aiProjectType = documentFields.projectType || questionnaireData?.projectType
+      ? undefined
+      : await this.determineProjectType(analysis, questionnaireData);
+    const generatedNumber = `MT-${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
     
     const documentData: MTDocumentData = {
       // Header Information
-      mtNumber: questionnaireData?.mtNumber || `MT-${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`,
-      revision: questionnaireData?.revision || '0',
+      mtNumber: pick('mtNumber', [questionnaireData?.mtNumber, 'questionnaire'], [generatedNumber, 'default']),
+      revision: pick('revision', [questionnaireData?.revision, 'questionnaire'], ['0', 'system']),
       
       // Document Information
-      projectNumber: questionnaireData?.projectNumber || `MT-${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`,
-      title: questionnaireData?.projectTitle || questionnaireData?.title || documentFields.proposedSolution || '[Modification Title - To be determined from analysis]',
-      facility: questionnaireData?.facility || 'Nuclear Facility',
-      submittedBy: questionnaireData?.submittedBy || 'Engineering Department',
-      submissionDate: now.toLocaleDateString(),
-      priority: questionnaireData?.priority || 'High',
-      dueDate: questionnaireData?.dueDate || '[MM/DD/YYYY]',
+      projectNumber: pick('projectNumber', [questionnaireData?.projectNumber, 'questionnaire'], [generatedNumber, 'default']),
+      title: pick('title', [questionnaireData?.projectTitle, 'questionnaire'], [questionnaireData?.title, 'questionnaire'], [documentFields.proposedSolution, 'backend'], ['[Modification Title - To be determined from analysis]', 'default']),
+      facility: pick('facility', [questionnaireData?.facility, 'questionnaire'], ['Nuclear Facility', 'default']),
+      submittedBy: pick('submittedBy', [questionnaireData?.submittedBy, 'questionnaire'], ['Engineering Department', 'default']),
+      submissionDate: pick('submissionDate', [now.toLocaleDateString(), 'system']),
+      priority: pick('priority', [questionnaireData?.priority, 'questionnaire'], ['High', 'default']),
+      dueDate: pick('dueDate', [questionnaireData?.dueDate, 'questionnaire'], ['[MM/DD/YYYY]', 'default']),
       
       // Section I - Request for Modification (Enhanced with intelligent extraction)
-      requestedCompletionDate: documentFields.estimatedCompletionDate || questionnaireData?.requestedCompletionDate || this.getIntelligentCompletionDate(questionnaireData?.designType || analysis.designType),
-      cacn: documentFields.cacn || questionnaireData?.cacn || this.generateCACN(),
-      projectType: documentFields.projectType || questionnaireData?.projectType || this.determineProjectType(analysis, questionnaireData),
-      relatedBuildings: documentFields.relatedBuildings || questionnaireData?.relatedBuildings || this.determineRelatedBuildings(analysis, questionnaireData),
-      relatedSystems: documentFields.relatedSystems || questionnaireData?.relatedSystems || this.determineRelatedSystems(analysis, questionnaireData),
-      relatedEquipment: documentFields.relatedEquipment || questionnaireData?.relatedEquipment || this.determineRelatedEquipment(analysis, questionnaireData),
-      problemDescription: questionnaireData?.problemDescription || questionnaireData?.description || '[Detailed description of the modification]',
+      requestedCompletionDate: pick('requestedCompletionDate', [documentFields.estimatedCompletionDate, 'backend'], [questionnaireData?.requestedCompletionDate, 'questionnaire'], [this.getIntelligentCompletionDate(questionnaireData?.designType || analysis.designType), 'heuristic']),
+      cacn: pick('cacn', [documentFields.cacn, 'backend'], [questionnaireData?.cacn, 'questionnaire']),
+      projectType: pick('projectType', [documentFields.projectType, 'backend'], [questionnaireData?.projectType, 'questionnaire'], [aiProjectType, 'ai-analysis']),
+      relatedBuildings: pick('relatedBuildings', [documentFields.relatedBuildings, 'backend'], [questionnaireData?.relatedBuildings, 'questionnaire'], [this.determineRelatedBuildings(analysis, questionnaireData), 'heuristic']),
+      relatedSystems: pick('relatedSystems', [documentFields.relatedSystems, 'backend'], [questionnaireData?.relatedSystems, 'questionnaire'], [this.determineRelatedSystems(analysis, questionnaireData), 'heuristic']),
+      relatedEquipment: pick('relatedEquipment', [documentFields.relatedEquipment, 'backend'], [questionnaireData?.relatedEquipment, 'questionnaire'], [this.determineRelatedEquipment(analysis, questionnaireData), 'heuristic']),
+      problemDescription: pick('problemDescription', [questionnaireData?.problemDescription, 'questionnaire'], [questionnaireData?.description, 'questionnaire'], ['[Detailed description of the modification]', 'default']),
       
       // Section II - Required for Design Type 1 Projects (Enhanced checkbox logic)
-      projectDesignReviewRequired: this.mapCheckboxValue(documentFields.projectDesignReviewRequired) || questionnaireData?.projectDesignReviewRequired || 'N/A',
-      majorModificationEvaluationRequired: this.mapCheckboxValue(documentFields.majorModificationEvaluationRequired) || questionnaireData?.majorModificationEvaluationRequired || 'N/A',
-      safetyInDesignStrategyRequired: this.mapCheckboxValue(documentFields.safetyInDesignStrategyRequired) || questionnaireData?.safetyInDesignStrategyRequired || 'N/A',
+      projectDesignReviewRequired: pick('projectDesignReviewRequired', [this.mapCheckboxValue(documentFields.projectDesignReviewRequired), 'backend'], [questionnaireData?.projectDesignReviewRequired, 'questionnaire'], ['N/A', 'default']),
+      majorModificationEvaluationRequired: pick('majorModificationEvaluationRequired', [this.mapCheckboxValue(documentFields.majorModificationEvaluationRequired), 'backend'], [questionnaireData?.majorModificationEvaluationRequired, 'questionnaire'], ['N/A', 'default']),
+      safetyInDesignStrategyRequired: pick('safetyInDesignStrategyRequired', [this.mapCheckboxValue(documentFields.safetyInDesignStrategyRequired), 'backend'], [questionnaireData?.safetyInDesignStrategyRequired, 'questionnaire'], ['N/A', 'default']),
       
       // Scope of Work - Handle long AI responses properly
-      description: questionnaireData?.description || this.truncateText(analysis.analysis, 500),
-      justification: questionnaireData?.justification || this.truncateText(analysis.analysis, 800) || '[Provide justification for the modification]',
-      proposedSolution: documentFields.proposedSolution || questionnaireData?.proposedSolution || questionnaireData?.scopeOfWork || this.extractProposedSolution(analysis, questionnaireData) || '[Detailed description of the modification]',
-      workLocation: questionnaireData?.workLocation || '[Specific location/area]',
+      description: pick('description', [questionnaireData?.description, 'questionnaire'], [this.truncateText(analysis.analysis, 500), analysisOrigin]),
+      justification: pick('justification', [questionnaireData?.justification, 'questionnaire'], [this.truncateText(analysis.analysis, 800), analysisOrigin], ['[Provide justification for the modification]', 'default']),
+      proposedSolution: pick('proposedSolution', [documentFields.proposedSolution, 'backend'], [questionnaireData?.proposedSolution, 'questionnaire'], [questionnaireData?.scopeOfWork, 'questionnaire'], [this.extractProposedSolution(analysis, questionnaireData), 'heuristic'], ['[Detailed description of the modification]', 'default']),
+      workLocation: pick('workLocation', [questionnaireData?.workLocation, 'questionnaire'], ['[Specific location/area]', 'default']),
       
       // Design Input Record (Enhanced with backend data)
-      designInputs: this.generateDesignInputsFromDocuments(documentFields.designInputDocuments) || questionnaireData?.designInputs || 'AI analysis with regulatory compliance review, Nuclear Regulatory Guidelines, DOE Standards',
-      designInputConsiderations: documentFields.designInputConsiderations || questionnaireData?.designInputConsiderations || 'Integration with existing plant protection system, cable routing requirements, emergency response procedures',
-      applicableCodes: questionnaireData?.applicableCodes || 'DOE Standards, Nuclear Regulatory Guidelines, IEEE Standards for Nuclear Facilities',
-      designCriteria: questionnaireData?.designCriteria || 'Safety, operability, and regulatory compliance for emergency systems',
-      environmentalConditions: questionnaireData?.environmentalConditions || 'Standard nuclear facility environment with seismic qualifications',
-      interfaceRequirements: questionnaireData?.interfaceRequirements || 'Compatible with existing ECCS and plant protection systems',
+      designInputDocuments: pick('designInputDocuments', [Array.isArray(documentFields.designInputDocuments) && documentFields.designInputDocuments, 'backend'], [this.documentData.designInputDocuments, this.provenance.designInputDocuments?.origin || 'manual']),
+      impactedDocuments: pick('impactedDocuments', [Array.isArray(documentFields.impactedDocuments) && documentFields.impactedDocuments, 'backend'], [this.documentData.impactedDocuments, this.provenance.impactedDocuments?.origin || 'manual']),
+      designInputs: pick('designInputs', [this.generateDesignInputsFromDocuments(documentFields.designInputDocuments), 'backend'], [questionnaireData?.designInputs, 'questionnaire'], ['AI analysis with regulatory compliance review, Nuclear Regulatory Guidelines, DOE Standards', 'default']),
+      designInputConsiderations: pick('designInputConsiderations', [documentFields.designInputConsiderations, 'backend'], [questionnaireData?.designInputConsiderations, 'questionnaire'], ['Integration with existing plant protection system, cable routing requirements, emergency response procedures', 'default']),
+      applicableCodes: pick('applicableCodes', [questionnaireData?.applicableCodes, 'questionnaire'], ['DOE Standards, Nuclear Regulatory Guidelines, IEEE Standards for Nuclear Facilities', 'default']),
+      designCriteria: pick('designCriteria', [questionnaireData?.designCriteria, 'questionnaire'], ['Safety, operability, and regulatory compliance for emergency systems', 'default']),
+      environmentalConditions: pick('environmentalConditions', [questionnaireData?.environmentalConditions, 'questionnaire'], ['Standard nuclear facility environment with seismic qualifications', 'default']),
+      interfaceRequirements: pick('interfaceRequirements', [questionnaireData?.interfaceRequirements, 'questionnaire'], ['Compatible with existing ECCS and plant protection systems', 'default']),
       
       // MT Determination
       mtRequired: analysis.mtRequired,
-      mtRequiredReason: analysis.reasoning || 'Safety-significant equipment modification affecting Emergency Core Cooling System backup power supply requires comprehensive engineering analysis and documentation.',
+      mtRequiredReason: pick('mtRequiredReason', [analysis.reasoning, analysisOrigin], ['Safety-significant equipment modification affecting Emergency Core Cooling System backup power supply requires comprehensive engineering analysis and documentation.', 'default']),
       confidence: analysis.confidence,
-      analysisPath: 'AI-Enhanced Analysis with Expert Review and Regulatory Compliance Check',
-      designType: questionnaireData?.designType ? this.getDesignTypeString(questionnaireData.designType) : this.getDesignTypeString(analysis.designType || 2),
-      hazardCategory: documentFields.hazardCategory || analysis.safetyClassification || questionnaireData?.hazardCategory || 'To be determined', // Remove hardcoded category
+      analysisPath: pick('analysisPath', ['AI-Enhanced Analysis with Expert Review and Regulatory Compliance Check', 'system']),
+      designType: pick('designType', [questionnaireData?.designType && this.getDesignTypeString(questionnaireData.designType), 'questionnaire'], [analysis.designType && this.getDesignTypeString(analysis.designType), analysisOrigin], [this.getDesignTypeString(2), 'default']),
+      hazardCategory: pick('hazardCategory', [documentFields.hazardCategory, 'backend'], [questionnaireData?.hazardCategory, 'questionnaire'], [analysis.safetyClassification, analysisOrigin], ['To be determined', 'default']), // Remove hardcoded category
       
       // Page 2 Risk Classifications (Enhanced intelligent checkbox logic)
-      preliminarySafetyClassification: this.mapSafetyClassification(documentFields.preliminarySafetyClassification) || questionnaireData?.preliminarySafetyClassification || this.determineSafetyClassification(analysis, questionnaireData),
-      environmentalRisk: this.mapYesNoValue(documentFields.environmentalRisk) || questionnaireData?.environmentalRisk || this.determineEnvironmentalRisk(analysis, questionnaireData),
-      radiologicalRisk: this.mapYesNoValue(documentFields.radiologicalRisk) || questionnaireData?.radiologicalRisk || this.determineRadiologicalRisk(analysis, questionnaireData),
-      approvalDesignators: documentFields.approvalDesignators || questionnaireData?.approvalDesignators || 'Safety-Significant, Emergency System',
+      preliminarySafetyClassification: pick('preliminarySafetyClassification', [this.mapSafetyClassification(documentFields.preliminarySafetyClassification), 'backend'], [questionnaireData?.preliminarySafetyClassification, 'questionnaire'], [this.determineSafetyClassification(analysis, questionnaireData), 'heuristic']),
+      environmentalRisk: pick('environmentalRisk', [this.mapYesNoValue(documentFields.environmentalRisk), 'backend'], [questionnaireData?.environmentalRisk, 'questionnaire'], [this.determineEnvironmentalRisk(analysis, questionnaireData), 'heuristic']),
+      radiologicalRisk: pick('radiologicalRisk', [this.mapYesNoValue(documentFields.radiologicalRisk), 'backend'], [questionnaireData?.radiologicalRisk, 'questionnaire'], [this.determineRadiologicalRisk(analysis, questionnaireData), 'heuristic']),
+      approvalDesignators: pick('approvalDesignators', [documentFields.approvalDesignators, 'backend'], [questionnaireData?.approvalDesignators, 'questionnaire'], ['Safety-Significant, Emergency System', 'default']),
+      
+      // Attachment A - keep a checklist reviewers already worked on when the backend sends none
+      attachmentA: pick('attachmentA', [backendChecklist?.attachmentA, analysisOrigin], [this.documentData.attachmentA, this.provenance.attachmentA?.origin || 'manual'], [createDefaultAttachmentA(), 'default']),
+      attachmentARiskLevels: backendChecklist?.riskLevels || this.documentData.attachmentARiskLevels,
       
       // Risk Assessment
       riskAssessment: analysis.riskAssessment ? {
@@ -870,8 +1433,8 @@ class MTDocumentService {
       },
       
       // Design Output Record - Section VI (Enhanced)
-      workPackageNumbers: documentFields.workPackageNumbers || questionnaireData?.workPackageNumbers || '',
-      otherOutputs: documentFields.otherOutputs || questionnaireData?.otherOutputs || '',
+      workPackageNumbers: pick('workPackageNumbers', [documentFields.workPackageNumbers, 'backend'], [questionnaireData?.workPackageNumbers, 'questionnaire'], ['', 'default']),
+      otherOutputs: pick('otherOutputs', [documentFields.otherOutputs, 'backend'], [questionnaireData?.otherOutputs, 'questionnaire'], ['', 'default']),
       
       // Impact Assessment - Section V & VII
       safetyImpacts: questionnaireData?.safetyImpacts || '',
@@ -880,14 +1443,32 @@ class MTDocumentService {
       otherImpacts: questionnaireData?.otherImpacts || '',
       
       // Approval Information
-      preparedBy: questionnaireData?.preparedBy || 'MT Analysis System',
-      preparedDate: now.toLocaleDateString(),
+      preparedBy: pick('preparedBy', [questionnaireData?.preparedBy, 'questionnaire'], ['MT Analysis System', 'default']),
+      preparedDate: pick('preparedDate', [now.toLocaleDateString(), 'system']),
     };
 
-    this.updateDocument(documentData);
+    provenance.mtRequired = createProvenance(analysisOrigin, analysis.confidence);
+    provenance.confidence = createProvenance(analysisOrigin, analysis.confidence);
+    provenance.riskAssessment = createProvenance(analysis.riskAssessment ? analysisOrigin : 'default', analysis.confidence);
+
+    this.updateDocument(documentData, questionnaireData ? 'questionnaire' : 'analysis', provenance);
     return documentData;
   }
 
+  // First candidate with a value wins (same semantics as an `a || b || c` chain); its origin is recorded
+  private resolveField<K extends keyof MTDocumentData>(
+    provenance: MTProvenanceMap,
+    field: K,
+    candidates: MTFieldCandidate[],
+    analysisConfidence?: number
+  ): MTDocumentData[K] {
+    const [value, origin] = candidates.find(([candidate]) => candidate) || candidates[candidates.length - 1];
+    // AI-derived values inherit the confidence the backend reported for the analysis
+    const confidence = origin === 'backend' || origin === 'ai-analysis' ? analysisConfidence : undefined;
+    provenance[field] = createProvenance(origin, confidence);
+    return value as MTDocumentData[K];
+  }
+
   private getDesignTypeString(designType: number): string {
     switch (designType) {
       case 1: return 'Type I - New Design';
@@ -895,6 +1476,7 @@ class MTDocumentService {
       case 3: return 'Type III - Non-Identical Replacement';
       case 4: return 'Type IV - Temporary';
       case 5: return 'Type V - Identical Replacement';
+      case 6: return 'Type VI - Minor Repair or Maintenance';
       default: return 'Type TBD - To Be Determined';
     }
   }
@@ -933,22 +1515,53 @@ class MTDocumentService {
     ).join(', ');
   }
 
-  private convertChecklistSection(section: any): ChecklistItem[] {
+  private convertChecklistSection(section: any, sourceSection: AttachmentABackendSection): ChecklistItem[] {
     if (!section?.items || !Array.isArray(section.items)) {
       return [];
     }
     
     return section.items.map((item: any) => ({
       description: item.description || 'Review item',
-      status: item.status || 'Pending',
+      status: normalizeChecklistStatus(item.status),
       comments: item.comments || '',
       reviewer: item.reviewer || '',
-      date: item.date || ''
+      date: item.date || '',
+      required: item.required ?? false,
+      sourceSection
     }));
   }
 
-  // Generate actual DOCX file using template filling
-  async generateDocxDocument(): Promise<Blob> {
+  // Spread the backend's A1-A5 checklist sections over the seven Attachment A categories
+  private mapAttachmentAChecklist(checklist: unknown): { attachmentA: AttachmentAData; riskLevels: MTDocumentData['attachmentARiskLevels'] } | undefined {
+    if (!checklist || typeof checklist !== 'object') return undefined;
+    const sections = checklist as Record<string, { riskLevel?: string } | undefined>;
+
+    const attachmentA: AttachmentAData = {};
+    const riskLevels: NonNullable<MTDocumentData['attachmentARiskLevels']> = {};
+    let itemCount = 0;
+
+    (Object.keys(ATTACHMENT_A_BACKEND_SECTIONS) as AttachmentABackendSection[]).forEach(sectionId => {
+      const section = sections[ATTACHMENT_A_BACKEND_SECTIONS[sectionId].key];
+      if (section?.riskLevel) {
+        riskLevels[sectionId] = section.riskLevel;
+      }
+      this.convertChecklistSection(section, sectionId).forEach(item => {
+        const category = categorizeChecklistItem(item, sectionId);
+        (attachmentA[category] ||= []).push(item);
+        itemCount++;
+      });
+    });
+
+    return itemCount > 0 ? { attachmentA, riskLevels } : undefined;
+  }
+
+  // Replace the Attachment A checklist with a reviewer's edits
+  updateAttachmentA(attachmentA: AttachmentAData): void {
+    this.updateDocument({ attachmentA }, 'manual');
+  }
+
+  // Generate actual DOCX file using template filling; highlightProvenance marks AI-guessed and defaulted values
+  async generateDocxDocument(options: { highlightProvenance?: boolean } = {}): Promise<Blob> {
     try {
       const data = this.documentData;
       
@@ -960,27 +1573,50 @@ class MTDocumentService {
           : data.designType
       };
       
+      // An uploaded site template is filled as-is; provenance highlighting only applies to the built-in layout
+      await this.templateRestored;
+      if (this.templateBuffer) {
+        return await this.fillExistingTemplate(normalizedData);
+      }
+      
       // Generate template with actual data
       const { createMTTemplate } = await import('../utils/createMTTemplate');
-      return await createMTTemplate(normalizedData);
+      return await createMTTemplate(normalizedData, {
+        provenance: options.highlightProvenance ? this.provenance : undefined
+      });
     } catch (error) {
       console.error('Error generating DOCX document:', error);
-      throw new Error('Failed to generate MT document');
+      throw new Error(`Failed to generate MT document: ${error instanceof Error ? error.message : error}`);
     }
   }
 
-  // Fill existing template with actual data
+  // Fill the uploaded template's placeholders (and FOR loops) with actual data
   private async fillExistingTemplate(data: Partial<MTDocumentData>): Promise<Blob> {
     if (!this.templateBuffer) {
       throw new Error('Template not loaded');
     }
 
     try {
-      // For now, just return the template as-is since docx-templates will be used
-      // in the createMTTemplate function to pre-fill data
-      return new Blob([this.templateBuffer], { 
-        type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document" 
+      const { createReport } = await import('docx-templates');
+      const { buildMTTemplateContext, MT_TEMPLATE_DELIMITER } = await import('../utils/mtTemplateContext');
+
+      // Placeholders the MT data does not know about are left blank instead of failing the export
+      const context = buildMTTemplateContext(data);
+      this.templateInfo?.unknownPlaceholders.forEach(field => {
+        context[field] = '';
+      });
+
+      const report = await createReport({
+        template: new Uint8Array(this.templateBuffer),
+        data: context,
+        cmdDelimiter: MT_TEMPLATE_DELIMITER,
+        // Word turns quotes in commands into smart quotes
+        fixSmartQuotes: true,
+        // Report every bad placeholder at once; a controlled form must not silently drop a field
+        failFast: false,
+        rejectNullish: true
       });
+      return new Blob([new Uint8Array(report)], { type: DOCX_MIME_TYPE });
     } catch (error) {
       console.error('Error processing template:', error);
       throw new Error(`Template processing failed: ${error}`);
@@ -992,11 +1628,36 @@ class MTDocumentService {
     return { ...this.documentData };
   }
 
+  // Snapshot of the working document, its provenance and revision history
+  getState(): MTDocumentState {
+    return {
+      data: { ...this.documentData },
+      provenance: { ...this.provenance },
+      revisions: this.revisionStore.getHistory()
+    };
+  }
+
+  // Swap in another chat's document; without a state the chat starts from an empty MT
+  loadState(state?: MTDocumentState): void {
+    this.documentData = state ? { ...state.data } : {};
+    this.provenance = state ? { ...state.provenance } : {};
+    this.revisionStore.restore(state?.revisions || []);
+
+    const progress = this.calculateProgress();
+    const previewHTML = this.generatePreviewHTML();
+    this.documentPreviewCallbacks.forEach(callback => callback(previewHTML));
+    this.progressCallbacks.forEach(callback => callback(progress));
+  }
+
   // Reset document
   resetDocument(): void {
     this.documentData = {};
+    this.provenance = {};
+    this.revisionStore.clear();
     this.progressCallbacks.forEach(callback => callback(0));
     this.documentPreviewCallbacks.forEach(callback => callback(''));
+    const state = this.getState();
+    this.documentChangeCallbacks.forEach(callback => callback(state));
   }
 
   // Helper method to truncate text while preserving word boundaries
@@ -1118,26 +1779,6 @@ class MTDocumentService {
     return completionDate.toISOString().split('T')[0];
   }
 
-  // Generate CACN number dynamically using AI analysis if available
-  private async generateCACN(): Promise<string> {
-    const year = new Date().getFullYear();
-    
-    // Try to use AI analysis to determine appropriate CACN
-    try {
-      const quickAnalysis = await aiProjectAnalysis.quickAnalyze(this.documentData.problemDescription || '');
-      if (quickAnalysis && quickAnalysis.projectType) {
-        // Generate CACN based on AI-determined project type
-        const projectTypeCode = quickAnalysis.projectType.substring(0, 3).toUpperCase();
-        return `${year}-${projectTypeCode}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
-      }
-    } catch (error) {
-      console.warn('Could not generate AI-based CACN:', error);
-    }
-    
-    // Fallback to generic format
-    return `${year}-MT-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
-  }
-
   // Determine project type using AI analysis instead of hardcoded logic
   private async determineProjectType(analysis: MTAnalysisResponse, questionnaireData?: any): Promise<string> {
     try {
@@ -1222,23 +1863,61 @@ class MTDocumentService {
     return equipment.length > 0 ? equipment.join(', ') : 'Equipment Components (TBD during detailed analysis)';
   }
 
-  // Download the completed DOCX document
-  async downloadDocument(filename?: string): Promise<void> {
+  // Download the completed DOCX document; validation errors block export unless allowInvalid is set
+  async downloadDocument(filename?: string, options: { allowInvalid?: boolean; highlightProvenance?: boolean } = {}): Promise<void> {
+    this.assertExportable(options.allowInvalid);
+
     try {
-      const blob = await this.generateDocxDocument();
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename || `MT_${this.documentData.projectNumber || 'Document'}_${new Date().toISOString().split('T')[0]}.docx`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const blob = await this.generateDocxDocument({ highlightProvenance: options.highlightProvenance });
+      this.saveBlob(blob, filename || `MT_${this.documentData.projectNumber || 'Document'}_${new Date().toISOString().split('T')[0]}.docx`);
     } catch (error) {
       console.error('Error downloading document:', error);
       throw error;
     }
   }
+
+  // Fillable AcroForm PDF pre-filled with the current data; flatten for a read-only issued copy
+  async generatePdfDocument(options: { flatten?: boolean } = {}): Promise<Blob> {
+    try {
+      const data = this.documentData;
+      const { createFillableMTForm } = await import('../utils/createFillableForm');
+      return await createFillableMTForm({
+        ...data,
+        designType: typeof data.designType === 'number'
+          ? this.getDesignTypeString(data.designType)
+          : data.designType
+      }, options);
+    } catch (error) {
+      console.error('Error generating PDF document:', error);
+      throw new Error(`Failed to generate MT PDF: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async downloadPdf(filename?: string, options: { allowInvalid?: boolean; flatten?: boolean } = {}): Promise<void> {
+    this.assertExportable(options.allowInvalid);
+
+    const blob = await this.generatePdfDocument({ flatten: options.flatten });
+    const suffix = options.flatten ? '_Issued' : '';
+    this.saveBlob(blob, filename || `MT_${this.documentData.projectNumber || 'Document'}_${new Date().toISOString().split('T')[0]}${suffix}.pdf`);
+  }
+
+  private assertExportable(allowInvalid?: boolean): void {
+    const validation = this.validateDocument();
+    if (!validation.isValid && !allowInvalid) {
+      throw new Error(`MT document has ${validation.errors.length} validation error(s): ${validation.errors.map(issue => issue.message).join('; ')}`);
+    }
+  }
+
+  private saveBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
 }
 
 export const mtDocumentService = MTDocumentService.getInstance();
@@ -0,0 +1,78 @@
+// ============================================================================
+// MT FIELD PROVENANCE
+// Where each MTDocumentData value came from and how far it can be trusted
+// ============================================================================
+
+import type { MTDocumentData } from './mtDocumentService';
+
+export type MTFieldOrigin =
+  | 'manual'         // typed or corrected by an engineer
+  | 'questionnaire'  // answered in the MT questionnaire
+  | 'system'         // generated by the system (dates, analysis path)
+  | 'backend'        // backend GPT-4 analysis (documentFields or analysis text)
+  | 'ai-analysis'    // aiProjectAnalysis follow-up call
+  | 'chat'           // lifted from the chat conversation
+  | 'regex'          // pattern-based extraction (dataExtraction, unit numbers)
+  | 'heuristic'      // keyword rules such as determineRelatedSystems
+  | 'default';       // hard-coded fallback value
+
+export interface MTFieldProvenance {
+  origin: MTFieldOrigin;
+  confidence: number; // 0-1 scale
+  updatedAt: string;
+}
+
+export type MTProvenanceMap = Partial<Record<keyof MTDocumentData, MTFieldProvenance>>;
+
+export type MTVerificationStatus = 'verified' | 'ai-guessed' | 'defaulted';
+
+export const MT_ORIGIN_LABELS: Record<MTFieldOrigin, string> = {
+  manual: 'Manual entry',
+  questionnaire: 'MT questionnaire',
+  system: 'System generated',
+  backend: 'Backend AI analysis',
+  'ai-analysis': 'AI project analysis',
+  chat: 'Chat conversation',
+  regex: 'Pattern extraction',
+  heuristic: 'Keyword heuristic',
+  default: 'Default value'
+};
+
+const DEFAULT_CONFIDENCE: Record<MTFieldOrigin, number> = {
+  manual: 1,
+  questionnaire: 1,
+  system: 1,
+  backend: 0.8,
+  'ai-analysis': 0.7,
+  chat: 0.6,
+  regex: 0.5,
+  heuristic: 0.4,
+  default: 0.1
+};
+
+export function createProvenance(origin: MTFieldOrigin, confidence?: number): MTFieldProvenance {
+  const value = confidence ?? DEFAULT_CONFIDENCE[origin];
+  return {
+    origin,
+    // Backend confidences arrive either as 0-1 or as a percentage
+    confidence: Math.max(0, Math.min(1, value > 1 ? value / 100 : value)),
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Only engineer-entered and system-generated values count as verified;
+ * anything inferred by AI, patterns or keyword rules must be checked by hand
+ */
+export function getVerificationStatus(provenance?: MTFieldProvenance): MTVerificationStatus {
+  if (!provenance) return 'verified';
+  if (provenance.origin === 'default') return 'defaulted';
+  if (['manual', 'questionnaire', 'system'].includes(provenance.origin)) return 'verified';
+  return 'ai-guessed';
+}
+
+export function describeProvenance(provenance: MTFieldProvenance): string {
+  const status = getVerificationStatus(provenance);
+  const suffix = status === 'verified' ? '' : ' - verify manually';
+  return `Source: ${MT_ORIGIN_LABELS[provenance.origin]} (${Math.round(provenance.confidence * 100)}% confidence)${suffix}`;
+}
@@ -0,0 +1,167 @@
+// ============================================================================
+// MT REVISION STORE
+// Snapshots every MTDocumentService update and diffs snapshots field by field
+// ============================================================================
+
+import type { MTDocumentData } from './mtDocumentService';
+import type { MTProvenanceMap } from './mtProvenance';
+
+export type MTUpdateSource = 'chat' | 'questionnaire' | 'manual' | 'analysis' | 'pdf-import';
+
+export interface MTFieldChange {
+  // Dotted path, e.g. "title", "riskAssessment.riskFactors[]" or "attachmentA.safetySystems[0].status"
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface MTSnapshot {
+  id: string;
+  revision: string;
+  source: MTUpdateSource;
+  timestamp: string;
+  // Set on the snapshot created by bumpRevision
+  isRevisionIssue: boolean;
+  note?: string;
+  data: Partial<MTDocumentData>;
+  // Absent on snapshots saved before provenance was recorded with them
+  provenance?: MTProvenanceMap;
+  changes: MTFieldChange[];
+}
+
+/**
+ * Field-level diff of two MT documents. Nested objects are walked recursively,
+ * lists of plain values (e.g. riskFactors) are compared as sets and lists of
+ * objects (e.g. attachmentA checklist items) are compared by position.
+ */
+export function diffMTDocuments(before: Partial<MTDocumentData>, after: Partial<MTDocumentData>): MTFieldChange[] {
+  const changes: MTFieldChange[] = [];
+  diffValues(before, after, '', changes);
+  return changes;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function diffValues(before: unknown, after: unknown, path: string, changes: MTFieldChange[]): void {
+  if (isPlainObject(before) || isPlainObject(after)) {
+    const beforeObject = isPlainObject(before) ? before : {};
+    const afterObject = isPlainObject(after) ? after : {};
+    const keys = new Set([...Object.keys(beforeObject), ...Object.keys(afterObject)]);
+    keys.forEach(key => diffValues(beforeObject[key], afterObject[key], path ? `${path}.${key}` : key, changes));
+    return;
+  }
+
+  if (Array.isArray(before) || Array.isArray(after)) {
+    const beforeList = Array.isArray(before) ? before : [];
+    const afterList = Array.isArray(after) ? after : [];
+
+    if ([...beforeList, ...afterList].some(isPlainObject)) {
+      const length = Math.max(beforeList.length, afterList.length);
+      for (let i = 0; i < length; i++) {
+        diffValues(beforeList[i], afterList[i], `${path}[${i}]`, changes);
+      }
+      return;
+    }
+
+    afterList.filter(item => !beforeList.includes(item))
+      .forEach(item => changes.push({ path: `${path}[]`, kind: 'added', after: item }));
+    beforeList.filter(item => !afterList.includes(item))
+      .forEach(item => changes.push({ path: `${path}[]`, kind: 'removed', before: item }));
+    return;
+  }
+
+  if (before === after || (isEmpty(before) && isEmpty(after))) return;
+
+  if (isEmpty(before)) {
+    changes.push({ path, kind: 'added', after });
+  } else if (isEmpty(after)) {
+    changes.push({ path, kind: 'removed', before });
+  } else {
+    changes.push({ path, kind: 'changed', before, after });
+  }
+}
+
+export class MTRevisionStore {
+  private snapshots: MTSnapshot[] = [];
+
+  /**
+   * Record the document state after an update. Updates that change nothing are not recorded.
+   */
+  record(
+    data: Partial<MTDocumentData>,
+    source: MTUpdateSource,
+    options: { isRevisionIssue?: boolean; note?: string; provenance?: MTProvenanceMap } = {}
+  ): MTSnapshot | null {
+    const previous = this.getLatest();
+    const snapshotData = this.clone(data);
+    const changes = diffMTDocuments(previous?.data || {}, snapshotData);
+
+    if (changes.length === 0 && !options.isRevisionIssue) {
+      return null;
+    }
+
+    const snapshot: MTSnapshot = {
+      id: `${Date.now()}-${this.snapshots.length}`,
+      revision: data.revision || '0',
+      source,
+      timestamp: new Date().toISOString(),
+      isRevisionIssue: options.isRevisionIssue || false,
+      note: options.note,
+      data: snapshotData,
+      provenance: options.provenance && structuredClone(options.provenance),
+      changes
+    };
+    this.snapshots.push(snapshot);
+    return snapshot;
+  }
+
+  getHistory(): MTSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  getLatest(): MTSnapshot | undefined {
+    return this.snapshots[this.snapshots.length - 1];
+  }
+
+  getSnapshot(id: string): MTSnapshot | undefined {
+    return this.snapshots.find(snapshot => snapshot.id === id);
+  }
+
+  /**
+   * Final state of each formal revision, oldest first
+   */
+  getRevisions(): MTSnapshot[] {
+    const latestByRevision = new Map<string, MTSnapshot>();
+    this.snapshots.forEach(snapshot => latestByRevision.set(snapshot.revision, snapshot));
+    return Array.from(latestByRevision.values());
+  }
+
+  diff(fromId: string, toId: string): MTFieldChange[] {
+    const from = this.getSnapshot(fromId);
+    const to = this.getSnapshot(toId);
+    if (!from || !to) {
+      throw new Error(`Unknown snapshot: ${!from ? fromId : toId}`);
+    }
+    return diffMTDocuments(from.data, to.data);
+  }
+
+  clear(): void {
+    this.snapshots = [];
+  }
+
+  // Replace the history, e.g. with the one saved alongside another chat's document
+  restore(snapshots: MTSnapshot[]): void {
+    this.snapshots = [...snapshots];
+  }
+
+  private clone(data: Partial<MTDocumentData>): Partial<MTDocumentData> {
+    return structuredClone(data);
+  }
+}
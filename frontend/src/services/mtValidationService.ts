@@ -0,0 +1,280 @@
+// ============================================================================
+// MT DOCUMENT VALIDATION SERVICE
+// Schema-driven checks run against MTDocumentData before preview and export
+// ============================================================================
+
+import type { MTDocumentData } from './mtDocumentService';
+import { ATTACHMENT_A_CATEGORIES } from './attachmentAChecklist';
+
+export type MTSection =
+  | 'header'
+  | 'section1'
+  | 'section2'
+  | 'section3'
+  | 'section4'
+  | 'classification'
+  | 'section5'
+  | 'determination'
+  | 'attachmentA'
+  // Fields outside MT_FIELD_SCHEMA
+  | 'other';
+
+export const MT_SECTION_TITLES: Record<MTSection, string> = {
+  header: 'Header',
+  section1: 'Section I - Request for Modification',
+  section2: 'Section II - Design Type 1 Requirements',
+  section3: 'Section III - Proposed Solution',
+  section4: 'Section IV - Design Input Record',
+  classification: 'Safety and Risk Classification',
+  section5: 'Section V - Impacts',
+  determination: 'MT Determination',
+  attachmentA: 'Attachment A - Design Verification Checklist',
+  other: 'Other Fields'
+};
+
+export type MTValidationSeverity = 'error' | 'warning';
+
+export interface MTValidationIssue {
+  field?: keyof MTDocumentData;
+  section: MTSection;
+  severity: MTValidationSeverity;
+  code: 'required' | 'placeholder' | 'unresolved' | 'design-type-conflict' | 'classification-conflict' | 'checklist';
+  message: string;
+}
+
+export interface MTValidationResult {
+  isValid: boolean;
+  errors: MTValidationIssue[];
+  warnings: MTValidationIssue[];
+  bySection: Partial<Record<MTSection, MTValidationIssue[]>>;
+  byField: Partial<Record<keyof MTDocumentData, MTValidationIssue[]>>;
+}
+
+interface MTFieldRule {
+  field: keyof MTDocumentData;
+  label: string;
+  section: MTSection;
+  // 'error' blocks export when the field is empty, 'warning' only flags it
+  required: MTValidationSeverity;
+}
+
+// Fields checked for presence; error-level entries also drive calculateProgress
+export const MT_FIELD_SCHEMA: MTFieldRule[] = [
+  { field: 'mtNumber', label: 'MT Number', section: 'header', required: 'warning' },
+  { field: 'title', label: 'Title', section: 'header', required: 'error' },
+  { field: 'projectNumber', label: 'Project Number', section: 'section1', required: 'error' },
+  { field: 'facility', label: 'Facility', section: 'section1', required: 'error' },
+  { field: 'submittedBy', label: 'Submitted By', section: 'section1', required: 'error' },
+  { field: 'designType', label: 'Design Type', section: 'section1', required: 'error' },
+  { field: 'projectType', label: 'Project Type', section: 'section1', required: 'error' },
+  { field: 'relatedBuildings', label: 'Related Buildings/Facilities', section: 'section1', required: 'warning' },
+  { field: 'relatedSystems', label: 'Related Systems', section: 'section1', required: 'warning' },
+  { field: 'relatedEquipment', label: 'Related Equipment', section: 'section1', required: 'warning' },
+  { field: 'problemDescription', label: 'Problem Description', section: 'section1', required: 'error' },
+  { field: 'justification', label: 'Justification', section: 'section1', required: 'error' },
+  { field: 'proposedSolution', label: 'Proposed Solution', section: 'section3', required: 'error' },
+  { field: 'designInputs', label: 'Design Inputs', section: 'section4', required: 'warning' },
+  { field: 'preliminarySafetyClassification', label: 'Preliminary Safety Classification', section: 'classification', required: 'error' },
+  { field: 'environmentalRisk', label: 'Environmental Risk', section: 'classification', required: 'error' },
+  { field: 'radiologicalRisk', label: 'Radiological Risk', section: 'classification', required: 'error' },
+  { field: 'hazardCategory', label: 'Hazard Category', section: 'classification', required: 'warning' },
+  { field: 'mtRequired', label: 'MT Required', section: 'determination', required: 'error' },
+  { field: 'mtRequiredReason', label: 'MT Determination Basis', section: 'determination', required: 'error' }
+];
+
+const SECTION_II_FIELDS: Array<{ field: keyof MTDocumentData; label: string }> = [
+  { field: 'projectDesignReviewRequired', label: 'Project Design Review Required' },
+  { field: 'majorModificationEvaluationRequired', label: 'Major Modification Evaluation Required' },
+  { field: 'safetyInDesignStrategyRequired', label: 'Safety In Design Strategy Required' }
+];
+
+const PLACEHOLDER_PATTERN = /\[[^\]]+\]/;
+const UNRESOLVED_PATTERN = /\b(TBD|to be determined|analysis pending|analysis in progress)\b/i;
+
+export class MTValidationService {
+  validate(data: Partial<MTDocumentData>): MTValidationResult {
+    const issues: MTValidationIssue[] = [
+      ...this.checkRequiredFields(data),
+      ...this.checkPlaceholders(data),
+      ...this.checkDesignTypeConflicts(data),
+      ...this.checkClassificationConflicts(data),
+      ...this.checkAttachmentA(data)
+    ];
+
+    const bySection: MTValidationResult['bySection'] = {};
+    const byField: MTValidationResult['byField'] = {};
+    for (const issue of issues) {
+      (bySection[issue.section] ||= []).push(issue);
+      if (issue.field) {
+        (byField[issue.field] ||= []).push(issue);
+      }
+    }
+
+    const errors = issues.filter(issue => issue.severity === 'error');
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: issues.filter(issue => issue.severity === 'warning'),
+      bySection,
+      byField
+    };
+  }
+
+  /**
+   * Share of error-level schema fields that are filled, as a percentage
+   */
+  calculateCompleteness(data: Partial<MTDocumentData>): number {
+    const requiredRules = MT_FIELD_SCHEMA.filter(rule => rule.required === 'error');
+    const filled = requiredRules.filter(rule => this.hasValue(data[rule.field]));
+    return Math.round((filled.length / requiredRules.length) * 100);
+  }
+
+  private checkRequiredFields(data: Partial<MTDocumentData>): MTValidationIssue[] {
+    return MT_FIELD_SCHEMA
+      .filter(rule => !this.hasValue(data[rule.field]))
+      .map(rule => ({
+        field: rule.field,
+        section: rule.section,
+        severity: rule.required,
+        code: 'required' as const,
+        message: `${rule.label} is required`
+      }));
+  }
+
+  // Every string field is scanned. Fields outside the schema are not editable in the
+  // preview, so their placeholders are warnings rather than errors that would block export.
+  private checkPlaceholders(data: Partial<MTDocumentData>): MTValidationIssue[] {
+    const issues: MTValidationIssue[] = [];
+    const rules = new Map(MT_FIELD_SCHEMA.map(rule => [rule.field, rule]));
+
+    for (const field of Object.keys(data) as Array<keyof MTDocumentData>) {
+      const value = data[field];
+      if (typeof value !== 'string') continue;
+
+      const rule = rules.get(field);
+      const label = rule?.label ?? this.describeField(field);
+      const section = rule?.section ?? 'other';
+      const placeholder = value.match(PLACEHOLDER_PATTERN);
+      if (placeholder) {
+        issues.push({
+          field,
+          section,
+          severity: rule ? 'error' : 'warning',
+          code: 'placeholder',
+          message: `${label} still contains the placeholder "${placeholder[0]}"`
+        });
+      } else if (UNRESOLVED_PATTERN.test(value)) {
+        issues.push({
+          field,
+          section,
+          severity: 'warning',
+          code: 'unresolved',
+          message: `${label} has not been resolved ("${value}")`
+        });
+      }
+    }
+    return issues;
+  }
+
+  private checkDesignTypeConflicts(data: Partial<MTDocumentData>): MTValidationIssue[] {
+    const designType = this.getDesignTypeNumber(data.designType);
+    if (designType === undefined) return [];
+
+    const issues: MTValidationIssue[] = [];
+    for (const { field, label } of SECTION_II_FIELDS) {
+      const value = data[field];
+      if (designType === 1 && (value === undefined || value === 'N/A')) {
+        issues.push({
+          field,
+          section: 'section2',
+          severity: 'error',
+          code: 'design-type-conflict',
+          message: `${label} must be answered Yes or No for Design Type I projects`
+        });
+      } else if (designType !== 1 && value === 'Yes') {
+        issues.push({
+          field,
+          section: 'section2',
+          severity: 'warning',
+          code: 'design-type-conflict',
+          message: `${label} is marked Yes but Section II only applies to Design Type I projects`
+        });
+      }
+    }
+    return issues;
+  }
+
+  private checkClassificationConflicts(data: Partial<MTDocumentData>): MTValidationIssue[] {
+    const classification = data.preliminarySafetyClassification;
+    if ((classification === 'SC' || classification === 'SS') && data.mtRequired === false) {
+      return [{
+        field: 'mtRequired',
+        section: 'determination',
+        severity: 'error',
+        code: 'classification-conflict',
+        message: `${classification === 'SC' ? 'Safety Class' : 'Safety Significant'} modifications require an MT, but MT Required is No`
+      }];
+    }
+    return [];
+  }
+
+  // Completed checklist items need a reviewer and date; open required items are flagged
+  private checkAttachmentA(data: Partial<MTDocumentData>): MTValidationIssue[] {
+    const attachmentA = data.attachmentA;
+    if (!attachmentA) return [];
+
+    const issues: MTValidationIssue[] = [];
+    for (const category of ATTACHMENT_A_CATEGORIES) {
+      for (const item of attachmentA[category.key] || []) {
+        if (item.status === 'Complete' && (!item.reviewer?.trim() || !item.date?.trim())) {
+          issues.push({
+            field: 'attachmentA',
+            section: 'attachmentA',
+            severity: 'warning',
+            code: 'checklist',
+            message: `${category.title}: "${item.description}" is marked Complete without a reviewer and date`
+          });
+        } else if (item.required && item.status === 'Pending') {
+          issues.push({
+            field: 'attachmentA',
+            section: 'attachmentA',
+            severity: 'warning',
+            code: 'checklist',
+            message: `${category.title}: required item "${item.description}" is still pending`
+          });
+        }
+      }
+    }
+    return issues;
+  }
+
+  // "workLocation" -> "Work Location"
+  private describeField(field: string): string {
+    return field
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/^./, first => first.toUpperCase());
+  }
+
+  private hasValue(value: unknown): boolean {
+    if (value === undefined || value === null) return false;
+    if (typeof value === 'string') return value.trim().length > 0;
+    if (typeof value === 'number' || typeof value === 'boolean') return true;
+    return false;
+  }
+
+  private getDesignTypeNumber(designType?: string | number): number | undefined {
+    if (typeof designType === 'number') return designType;
+    if (!designType) return undefined;
+
+    const match = designType.match(/Type\s+([IVX]+)\b/i);
+    if (!match) return undefined;
+    const numerals = ['I', 'II', 'III', 'IV', 'V', 'VI'];
+    const index = numerals.indexOf(match[1].toUpperCase());
+    return index >= 0 ? index + 1 : undefined;
+  }
+}
+
+// Export singleton instance
+export const mtValidationService = new MTValidationService();
+
+export default MTValidationService;
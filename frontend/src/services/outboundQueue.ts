@@ -0,0 +1,228 @@
+// ============================================================================
+// OUTBOUND CHAT QUEUE
+// Chat turns that could not reach the backend, persisted in IndexedDB and
+// retried with exponential backoff until they succeed or run out of attempts
+// ============================================================================
+
+import { ApiError } from './apiClient';
+import { DB_STORES, isBrowserDatabaseAvailable, withStore } from './browserDatabase';
+
+export type QueuedTurnStatus =
+  | 'pending'   // waiting for the next attempt
+  | 'retrying'  // an attempt is in flight
+  | 'failed';   // out of attempts (or not retryable); replayed only by the user
+
+export interface QueuedTurn {
+  // Id of the user message the turn answers
+  id: string;
+  chatId: string;
+  message: string;
+  // Context captured when the message was sent, so a replay sees the same history
+  conversationHistory: string;
+  status: QueuedTurnStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: string;
+}
+
+export interface OutboundQueueOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+}
+
+// Runs a queued turn; throws to have it retried
+export type QueuedTurnExecutor = (turn: QueuedTurn) => Promise<void>;
+
+const DEFAULT_OPTIONS: OutboundQueueOptions = {
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+  maxAttempts: 6
+};
+
+/**
+ * Errors worth retrying: the backend was unreachable, too slow, or briefly
+ * unavailable. Anything else fails the same way on every attempt.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof ApiError)) return false;
+  if (error.kind === 'network' || error.kind === 'timeout') return true;
+  return error.kind === 'http' && [408, 429, 502, 503, 504].includes(error.status ?? 0);
+}
+
+class OutboundQueue {
+  private options: OutboundQueueOptions;
+  private turns = new Map<string, QueuedTurn>();
+  private listeners = new Set<(turns: QueuedTurn[]) => void>();
+  private executor: QueuedTurnExecutor | null = null;
+  // Which turns the executor can run right now (e.g. only the open chat, only when idle)
+  private canRun: (turn: QueuedTurn) => boolean = () => true;
+  private loaded: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private processing = false;
+
+  constructor(options: Partial<OutboundQueueOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    if (typeof window !== 'undefined') {
+      // Connectivity is back: retry everything that is waiting now instead of after its backoff
+      window.addEventListener('online', () => {
+        this.turns.forEach(turn => {
+          if (turn.status === 'pending') turn.nextAttemptAt = Date.now();
+        });
+        this.schedule();
+      });
+    }
+  }
+
+  // Read turns left over from a previous session
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        if (!isBrowserDatabaseAvailable()) return;
+        try {
+          const stored = await withStore<QueuedTurn[]>(DB_STORES.outboundQueue, 'readonly', store => store.getAll());
+          stored.forEach(turn => {
+            // An attempt cut short by a reload never finished
+            this.turns.set(turn.id, turn.status === 'retrying' ? { ...turn, status: 'pending' } : turn);
+          });
+          this.notify();
+        } catch (error) {
+          console.warn('Could not load the outbound queue:', error);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  getTurns(): QueuedTurn[] {
+    return Array.from(this.turns.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  subscribe(listener: (turns: QueuedTurn[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getTurns());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setExecutor(executor: QueuedTurnExecutor | null, canRun: (turn: QueuedTurn) => boolean = () => true): void {
+    this.executor = executor;
+    this.canRun = canRun;
+    this.schedule();
+  }
+
+  // Add a turn whose first attempt failed with `error`
+  async enqueue(turn: Pick<QueuedTurn, 'id' | 'chatId' | 'message' | 'conversationHistory'>, error?: unknown): Promise<void> {
+    await this.load();
+    await this.save({
+      ...turn,
+      status: 'pending',
+      attempts: 1,
+      nextAttemptAt: Date.now() + this.backoffDelay(1),
+      lastError: error instanceof Error ? error.message : undefined,
+      createdAt: new Date().toISOString()
+    });
+    this.schedule();
+  }
+
+  // Replay a failed turn (or skip the wait on a pending one) with a fresh set of attempts
+  async retryNow(id: string): Promise<void> {
+    const turn = this.turns.get(id);
+    if (!turn || turn.status === 'retrying') return;
+    await this.save({ ...turn, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+    this.schedule();
+  }
+
+  async remove(id: string): Promise<void> {
+    this.turns.delete(id);
+    this.notify();
+    if (!isBrowserDatabaseAvailable()) return;
+    try {
+      await withStore(DB_STORES.outboundQueue, 'readwrite', store => store.delete(id));
+    } catch (error) {
+      console.warn('Could not remove queued turn:', error);
+    }
+  }
+
+  // Re-check for runnable turns, e.g. after the open chat changed or a turn finished
+  resume(): void {
+    this.schedule();
+  }
+
+  // Exponential backoff with +/-20% jitter so many clients do not retry in lockstep
+  private backoffDelay(attempts: number): number {
+    const delay = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** Math.max(0, attempts - 1));
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  private schedule(): void {
+    clearTimeout(this.timer);
+    if (!this.executor || this.processing) return;
+
+    const waiting = this.getTurns().filter(turn => turn.status === 'pending' && this.canRun(turn));
+    if (waiting.length === 0) return;
+
+    const next = Math.min(...waiting.map(turn => turn.nextAttemptAt));
+    this.timer = setTimeout(() => this.process(), Math.max(0, next - Date.now()));
+  }
+
+  // Run due turns one at a time, oldest first
+  private async process(): Promise<void> {
+    if (this.processing || !this.executor) return;
+    this.processing = true;
+
+    try {
+      while (true) {
+        const executor = this.executor;
+        const turn = this.getTurns().find(t => t.status === 'pending' && t.nextAttemptAt <= Date.now() && this.canRun(t));
+        if (!executor || !turn) break;
+
+        await this.save({ ...turn, status: 'retrying' });
+        try {
+          await executor(turn);
+          await this.remove(turn.id);
+        } catch (error) {
+          // Discarded by the user while the attempt was running
+          if (!this.turns.has(turn.id)) continue;
+          const attempts = turn.attempts + 1;
+          const exhausted = !isRetryableError(error) || attempts >= this.options.maxAttempts;
+          await this.save({
+            ...turn,
+            status: exhausted ? 'failed' : 'pending',
+            attempts,
+            nextAttemptAt: Date.now() + this.backoffDelay(attempts),
+            lastError: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    } finally {
+      this.processing = false;
+      this.schedule();
+    }
+  }
+
+  private async save(turn: QueuedTurn): Promise<void> {
+    this.turns.set(turn.id, turn);
+    this.notify();
+    if (!isBrowserDatabaseAvailable()) return;
+    try {
+      await withStore(DB_STORES.outboundQueue, 'readwrite', store => store.put(turn));
+    } catch (error) {
+      // The in-memory queue keeps working; only persistence across reloads is lost
+      console.warn('Could not persist queued turn:', error);
+    }
+  }
+
+  private notify(): void {
+    const turns = this.getTurns();
+    this.listeners.forEach(listener => listener(turns));
+  }
+}
+
+// Export singleton instance
+export const outboundQueue = new OutboundQueue();
+
+// Export for dependency injection/testing
+export default OutboundQueue;
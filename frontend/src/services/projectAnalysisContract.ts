@@ -0,0 +1,156 @@
+// ============================================================================
+// PROJECT ANALYSIS JSON CONTRACT
+// Shape the AI must return for a project analysis, and the runtime checks for it
+// ============================================================================
+
+export type ProjectPriority = 'Low' | 'Medium' | 'High' | 'Critical';
+
+export interface ProjectAnalysisResult {
+  relatedSystems: string;
+  relatedBuildings: string;
+  relatedEquipment: string;
+  priority: ProjectPriority;
+  projectType: string;
+  cacn: string;
+  safetyClassification: string;
+  estimatedComplexity: string;
+  recommendedApproach: string;
+  potentialRisks: string[];
+  requiredApprovals: string[];
+  confidence: number; // 0-1 scale
+}
+
+export const PROJECT_PRIORITIES: ProjectPriority[] = ['Low', 'Medium', 'High', 'Critical'];
+
+export type ProjectAnalysisErrorKind =
+  | 'request'    // the endpoint could not be reached or returned an HTTP error
+  | 'malformed'  // the reply contained no parseable JSON object
+  | 'invalid';   // the JSON did not match the contract
+
+export class ProjectAnalysisError extends Error {
+  constructor(
+    public readonly kind: ProjectAnalysisErrorKind,
+    message: string,
+    // Individual contract violations, e.g. "priority must be one of Low, Medium, High, Critical"
+    public readonly issues: string[] = [],
+    // Last reply from the model, kept for troubleshooting
+    public readonly rawResponse?: string
+  ) {
+    super(message);
+    this.name = 'ProjectAnalysisError';
+  }
+}
+
+type FieldRule = (value: unknown) => string | null;
+
+const nonEmptyString: FieldRule = value =>
+  typeof value === 'string' && value.trim() ? null : 'must be a non-empty string';
+
+const stringArray: FieldRule = value =>
+  Array.isArray(value) && value.every(item => typeof item === 'string') ? null : 'must be an array of strings';
+
+const FIELD_RULES: Record<keyof ProjectAnalysisResult, FieldRule> = {
+  relatedSystems: nonEmptyString,
+  relatedBuildings: nonEmptyString,
+  relatedEquipment: nonEmptyString,
+  priority: value => PROJECT_PRIORITIES.includes(value as ProjectPriority) ? null : `must be one of ${PROJECT_PRIORITIES.join(', ')}`,
+  projectType: nonEmptyString,
+  cacn: nonEmptyString,
+  safetyClassification: nonEmptyString,
+  estimatedComplexity: nonEmptyString,
+  recommendedApproach: nonEmptyString,
+  potentialRisks: stringArray,
+  requiredApprovals: stringArray,
+  confidence: value => typeof value === 'number' && value >= 0 && value <= 1 ? null : 'must be a number between 0 and 1'
+};
+
+// Example object embedded in the prompt so the model sees every key and type
+export const PROJECT_ANALYSIS_JSON_EXAMPLE = JSON.stringify({
+  relatedSystems: 'Systems affected by the modification, comma separated',
+  relatedBuildings: 'Facility buildings/areas involved, comma separated',
+  relatedEquipment: 'Specific equipment, components and instrumentation, comma separated',
+  priority: 'Low | Medium | High | Critical',
+  projectType: 'e.g. Safety System Upgrade, Component Replacement',
+  cacn: 'Cost Account Charge Number',
+  safetyClassification: 'e.g. Safety-Related, Important-to-Safety, General Service',
+  estimatedComplexity: 'Simple | Moderate | Complex | Highly Complex',
+  recommendedApproach: 'Recommended implementation approach',
+  potentialRisks: ['Technical or safety risk'],
+  requiredApprovals: ['Regulatory or internal approval'],
+  confidence: 0.75
+}, null, 2);
+
+export type ProjectAnalysisValidation<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: string[] };
+
+/**
+ * Check a parsed object against the contract. With `fields`, only those keys are
+ * required (used by quick analysis); unknown keys are ignored.
+ */
+export function validateProjectAnalysis<K extends keyof ProjectAnalysisResult = keyof ProjectAnalysisResult>(
+  value: unknown,
+  fields: K[] = Object.keys(FIELD_RULES) as K[]
+): ProjectAnalysisValidation<Pick<ProjectAnalysisResult, K>> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, issues: ['response must be a JSON object'] };
+  }
+
+  const record = value as Record<string, unknown>;
+  const issues = fields
+    .map(field => {
+      const problem = FIELD_RULES[field](record[field]);
+      return problem ? `${field} ${problem}` : null;
+    })
+    .filter((issue): issue is string => issue !== null);
+
+  if (issues.length > 0) return { ok: false, issues };
+
+  const result = {} as Pick<ProjectAnalysisResult, K>;
+  fields.forEach(field => {
+    result[field] = record[field] as ProjectAnalysisResult[K];
+  });
+  return { ok: true, value: result };
+}
+
+/**
+ * Pull the JSON object out of a model reply and fix the usual near-misses: markdown
+ * fences, surrounding prose, trailing commas, case-mismatched priorities and
+ * percentage confidences. Returns undefined when no object can be parsed.
+ */
+export function parseProjectAnalysisJson(reply: unknown): unknown {
+  if (typeof reply === 'object' && reply !== null) return normalize(reply);
+  if (typeof reply !== 'string') return undefined;
+
+  const text = reply.replace(/```(?:json)?/gi, '');
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) return undefined;
+
+  const candidate = text.slice(start, end + 1);
+  for (const attempt of [candidate, candidate.replace(/,\s*([}\]])/g, '$1')]) {
+    try {
+      return normalize(JSON.parse(attempt));
+    } catch {
+      // try the next repair
+    }
+  }
+  return undefined;
+}
+
+function normalize(value: object): unknown {
+  if (Array.isArray(value)) return value;
+  const record = { ...(value as Record<string, unknown>) };
+
+  if (typeof record.priority === 'string') {
+    const priority = PROJECT_PRIORITIES.find(option => option.toLowerCase() === (record.priority as string).trim().toLowerCase());
+    if (priority) record.priority = priority;
+  }
+
+  const confidence = typeof record.confidence === 'string' ? parseFloat(record.confidence) : record.confidence;
+  if (typeof confidence === 'number' && !Number.isNaN(confidence)) {
+    record.confidence = confidence > 1 && confidence <= 100 ? confidence / 100 : confidence;
+  }
+
+  return record;
+}
@@ -0,0 +1,253 @@
+// ============================================================================
+// MT QUESTIONNAIRE SERVICE
+// Loads data/mt-questionnaire.json, evaluates its visibility and validation
+// rules, and converts answers into questionnaireData for mtDocumentService
+// ============================================================================
+
+import questionnaireJson from '../data/mt-questionnaire.json';
+import type {
+  QuestionnaireAnswers,
+  QuestionnaireDefinition,
+  QuestionnaireErrors,
+  QuestionnaireQuestion,
+  QuestionnaireSection,
+  TableRowAnswer
+} from '../types/questionnaire';
+import type { MTAnalysisResponse } from './mtDocumentService';
+
+const ROMAN_DESIGN_TYPES: Record<string, number> = {
+  I: 1, II: 2, III: 3, IV: 4, V: 5, VI: 6
+};
+
+// Section 10 answers that put a physical change under design control
+const REGULATORY_QUESTIONS: Array<{ id: string; reason: string }> = [
+  { id: 'cfr_5059_evaluation', reason: '10 CFR 50.59 evaluation required' },
+  { id: 'license_amendment_required', reason: 'license amendment anticipated' },
+  { id: 'safety_function_impact', reason: 'may affect a safety function' },
+  { id: 'accident_analysis_impact', reason: 'may affect the accident analysis' }
+];
+
+export class QuestionnaireService {
+  private definition: QuestionnaireDefinition;
+
+  constructor(definition?: QuestionnaireDefinition) {
+    this.definition = definition ||
+      (questionnaireJson as { modificationTravelerQuestionnaire: QuestionnaireDefinition }).modificationTravelerQuestionnaire;
+  }
+
+  getDefinition(): QuestionnaireDefinition {
+    return this.definition;
+  }
+
+  /**
+   * Sections currently shown, after applying validation_rules.conditional_sections
+   */
+  getVisibleSections(answers: QuestionnaireAnswers): QuestionnaireSection[] {
+    return this.definition.sections.filter(section => this.isSectionVisible(section, answers));
+  }
+
+  isSectionVisible(section: QuestionnaireSection, answers: QuestionnaireAnswers): boolean {
+    const rule = this.definition.validation_rules.conditional_sections[this.getSectionKey(section)];
+    if (!rule) return true;
+
+    return Object.entries(rule.show_when).every(([questionId, allowed]) =>
+      allowed.includes(this.getStringAnswer(answers, questionId))
+    );
+  }
+
+  isQuestionVisible(question: QuestionnaireQuestion, answers: QuestionnaireAnswers): boolean {
+    if (!question.conditional) return true;
+    return question.conditional.show_when.includes(
+      this.getStringAnswer(answers, question.conditional.depends_on)
+    );
+  }
+
+  /**
+   * Required questions are enforced in required_sections and in any section
+   * that is only shown because a conditional rule matched
+   */
+  isSectionEnforced(section: QuestionnaireSection): boolean {
+    return this.definition.validation_rules.required_sections.includes(section.sectionNumber) ||
+      this.getSectionKey(section) in this.definition.validation_rules.conditional_sections;
+  }
+
+  validateSection(section: QuestionnaireSection, answers: QuestionnaireAnswers): QuestionnaireErrors {
+    const errors: QuestionnaireErrors = {};
+    if (!this.isSectionVisible(section, answers) || !this.isSectionEnforced(section)) {
+      return errors;
+    }
+
+    for (const question of section.questions) {
+      if (question.required && this.isQuestionVisible(question, answers) && !this.hasAnswer(answers, question)) {
+        errors[question.id] = 'This field is required';
+      }
+    }
+    return errors;
+  }
+
+  validateAll(answers: QuestionnaireAnswers): QuestionnaireErrors {
+    return this.getVisibleSections(answers).reduce<QuestionnaireErrors>(
+      (errors, section) => ({ ...errors, ...this.validateSection(section, answers) }),
+      {}
+    );
+  }
+
+  getDesignTypeGuidance(designType: string): string | undefined {
+    return this.definition.guidance_text.design_types[designType];
+  }
+
+  getSafetyClassificationGuidance(classification: string): string | undefined {
+    return this.definition.guidance_text.safety_classifications[classification];
+  }
+
+  /**
+   * Convert answers into the questionnaireData shape read by
+   * mtDocumentService.fromAnalysisResponse
+   */
+  toQuestionnaireData(answers: QuestionnaireAnswers): Record<string, unknown> {
+    const value = (id: string) => this.getStringAnswer(answers, id) || undefined;
+    const designType = value('design_type');
+    const isDesignTypeI = designType === 'I';
+
+    return {
+      mtNumber: value('mt_number'),
+      title: value('title'),
+      requestedCompletionDate: value('completion_date'),
+      cacn: value('cacn'),
+      projectNumber: value('project_number'),
+      designType: designType ? ROMAN_DESIGN_TYPES[designType] : undefined,
+      projectType: value('project_type'),
+      relatedBuildings: value('related_buildings'),
+      relatedSystems: value('related_systems'),
+      relatedEquipment: value('related_equipment'),
+      problemDescription: value('problem_description'),
+      description: value('problem_description'),
+      justification: value('justification'),
+      projectDesignReviewRequired: isDesignTypeI ? this.toCheckboxValue(value('design_review_required')) : 'N/A',
+      majorModificationEvaluationRequired: isDesignTypeI ? this.toCheckboxValue(value('major_modification_evaluation')) : 'N/A',
+      safetyInDesignStrategyRequired: isDesignTypeI ? this.toCheckboxValue(value('safety_in_design_strategy')) : 'N/A',
+      proposedSolution: value('proposed_solution'),
+      designInputs: this.formatDocumentRows(this.getTableAnswer(answers, 'design_inputs')),
+      designInputConsiderations: value('design_considerations'),
+      preliminarySafetyClassification: value('safety_classification') === 'NA' ? 'N/A' : value('safety_classification'),
+      environmentalRisk: this.toCheckboxValue(value('environmental_risk')),
+      radiologicalRisk: this.toCheckboxValue(value('radiological_risk')),
+      hazardCategory: value('hazard_category'),
+      approvalDesignators: this.getListAnswer(answers, 'approval_designators').join(', ') || undefined,
+      otherImpacts: [
+        this.formatDocumentRows(this.getTableAnswer(answers, 'impacted_documents')),
+        value('other_impacts')
+      ].filter(Boolean).join('\n') || undefined
+    };
+  }
+
+  /**
+   * Build the analysis input for fromAnalysisResponse when the MT is filled
+   * from the questionnaire alone, without a backend analysis
+   */
+  toAnalysisResponse(answers: QuestionnaireAnswers): MTAnalysisResponse {
+    const value = (id: string) => this.getStringAnswer(answers, id);
+    const { mtRequired, reasoning, designType } = this.determineMTRequirement(answers);
+
+    return {
+      analysis: value('problem_description'),
+      mtRequired,
+      confidence: 1,
+      reasoning: `${reasoning} (entered via MT questionnaire).`,
+      designType: ROMAN_DESIGN_TYPES[value('design_type')] ?? designType
+    };
+  }
+
+  /**
+   * Figure 1 screening in the order the backend's DetermineMTRequirement walks it.
+   * The questionnaire does not ask every Figure 1 step (multiple design documents,
+   * single discipline, software changes); the Section 10 regulatory answers stand
+   * in for them before a change is treated as possibly exempt.
+   */
+  private determineMTRequirement(answers: QuestionnaireAnswers): { mtRequired: boolean; reasoning: string; designType?: number } {
+    const isYes = (id: string) => this.getStringAnswer(answers, id) === 'yes';
+
+    if (isYes('is_temporary')) {
+      return { mtRequired: false, reasoning: 'All changes are temporary', designType: ROMAN_DESIGN_TYPES.IV };
+    }
+    if (!isYes('is_physical_change')) {
+      return isYes('requires_new_procedures')
+        ? { mtRequired: true, reasoning: 'Non-physical change requiring new or revised technical procedures' }
+        : { mtRequired: false, reasoning: 'Non-physical change - MT may not be required' };
+    }
+    if (isYes('is_identical_replacement')) {
+      return { mtRequired: false, reasoning: 'Identical replacement - Design Type V', designType: ROMAN_DESIGN_TYPES.V };
+    }
+    if (isYes('multiple_design_authorities')) {
+      return { mtRequired: true, reasoning: 'Design involves more than one design authority' };
+    }
+    if (isYes('requires_new_procedures')) {
+      return { mtRequired: true, reasoning: 'New or revised technical procedures/training/maintenance manual required' };
+    }
+    if (isYes('requires_hoisting_rigging')) {
+      return { mtRequired: true, reasoning: 'Hoisting and/or rigging required' };
+    }
+
+    const regulatoryImpacts = REGULATORY_QUESTIONS
+      .filter(({ id }) => isYes(id))
+      .map(({ reason }) => reason);
+    if (regulatoryImpacts.length > 0) {
+      return { mtRequired: true, reasoning: `Regulatory impact: ${regulatoryImpacts.join(', ')}` };
+    }
+    return { mtRequired: false, reasoning: 'Possibly exempt based on decision tree criteria' };
+  }
+
+  private getSectionKey(section: QuestionnaireSection): string {
+    return section.sectionTitle.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  }
+
+  private hasAnswer(answers: QuestionnaireAnswers, question: QuestionnaireQuestion): boolean {
+    const answer = answers[question.id];
+    if (answer === undefined) return false;
+    if (typeof answer === 'string') return answer.trim().length > 0;
+    if (question.type === 'dynamic_table') {
+      return this.getTableAnswer(answers, question.id).some(row => Object.values(row).some(cell => cell.trim()));
+    }
+    return answer.length > 0;
+  }
+
+  private getStringAnswer(answers: QuestionnaireAnswers, id: string): string {
+    const answer = answers[id];
+    return typeof answer === 'string' ? answer.trim() : '';
+  }
+
+  private getListAnswer(answers: QuestionnaireAnswers, id: string): string[] {
+    const answer = answers[id];
+    return Array.isArray(answer) ? answer.filter((item): item is string => typeof item === 'string') : [];
+  }
+
+  private getTableAnswer(answers: QuestionnaireAnswers, id: string): TableRowAnswer[] {
+    const answer = answers[id];
+    return Array.isArray(answer) ? answer.filter((row): row is TableRowAnswer => typeof row === 'object') : [];
+  }
+
+  private toCheckboxValue(value: string | undefined): 'Yes' | 'No' | 'N/A' | undefined {
+    switch (value) {
+      case 'yes': return 'Yes';
+      case 'no': return 'No';
+      case 'na': return 'N/A';
+      default: return undefined;
+    }
+  }
+
+  private formatDocumentRows(rows: TableRowAnswer[]): string | undefined {
+    const lines = rows
+      .filter(row => row.document_number?.trim() || row.title?.trim())
+      .map(row => {
+        const revision = row.revision ? ` Rev. ${row.revision}` : '';
+        const impact = row.impact_description ? ` (${row.impact_description})` : '';
+        return `${row.document_type || 'Document'}: ${row.document_number || 'TBD'}${revision} - ${row.title || 'Title TBD'}${impact}`;
+      });
+    return lines.length > 0 ? lines.join(', ') : undefined;
+  }
+}
+
+// Export singleton instance
+export const questionnaireService = new QuestionnaireService();
+
+export default QuestionnaireService;
@@ -0,0 +1,311 @@
+// ============================================================================
+// RESPONSE DECODERS
+// Runtime normalization of backend payloads: missing or mistyped fields get safe
+// defaults so components can render partial and failed analyses without crashing
+// ============================================================================
+
+import {
+  Priority,
+  QualityRating,
+  Severity,
+  type AnalysisCapabilities,
+  type ComplianceAnalysis,
+  type DocumentAnalysisHistoryItem,
+  type DocumentAnalysisResult,
+  type ImprovementSuggestion
+} from '../types/documentAnalysis';
+import type { ChecklistSection, MTAnalysisResponse } from './mtAnalyzerAPI';
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecord = (value: unknown): JsonRecord => (isRecord(value) ? value : {});
+
+const asString = (value: unknown, fallback = ''): string =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : fallback;
+
+const asNumber = (value: unknown, fallback = 0): number => {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : fallback;
+};
+
+const asBoolean = (value: unknown, fallback = false): boolean =>
+  typeof value === 'boolean' ? value : fallback;
+
+const asStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+// Items that are not objects are dropped rather than decoded into empty placeholders
+const asArray = <T>(value: unknown, decodeItem: (item: JsonRecord, index: number) => T): T[] =>
+  Array.isArray(value) ? value.filter(isRecord).map(decodeItem) : [];
+
+const asNumberRecord = (value: unknown): Record<string, number> => {
+  const result: Record<string, number> = {};
+  Object.entries(asRecord(value)).forEach(([key, item]) => {
+    if (typeof item === 'number' && Number.isFinite(item)) result[key] = item;
+  });
+  return result;
+};
+
+// Backend enums arrive as names ("NeedsImprovement"); anything unknown falls back
+const asEnum = <T extends string>(values: Record<string, T>, value: unknown, fallback: T): T => {
+  const name = asString(value).toLowerCase();
+  return Object.values(values).find(option => option.toLowerCase() === name) ?? fallback;
+};
+
+// ----------------------------------------------------------------------------
+// Document analysis
+// ----------------------------------------------------------------------------
+
+function decodeCompliance(value: unknown): ComplianceAnalysis | undefined {
+  if (!isRecord(value)) return undefined;
+  return {
+    complianceFramework: asString(value.complianceFramework),
+    complianceScore: asNumber(value.complianceScore),
+    issues: asArray(value.issues, issue => ({
+      standard: asString(issue.standard),
+      requirement: asString(issue.requirement),
+      description: asString(issue.description),
+      context: asString(issue.context),
+      suggestion: asString(issue.suggestion),
+      severity: asEnum(Severity, issue.severity, Severity.Low),
+      isMandatory: asBoolean(issue.isMandatory)
+    })),
+    requiredElements: asStringArray(value.requiredElements),
+    missingElements: asStringArray(value.missingElements),
+    meetsMinimumRequirements: asBoolean(value.meetsMinimumRequirements)
+  };
+}
+
+function decodeSuggestion(suggestion: JsonRecord, index: number): ImprovementSuggestion {
+  return {
+    id: asString(suggestion.id, `suggestion-${index + 1}`),
+    category: asString(suggestion.category),
+    title: asString(suggestion.title, 'Suggestion'),
+    description: asString(suggestion.description),
+    detailedExplanation: asString(suggestion.detailedExplanation),
+    beforeExample: asString(suggestion.beforeExample),
+    afterExample: asString(suggestion.afterExample),
+    priority: asEnum(Priority, suggestion.priority, Priority.Medium),
+    impact: asEnum(Severity, suggestion.impact, Severity.Medium),
+    estimatedEffortMinutes: asNumber(suggestion.estimatedEffortMinutes),
+    applicableSections: asStringArray(suggestion.applicableSections),
+    isActionable: asBoolean(suggestion.isActionable, true)
+  };
+}
+
+/**
+ * Normalize an analyze-pdf / analyze-text payload. A payload that is not an object,
+ * or that reports isAnalysisSuccessful=false, decodes to a failed result whose
+ * errorMessage is always set; callers check isAnalysisSuccessful before rendering scores.
+ */
+export function decodeDocumentAnalysisResult(value: unknown): DocumentAnalysisResult {
+  const record = asRecord(value);
+  const metadata = asRecord(record.metadata);
+  const qualityScore = asRecord(record.qualityScore);
+  const grammar = asRecord(record.grammar);
+  const style = asRecord(record.style);
+  const statistics = asRecord(style.statistics);
+  const technical = asRecord(record.technical);
+
+  const grammarIssues = asArray(grammar.issues, issue => ({
+    type: asString(issue.type),
+    description: asString(issue.description),
+    context: asString(issue.context),
+    suggestion: asString(issue.suggestion),
+    startPosition: asNumber(issue.startPosition),
+    length: asNumber(issue.length),
+    severity: asEnum(Severity, issue.severity, Severity.Low),
+    confidence: asNumber(issue.confidence)
+  }));
+
+  const isAnalysisSuccessful = isRecord(value) && asBoolean(record.isAnalysisSuccessful, true);
+  const errorMessage = asString(record.errorMessage) || asString(record.error);
+
+  return {
+    documentId: asString(record.documentId),
+    analysisTimestamp: asString(record.analysisTimestamp, asString(record.timestamp)),
+    metadata: {
+      fileName: asString(metadata.fileName, asString(record.fileName)),
+      documentType: asString(metadata.documentType, 'general'),
+      fileSize: asNumber(metadata.fileSize, asNumber(record.fileSize)),
+      pageCount: asNumber(metadata.pageCount),
+      wordCount: asNumber(metadata.wordCount),
+      characterCount: asNumber(metadata.characterCount),
+      paragraphCount: asNumber(metadata.paragraphCount),
+      sentenceCount: asNumber(metadata.sentenceCount),
+      readabilityScore: asNumber(metadata.readabilityScore),
+      readabilityLevel: asString(metadata.readabilityLevel, 'Unknown')
+    },
+    qualityScore: {
+      overall: asNumber(qualityScore.overall),
+      grammar: asNumber(qualityScore.grammar),
+      style: asNumber(qualityScore.style),
+      clarity: asNumber(qualityScore.clarity),
+      technical: asNumber(qualityScore.technical),
+      compliance: asNumber(qualityScore.compliance),
+      rating: asEnum(QualityRating, qualityScore.rating, QualityRating.Unknown),
+      explanation: asString(qualityScore.explanation)
+    },
+    grammar: {
+      totalIssues: asNumber(grammar.totalIssues, grammarIssues.length),
+      issues: grammarIssues,
+      issueTypeFrequency: asNumberRecord(grammar.issueTypeFrequency),
+      accuracyScore: asNumber(grammar.accuracyScore)
+    },
+    style: {
+      clarityScore: asNumber(style.clarityScore),
+      consistencyScore: asNumber(style.consistencyScore),
+      concisionScore: asNumber(style.concisionScore),
+      professionalismScore: asNumber(style.professionalismScore),
+      issues: asArray(style.issues, issue => ({
+        type: asString(issue.type),
+        description: asString(issue.description),
+        context: asString(issue.context),
+        suggestion: asString(issue.suggestion),
+        severity: asEnum(Severity, issue.severity, Severity.Low)
+      })),
+      statistics: {
+        averageSentenceLength: asNumber(statistics.averageSentenceLength),
+        averageWordsPerParagraph: asNumber(statistics.averageWordsPerParagraph),
+        passiveVoiceCount: asNumber(statistics.passiveVoiceCount),
+        complexSentenceCount: asNumber(statistics.complexSentenceCount),
+        wordFrequency: asNumberRecord(statistics.wordFrequency),
+        technicalTerms: asStringArray(statistics.technicalTerms)
+      }
+    },
+    technical: {
+      technicalAccuracyScore: asNumber(technical.technicalAccuracyScore),
+      terminologyConsistencyScore: asNumber(technical.terminologyConsistencyScore),
+      structureScore: asNumber(technical.structureScore),
+      issues: asArray(technical.issues, issue => ({
+        type: asString(issue.type),
+        description: asString(issue.description),
+        context: asString(issue.context),
+        suggestion: asString(issue.suggestion),
+        severity: asEnum(Severity, issue.severity, Severity.Low),
+        relatedStandards: asStringArray(issue.relatedStandards)
+      })),
+      identifiedStandards: asStringArray(technical.identifiedStandards),
+      technicalTerms: asStringArray(technical.technicalTerms),
+      hasProperTechnicalStructure: asBoolean(technical.hasProperTechnicalStructure)
+    },
+    compliance: decodeCompliance(record.compliance),
+    suggestions: asArray(record.suggestions, decodeSuggestion),
+    summary: asString(record.summary),
+    isAnalysisSuccessful,
+    errorMessage: isAnalysisSuccessful
+      ? errorMessage || undefined
+      : errorMessage || 'The analysis service returned an unexpected response'
+  };
+}
+
+// Newest first, as the backend returns them; rows without a documentId cannot be reopened and are dropped
+export function decodeDocumentAnalysisHistory(value: unknown): DocumentAnalysisHistoryItem[] {
+  return asArray(value, item => ({
+    documentId: asString(item.documentId),
+    fileName: asString(item.fileName, 'Untitled document'),
+    documentType: asString(item.documentType, 'general'),
+    analysisDate: asString(item.analysisDate),
+    overallScore: asNumber(item.overallScore),
+    rating: asEnum(QualityRating, item.rating, QualityRating.Unknown),
+    issuesFound: asNumber(item.issuesFound)
+  })).filter(item => item.documentId);
+}
+
+export function decodeAnalysisCapabilities(value: unknown): AnalysisCapabilities {
+  const record = asRecord(value);
+  return {
+    supportedFileTypes: asStringArray(record.supportedFileTypes),
+    maxFileSize: asNumber(record.maxFileSize),
+    maxTextLength: asNumber(record.maxTextLength),
+    supportedDocumentTypes: asStringArray(record.supportedDocumentTypes),
+    analysisFeatures: asStringArray(record.analysisFeatures),
+    complianceFrameworks: asStringArray(record.complianceFrameworks)
+  };
+}
+
+// ----------------------------------------------------------------------------
+// MT analysis
+// ----------------------------------------------------------------------------
+
+function decodeChecklistSection(value: unknown): ChecklistSection {
+  const section = asRecord(value);
+  return {
+    items: asArray(section.items, item => ({
+      description: asString(item.description),
+      status: asString(item.status, 'Pending'),
+      comments: asString(item.comments),
+      required: asBoolean(item.required, true)
+    })),
+    completionPercentage: asNumber(section.completionPercentage),
+    riskLevel: asString(section.riskLevel, 'Unknown')
+  };
+}
+
+/**
+ * Normalize an analyze-with-gpt4 payload. Unlike document analysis there is no
+ * failure flag in the contract, so a payload that is not an object (or carries
+ * only the backend's { error } body) throws with the backend's message.
+ */
+export function decodeMTAnalysisResponse(value: unknown): MTAnalysisResponse {
+  if (!isRecord(value) || (typeof value.error === 'string' && !('analysisId' in value))) {
+    const error = isRecord(value) ? asString(value.error) : '';
+    throw new Error(error || 'MT analysis returned an unexpected response');
+  }
+
+  const designInputs = asRecord(value.designInputs);
+  const checklist = asRecord(value.attachmentAChecklist);
+  const risk = asRecord(value.riskAssessment);
+
+  return {
+    analysisId: asString(value.analysisId),
+    timestamp: asString(value.timestamp),
+    projectNumber: asString(value.projectNumber),
+    mtRequired: asBoolean(value.mtRequired),
+    mtRequiredReason: asString(value.mtRequiredReason),
+    designType: asNumber(value.designType),
+    designInputs: {
+      problemStatement: asString(designInputs.problemStatement),
+      proposedSolution: asString(designInputs.proposedSolution),
+      designConstraints: asStringArray(designInputs.designConstraints),
+      safetyRequirements: asStringArray(designInputs.safetyRequirements),
+      environmentalConsiderations: asStringArray(designInputs.environmentalConsiderations),
+      operationalImpacts: asStringArray(designInputs.operationalImpacts)
+    },
+    expectedOutputs: asArray(value.expectedOutputs, output => ({
+      type: asString(output.type),
+      description: asString(output.description),
+      required: asBoolean(output.required),
+      status: asString(output.status)
+    })),
+    impactedDocuments: asArray(value.impactedDocuments, document => ({
+      documentId: asString(document.documentId),
+      documentType: asString(document.documentType),
+      impactRationale: asString(document.impactRationale),
+      requiresUpdate: asBoolean(document.requiresUpdate),
+      suggestedReviewers: asStringArray(document.suggestedReviewers)
+    })),
+    missingElements: asStringArray(value.missingElements),
+    inconsistencies: asStringArray(value.inconsistencies),
+    suggestedActions: asStringArray(value.suggestedActions),
+    attachmentAChecklist: {
+      a1DesignOutputCheck: decodeChecklistSection(checklist.a1DesignOutputCheck),
+      a2EngineeringImpacts: decodeChecklistSection(checklist.a2EngineeringImpacts),
+      a3NonEngineeringImpacts: decodeChecklistSection(checklist.a3NonEngineeringImpacts),
+      a4SystemAcceptability: decodeChecklistSection(checklist.a4SystemAcceptability),
+      a5InterfaceReviews: decodeChecklistSection(checklist.a5InterfaceReviews)
+    },
+    riskAssessment: {
+      overallRisk: asString(risk.overallRisk, 'Unknown'),
+      safetyRisk: asString(risk.safetyRisk, 'Unknown'),
+      environmentalRisk: asString(risk.environmentalRisk, 'Unknown'),
+      operationalRisk: asString(risk.operationalRisk, 'Unknown'),
+      riskFactors: asStringArray(risk.riskFactors),
+      mitigationRecommendations: asStringArray(risk.mitigationRecommendations)
+    },
+    confidence: asNumber(value.confidence)
+  };
+}
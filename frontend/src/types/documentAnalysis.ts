@@ -176,6 +176,29 @@ export interface AnalyzeTextRequest {
   performStyleCheck: boolean;
   performTechnicalReview: boolean;
   performComplianceCheck: boolean;
+  complianceFramework?: string;
+}
+
+// Choices made in the analysis option panels
+export interface AnalysisOptions {
+  documentType: string;
+  performGrammarCheck: boolean;
+  performStyleCheck: boolean;
+  performTechnicalReview: boolean;
+  performComplianceCheck: boolean;
+  // One of AnalysisCapabilities.complianceFrameworks; empty uses the backend's configured framework
+  complianceFramework: string;
+}
+
+// Summary row from api/DocumentAnalysis/history; the full result is fetched by documentId
+export interface DocumentAnalysisHistoryItem {
+  documentId: string;
+  fileName: string;
+  documentType: string;
+  analysisDate: string;
+  overallScore: number;
+  rating: QualityRating;
+  issuesFound: number;
 }
 
 export interface AnalysisCapabilities {
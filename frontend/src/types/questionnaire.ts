@@ -0,0 +1,74 @@
+// MT Questionnaire Types
+// Shapes of data/mt-questionnaire.json and the answers collected from it
+
+export type QuestionType =
+  | 'text'
+  | 'date'
+  | 'radio'
+  | 'select'
+  | 'checkbox'
+  | 'textarea'
+  | 'dynamic_table';
+
+export interface QuestionOption {
+  value: string;
+  label: string;
+}
+
+export interface TableColumn {
+  name: string;
+  label: string;
+  placeholder?: string;
+}
+
+export interface QuestionCondition {
+  depends_on: string;
+  show_when: string[];
+}
+
+export interface QuestionnaireQuestion {
+  id: string;
+  question: string;
+  type: QuestionType;
+  required: boolean;
+  placeholder?: string;
+  rows?: number;
+  options?: QuestionOption[];
+  columns?: TableColumn[];
+  conditional?: QuestionCondition;
+}
+
+export interface QuestionnaireSection {
+  sectionNumber: number;
+  sectionTitle: string;
+  questions: QuestionnaireQuestion[];
+}
+
+export interface QuestionnaireValidationRules {
+  required_sections: number[];
+  conditional_sections: Record<string, {
+    show_when: Record<string, string[]>;
+  }>;
+}
+
+export interface QuestionnaireGuidance {
+  design_types: Record<string, string>;
+  safety_classifications: Record<string, string>;
+}
+
+export interface QuestionnaireDefinition {
+  version: string;
+  description: string;
+  sections: QuestionnaireSection[];
+  validation_rules: QuestionnaireValidationRules;
+  guidance_text: QuestionnaireGuidance;
+}
+
+// Answer values by question type:
+// text/date/radio/select/textarea -> string, checkbox -> string[], dynamic_table -> rows
+export type TableRowAnswer = Record<string, string>;
+export type QuestionAnswer = string | string[] | TableRowAnswer[];
+export type QuestionnaireAnswers = Record<string, QuestionAnswer>;
+
+// Validation errors keyed by question id
+export type QuestionnaireErrors = Record<string, string>;
@@ -1,173 +1,324 @@
-import { PDFDocument, PDFForm, PDFTextField, PDFCheckBox, rgb } from 'pdf-lib';
+import { PDFDocument, PDFFont, PDFForm, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import type { MTDocumentData } from '../services/mtDocumentService';
 
-export async function createFillableMTForm(): Promise<Blob> {
+type RiskKey = 'overallRisk' | 'safetyRisk' | 'environmentalRisk' | 'operationalRisk';
+
+export interface MTPdfFieldDefinition {
+  name: string;
+  label: string;
+  // MTDocumentData field the value is read from (risk fields live under riskAssessment)
+  source?: keyof MTDocumentData;
+  riskKey?: RiskKey;
+  multiline?: boolean;
+}
+
+interface MTPdfSection {
+  title?: string;
+  fields: MTPdfFieldDefinition[];
+}
+
+export interface MTPdfOptions {
+  // Flatten the AcroForm into static text for a read-only issued copy
+  flatten?: boolean;
+}
+
+// AcroForm field names are part of the form's contract: filled PDFs are read back by these names
+export const MT_PDF_SECTIONS: MTPdfSection[] = [
+  {
+    fields: [
+      { name: 'projectNumber', label: 'Project Number:', source: 'projectNumber' },
+      { name: 'projectTitle', label: 'Project Title:', source: 'title' },
+      { name: 'requestDate', label: 'Request Date:', source: 'submissionDate' },
+      { name: 'requestedBy', label: 'Requested By:', source: 'submittedBy' },
+      { name: 'organization', label: 'Organization:', source: 'facility' }
+    ]
+  },
+  {
+    title: 'PROBLEM DESCRIPTION',
+    fields: [
+      { name: 'problemDescription', label: 'Problem Description:', source: 'problemDescription', multiline: true },
+      { name: 'proposedSolution', label: 'Proposed Solution:', source: 'proposedSolution', multiline: true },
+      { name: 'justification', label: 'Justification:', source: 'justification', multiline: true }
+    ]
+  },
+  {
+    title: 'CLASSIFICATION',
+    fields: [
+      { name: 'safetyClassification', label: 'Safety Classification:', source: 'preliminarySafetyClassification' },
+      { name: 'hazardCategory', label: 'Hazard Category:', source: 'hazardCategory' },
+      { name: 'designType', label: 'Design Type:', source: 'designType' }
+    ]
+  },
+  {
+    title: 'MT DETERMINATION',
+    fields: [
+      { name: 'mtRequiredReason', label: 'MT Required Reason:', source: 'mtRequiredReason', multiline: true }
+    ]
+  },
+  {
+    title: 'RISK ASSESSMENT',
+    fields: [
+      { name: 'overallRisk', label: 'Overall Risk:', riskKey: 'overallRisk' },
+      { name: 'safetyRisk', label: 'Safety Risk:', riskKey: 'safetyRisk' },
+      { name: 'environmentalRisk', label: 'Environmental Risk:', riskKey: 'environmentalRisk' },
+      { name: 'operationalRisk', label: 'Operational Risk:', riskKey: 'operationalRisk' }
+    ]
+  },
+  {
+    title: 'APPROVALS',
+    fields: [
+      { name: 'preparedBy', label: 'Prepared By:', source: 'preparedBy' },
+      { name: 'preparedDate', label: 'Prepared Date:', source: 'preparedDate' },
+      { name: 'reviewedBy', label: 'Reviewed By:', source: 'reviewedBy' },
+      { name: 'reviewedDate', label: 'Reviewed Date:', source: 'reviewedDate' },
+      { name: 'approvedBy', label: 'Approved By:', source: 'approvedBy' },
+      { name: 'approvedDate', label: 'Approved Date:', source: 'approvedDate' }
+    ]
+  },
+  {
+    fields: [
+      { name: 'confidence', label: 'Confidence Level:', source: 'confidence' },
+      { name: 'documentId', label: 'Document ID:', source: 'mtNumber' },
+      { name: 'generatedDate', label: 'Generated Date:' }
+    ]
+  }
+];
+
+export const MT_PDF_CHECKBOXES = { yes: 'mtRequiredYes', no: 'mtRequiredNo' };
+
+// Text that overflows a page continues in "<name>_cont2", "<name>_cont3", ... on the next pages
+export const MT_PDF_CONTINUATION_SUFFIX = '_cont';
+
+const PAGE_SIZE: [number, number] = [612, 792]; // Standard letter size
+const MARGIN = 50;
+const FIELD_HEIGHT = 20;
+const LABEL_WIDTH = 150;
+const FIELD_WIDTH = 300;
+const LINE_SPACING = 35;
+const FONT_SIZE = 10;
+const TEXT_LINE_HEIGHT = 12;
+const FIELD_PADDING = 6;
+
+interface WrappedLine {
+  text: string;
+  paragraphEnd: boolean;
+}
+
+// Standard fonts only encode WinAnsi, so swap typographic characters and drop anything else
+const toWinAnsi = (text: string): string => text
+  .replace(/[‘’]/g, "'")
+  .replace(/[“”]/g, '"')
+  .replace(/[–—]/g, '-')
+  .replace(/•/g, '*')
+  .replace(/\r\n?/g, '\n')
+  .replace(/[^\x09\x0A\x20-\x7E\xA0-\xFF]/g, '?');
+
+const wrapText = (text: string, font: PDFFont, maxWidth: number): WrappedLine[] => {
+  const lines: WrappedLine[] = [];
+  const fits = (line: string) => font.widthOfTextAtSize(line, FONT_SIZE) <= maxWidth;
+
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (fits(candidate)) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push({ text: line, paragraphEnd: false });
+      // Words wider than the field are broken by character
+      line = '';
+      for (const char of word) {
+        if (line && !fits(line + char)) {
+          lines.push({ text: line, paragraphEnd: false });
+          line = '';
+        }
+        line += char;
+      }
+    });
+    lines.push({ text: line, paragraphEnd: true });
+  });
+
+  return lines;
+};
+
+const joinLines = (lines: WrappedLine[]): string => lines
+  .map((line, index) => line.text + (index < lines.length - 1 ? (line.paragraphEnd ? '\n' : ' ') : ''))
+  .join('');
+
+export function getMTPdfFieldValue(field: MTPdfFieldDefinition, data: Partial<MTDocumentData>): string {
+  // The blank template leaves the generated date for whoever fills it in
+  if (field.name === 'generatedDate') return Object.keys(data).length > 0 ? new Date().toLocaleDateString() : '';
+  const value = field.riskKey ? data.riskAssessment?.[field.riskKey] : field.source ? data[field.source] : undefined;
+  if (value === undefined || value === null || typeof value === 'object') return '';
+  if (field.name === 'confidence' && typeof value === 'number') return `${value}%`;
+  return String(value);
+}
+
+/**
+ * Build the MT determination AcroForm. With data every field is pre-filled; without it
+ * the blank template is produced. Multiline fields grow with their text and continue on
+ * additional pages when they do not fit.
+ */
+export async function createFillableMTForm(data: Partial<MTDocumentData> = {}, options: MTPdfOptions = {}): Promise<Blob> {
   try {
     console.log('Creating fillable MT form...');
-    
+
     const pdfDoc = await PDFDocument.create();
-    const page = pdfDoc.addPage([612, 792]); // Standard letter size
-    const { width, height } = page.getSize();
-    
-    // Get the form
-    const form = pdfDoc.getForm();
-    
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const form: PDFForm = pdfDoc.getForm();
+
+    let page: PDFPage = pdfDoc.addPage(PAGE_SIZE);
+    const { height } = page.getSize();
+
     // Title
     page.drawText('MODIFICATION TRAVELER (MT) DETERMINATION FORM', {
-      x: 50,
-      y: height - 50,
+      x: MARGIN,
+      y: height - MARGIN,
       size: 16,
       color: rgb(0, 0, 0),
     });
-    
+
     let yPos = height - 100;
-    const fieldHeight = 20;
-    const labelWidth = 150;
-    const fieldWidth = 300;
-    const lineSpacing = 35;
-    
-    // Helper function to add a text field
-    const addTextField = (label: string, fieldName: string, isMultiline: boolean = false) => {
-      // Draw label
+
+    const newPage = () => {
+      page = pdfDoc.addPage(PAGE_SIZE);
+      page.drawText(`MT DETERMINATION FORM${data.mtNumber ? ` - ${toWinAnsi(data.mtNumber)}` : ''} (continued)`, {
+        x: MARGIN,
+        y: height - MARGIN,
+        size: 12,
+        color: rgb(0, 0, 0),
+      });
+      yPos = height - 90;
+    };
+
+    // Start a new page when the next element would run into the bottom margin
+    const ensureSpace = (needed: number) => {
+      if (yPos - needed < MARGIN) newPage();
+    };
+
+    const drawLabel = (label: string) => {
       page.drawText(label, {
-        x: 50,
+        x: MARGIN,
         y: yPos + 5,
-        size: 10,
+        size: FONT_SIZE,
         color: rgb(0, 0, 0),
       });
-      
-      // Create text field
-      const textField = form.createTextField(fieldName);
-      // Don't set font size to avoid the /DA error
-      textField.setText(''); // Set empty default text
-      if (isMultiline) {
+    };
+
+    const addSectionHeader = (title: string) => {
+      ensureSpace(25 + LINE_SPACING);
+      page.drawText(title, {
+        x: MARGIN,
+        y: yPos,
+        size: 12,
+        color: rgb(0, 0, 0),
+      });
+      yPos -= 25;
+    };
+
+    const addTextField = (field: MTPdfFieldDefinition) => {
+      const value = toWinAnsi(getMTPdfFieldValue(field, data));
+
+      if (!field.multiline) {
+        ensureSpace(FIELD_HEIGHT);
+        drawLabel(field.label);
+        const textField = form.createTextField(field.name);
+        // Don't set font size to avoid the /DA error; long values are auto-sized to fit
+        textField.setText(value);
+        textField.addToPage(page, { x: MARGIN + LABEL_WIDTH, y: yPos, width: FIELD_WIDTH, height: FIELD_HEIGHT, font });
+        yPos -= LINE_SPACING;
+        return;
+      }
+
+      // Multiline fields keep at least their original three-line height
+      const minHeight = FIELD_HEIGHT * 3;
+      let remaining = wrapText(value, font, FIELD_WIDTH - FIELD_PADDING * 2);
+      let part = 1;
+
+      do {
+        ensureSpace(minHeight);
+        const available = yPos + FIELD_HEIGHT - MARGIN;
+        const linesThatFit = Math.max(1, Math.floor((available - FIELD_PADDING) / TEXT_LINE_HEIGHT));
+        const lines = remaining.slice(0, linesThatFit);
+        remaining = remaining.slice(linesThatFit);
+        const fieldHeight = Math.max(minHeight, lines.length * TEXT_LINE_HEIGHT + FIELD_PADDING);
+
+        drawLabel(part === 1 ? field.label : `${field.label.replace(/:$/, '')} (cont.):`);
+        const textField = form.createTextField(part === 1 ? field.name : `${field.name}${MT_PDF_CONTINUATION_SUFFIX}${part}`);
         textField.enableMultiline();
+        // A part that stops mid-paragraph keeps its separator so the parts join back losslessly
+        const separator = remaining.length > 0 ? (lines[lines.length - 1].paragraphEnd ? '\n' : ' ') : '';
+        textField.setText(joinLines(lines) + separator);
         textField.addToPage(page, {
-          x: 50 + labelWidth,
-          y: yPos - (fieldHeight * 2),
-          width: fieldWidth,
-          height: fieldHeight * 3,
-        });
-        yPos -= lineSpacing * 2;
-      } else {
-        textField.addToPage(page, {
-          x: 50 + labelWidth,
-          y: yPos,
-          width: fieldWidth,
+          x: MARGIN + LABEL_WIDTH,
+          y: yPos + FIELD_HEIGHT - fieldHeight,
+          width: FIELD_WIDTH,
           height: fieldHeight,
+          font,
         });
-        yPos -= lineSpacing;
-      }
+        yPos -= fieldHeight - minHeight + LINE_SPACING * 2;
+
+        if (remaining.length > 0) newPage();
+        part++;
+      } while (remaining.length > 0);
     };
-    
+
     // Helper function to add a checkbox
-    const addCheckBox = (label: string, fieldName: string) => {
-      // Draw label
+    const addCheckBox = (label: string, fieldName: string, checked: boolean) => {
+      ensureSpace(FIELD_HEIGHT);
       page.drawText(label, {
         x: 70,
         y: yPos + 5,
-        size: 10,
+        size: FONT_SIZE,
         color: rgb(0, 0, 0),
       });
-      
-      // Create checkbox
+
       const checkBox = form.createCheckBox(fieldName);
       checkBox.addToPage(page, {
-        x: 50,
+        x: MARGIN,
         y: yPos,
         width: 15,
         height: 15,
       });
-      
-      yPos -= lineSpacing;
+      if (checked) checkBox.check();
+
+      yPos -= LINE_SPACING;
     };
-    
-    // Add form fields
-    addTextField('Project Number:', 'projectNumber');
-    addTextField('Project Title:', 'projectTitle');
-    addTextField('Request Date:', 'requestDate');
-    addTextField('Requested By:', 'requestedBy');
-    addTextField('Organization:', 'organization');
-    
-    // Section header
-    yPos -= 10;
-    page.drawText('PROBLEM DESCRIPTION', {
-      x: 50,
-      y: yPos,
-      size: 12,
-      color: rgb(0, 0, 0),
-    });
-    yPos -= 25;
-    
-    addTextField('Problem Description:', 'problemDescription', true);
-    addTextField('Proposed Solution:', 'proposedSolution', true);
-    addTextField('Justification:', 'justification', true);
-    
-    // Classification section
-    page.drawText('CLASSIFICATION', {
-      x: 50,
-      y: yPos,
-      size: 12,
-      color: rgb(0, 0, 0),
-    });
-    yPos -= 25;
-    
-    addTextField('Safety Classification:', 'safetyClassification');
-    addTextField('Hazard Category:', 'hazardCategory');
-    addTextField('Design Type:', 'designType');
-    
-    // MT Required section
-    page.drawText('MT DETERMINATION', {
-      x: 50,
-      y: yPos,
-      size: 12,
-      color: rgb(0, 0, 0),
-    });
-    yPos -= 25;
-    
-    addCheckBox('MT Required - YES', 'mtRequiredYes');
-    addCheckBox('MT Required - NO', 'mtRequiredNo');
-    addTextField('MT Required Reason:', 'mtRequiredReason', true);
-    
-    // Risk Assessment section
-    page.drawText('RISK ASSESSMENT', {
-      x: 50,
-      y: yPos,
-      size: 12,
-      color: rgb(0, 0, 0),
+
+    MT_PDF_SECTIONS.forEach(section => {
+      if (section.title) {
+        yPos -= 10;
+        addSectionHeader(section.title);
+      }
+      if (section.title === 'MT DETERMINATION') {
+        addCheckBox('MT Required - YES', MT_PDF_CHECKBOXES.yes, data.mtRequired === true);
+        addCheckBox('MT Required - NO', MT_PDF_CHECKBOXES.no, data.mtRequired === false);
+      }
+      section.fields.forEach(addTextField);
     });
-    yPos -= 25;
-    
-    addTextField('Overall Risk:', 'overallRisk');
-    addTextField('Safety Risk:', 'safetyRisk');
-    addTextField('Environmental Risk:', 'environmentalRisk');
-    addTextField('Operational Risk:', 'operationalRisk');
-    
-    // Signatures section
-    page.drawText('APPROVALS', {
-      x: 50,
-      y: yPos,
-      size: 12,
-      color: rgb(0, 0, 0),
+
+    // Page numbers once the final page count is known
+    const pages = pdfDoc.getPages();
+    pages.forEach((pdfPage, index) => {
+      pdfPage.drawText(`Page ${index + 1} of ${pages.length}`, {
+        x: PAGE_SIZE[0] - MARGIN - 60,
+        y: MARGIN / 2,
+        size: 8,
+        color: rgb(0.4, 0.4, 0.4),
+      });
     });
-    yPos -= 25;
-    
-    addTextField('Prepared By:', 'preparedBy');
-    addTextField('Prepared Date:', 'preparedDate');
-    addTextField('Reviewed By:', 'reviewedBy');
-    addTextField('Reviewed Date:', 'reviewedDate');
-    addTextField('Approved By:', 'approvedBy');
-    addTextField('Approved Date:', 'approvedDate');
-    
-    // Additional fields
-    addTextField('Confidence Level:', 'confidence');
-    addTextField('Document ID:', 'documentId');
-    addTextField('Generated Date:', 'generatedDate');
-    
+
+    form.updateFieldAppearances(font);
+    if (options.flatten) {
+      form.flatten();
+    }
+
     const pdfBytes = await pdfDoc.save();
-    console.log('Fillable MT form created successfully');
-    
+    console.log(`Fillable MT form created successfully (${pages.length} page(s)${options.flatten ? ', flattened' : ''})`);
+
     return new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
-    
+
   } catch (error) {
     console.error('Error creating fillable MT form:', error);
     throw error;
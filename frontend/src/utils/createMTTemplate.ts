@@ -1,7 +1,15 @@
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, Table, TableRow, TableCell, WidthType, BorderStyle } from 'docx';
+import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, Table, TableRow, TableCell, WidthType, BorderStyle, HighlightColor, PageNumber } from 'docx';
+import { getVerificationStatus, type MTProvenanceMap } from '../services/mtProvenance';
+import {
+  ATTACHMENT_A_CATEGORIES,
+  calculateAttachmentACompletion,
+  calculateChecklistCompletion,
+  type AttachmentABackendSection,
+  type AttachmentAData
+} from '../services/attachmentAChecklist';
 
 // Checkbox rendering helper functions
-function getDesignTypeCheckboxes(designType?: string): string {
+export function getDesignTypeCheckboxes(designType?: string): string {
   const types = ['I', 'II', 'III', 'IV', 'V', 'VI'];
   const selectedType = extractDesignTypeFromString(designType);
   
@@ -17,7 +25,7 @@ function extractDesignTypeFromString(designType?: string): string {
   return match ? match[1].toUpperCase() : '';
 }
 
-function getYesNoCheckboxes(value?: string, includeNA: boolean = false): string {
+export function getYesNoCheckboxes(value?: string, includeNA: boolean = false): string {
   const selected = value?.toLowerCase();
   const yes = selected === 'yes' ? '☑' : '☐';
   const no = selected === 'no' ? '☑' : '☐';
@@ -26,7 +34,7 @@ function getYesNoCheckboxes(value?: string, includeNA: boolean = false): string
   return includeNA ? `${yes} Yes ${no} No ${na} N/A` : `${yes} Yes ${no} No`;
 }
 
-function getSafetyClassificationCheckboxes(value?: string): string {
+export function getSafetyClassificationCheckboxes(value?: string): string {
   const selected = value?.toUpperCase();
   const sc = selected === 'SC' ? '☑' : '☐';
   const ss = selected === 'SS' ? '☑' : '☐';
@@ -41,6 +49,9 @@ interface MTDocumentData {
   projectNumber?: string;
   title?: string;
   facility?: string;
+  cacn?: string;
+  projectType?: string;
+  revision?: string;
   submittedBy?: string;
   submissionDate?: string;
   estimatedStartDate?: string;
@@ -99,9 +110,104 @@ interface MTDocumentData {
   reviewedDate?: string;
   approvedBy?: string;
   approvedDate?: string;
+  attachmentA?: AttachmentAData;
+  attachmentARiskLevels?: Partial<Record<AttachmentABackendSection, string>>;
 }
 
-export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<Blob> {
+// Attachment A checklist: a summary line, then one table per non-empty category
+function createAttachmentASection(attachmentA?: AttachmentAData, riskLevels?: Partial<Record<AttachmentABackendSection, string>>): (Paragraph | Table)[] {
+  if (!attachmentA) return [];
+
+  const overall = calculateAttachmentACompletion(attachmentA);
+  const riskSummary = Object.entries(riskLevels || {}).map(([section, risk]) => `${section}: ${risk}`).join(' | ');
+  const cell = (text: string, width: number, bold = false) => new TableCell({
+    children: [new Paragraph({ children: [new TextRun({ text, bold, size: 18 })] })],
+    width: { size: width, type: WidthType.PERCENTAGE },
+  });
+  const statusBoxes = (status: string) => ['Complete', 'Pending', 'N/A']
+    .map(option => `${status === option ? '☑' : '☐'} ${option}`)
+    .join(' ');
+
+  const tables = ATTACHMENT_A_CATEGORIES
+    .filter(category => (attachmentA[category.key] || []).length > 0)
+    .flatMap(category => {
+      const items = attachmentA[category.key] || [];
+      const completion = calculateChecklistCompletion(items);
+      return [
+        new Paragraph({
+          children: [new TextRun({
+            text: `${category.title} - ${completion.percentage}% complete (${completion.complete} of ${completion.total - completion.notApplicable})`,
+            bold: true,
+          })],
+          spacing: { before: 200, after: 100 },
+        }),
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [
+            new TableRow({
+              children: [
+                cell('#', 4, true),
+                cell('Item', 36, true),
+                cell('Status', 22, true),
+                cell('Reviewer', 13, true),
+                cell('Date', 10, true),
+                cell('Comments', 15, true),
+              ],
+            }),
+            ...items.map((item, index) => new TableRow({
+              children: [
+                cell(String(index + 1), 4),
+                cell(`${item.description}${item.required ? ' *' : ''}${item.sourceSection ? ` (${item.sourceSection})` : ''}`, 36),
+                cell(statusBoxes(item.status), 22),
+                cell(item.reviewer || '', 13),
+                cell(item.date || '', 10),
+                cell(item.comments || '', 15),
+              ],
+            })),
+          ],
+        }),
+      ];
+    });
+
+  return [
+    new Paragraph({
+      children: [new TextRun({ text: "ATTACHMENT A - DESIGN VERIFICATION CHECKLIST", bold: true, size: 24 })],
+      pageBreakBefore: true,
+      spacing: { after: 100 },
+    }),
+    new Paragraph({
+      children: [new TextRun({
+        text: `Overall completion: ${overall.percentage}% (${overall.complete} complete, ${overall.pending} pending, ${overall.notApplicable} N/A)${riskSummary ? ` | Backend risk levels: ${riskSummary}` : ''} | * Required item`,
+        size: 18,
+      })],
+      spacing: { after: 100 },
+    }),
+    ...tables,
+  ];
+}
+
+export interface MTTemplateOptions {
+  // When set, values that were AI-guessed (yellow) or defaulted (grey) are highlighted for review
+  provenance?: MTProvenanceMap;
+}
+
+export async function createMTTemplate(data?: Partial<MTDocumentData>, options: MTTemplateOptions = {}): Promise<Blob> {
+  // Text run for a field value, highlighted according to where the value came from
+  const valueRun = (field: keyof MTProvenanceMap, text: string) => {
+    const provenance = options.provenance?.[field];
+    const status = getVerificationStatus(provenance);
+    if (!provenance || status === 'verified') {
+      return new TextRun({ text });
+    }
+    return new TextRun({
+      text,
+      highlight: status === 'defaulted' ? HighlightColor.LIGHT_GRAY : HighlightColor.YELLOW
+    });
+  };
+
+  const unverifiedFields = Object.values(options.provenance || {})
+    .filter(provenance => getVerificationStatus(provenance) !== 'verified');
+
   // Default data values
   const defaultData = {
     projectNumber: data?.projectNumber || '[Project Number]',
@@ -148,7 +254,10 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                 new TableCell({
                   children: [
                     new Paragraph({
-                      children: [new TextRun({ text: `MT-${defaultData.projectNumber} Rev.00 ${defaultData.generatedDate} Page {pageNum} of {totalPages}`, size: 20 })]
+                      children: [new TextRun({
+                        children: [`MT-${defaultData.projectNumber} Rev.${(data?.revision || '0').padStart(2, '0')} ${defaultData.generatedDate} Page `, PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES],
+                        size: 20
+                      })]
                     })
                   ],
                   width: { size: 100, type: WidthType.PERCENTAGE },
@@ -216,6 +325,20 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
           spacing: { after: 200 },
         }),
 
+        // Review key, only when provenance highlighting was requested
+        ...(unverifiedFields.length > 0 ? [
+          new Paragraph({
+            children: [
+              new TextRun({ text: `REVIEW REQUIRED: ${unverifiedFields.length} field(s) were filled from AI analysis or defaults. `, bold: true, size: 18 }),
+              new TextRun({ text: "AI-guessed", highlight: HighlightColor.YELLOW, size: 18 }),
+              new TextRun({ text: " / ", size: 18 }),
+              new TextRun({ text: "default value", highlight: HighlightColor.LIGHT_GRAY, size: 18 }),
+              new TextRun({ text: " - verify each highlighted value before release.", size: 18 }),
+            ],
+            spacing: { after: 200 },
+          }),
+        ] : []),
+
         // Header Info Table
         new Table({
           width: { size: 100, type: WidthType.PERCENTAGE },
@@ -231,7 +354,7 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "1. MT No:", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: defaultData.projectNumber })] }),
+                    new Paragraph({ children: [valueRun('projectNumber', defaultData.projectNumber)] }),
                   ],
                   width: { size: 20, type: WidthType.PERCENTAGE },
                 }),
@@ -245,7 +368,7 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "2. Title:", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: defaultData.title })] }),
+                    new Paragraph({ children: [valueRun('title', defaultData.title)] }),
                   ],
                   width: { size: 50, type: WidthType.PERCENTAGE },
                 }),
@@ -289,14 +412,14 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "3. Requested Completion Date (Optional):", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: defaultData.dueDate })] }),
+                    new Paragraph({ children: [valueRun('dueDate', defaultData.dueDate)] }),
                   ],
                   width: { size: 50, type: WidthType.PERCENTAGE },
                 }),
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "4. CACN (optional)", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: "{cacn}" })] }),
+                    new Paragraph({ children: [valueRun('cacn', data?.cacn || '')] }),
                   ],
                   width: { size: 50, type: WidthType.PERCENTAGE },
                 }),
@@ -307,7 +430,7 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "5. Project Number: ☐", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: "{projectNumber}" })] }),
+                    new Paragraph({ children: [valueRun('projectNumber', defaultData.projectNumber)] }),
                   ],
                   width: { size: 25, type: WidthType.PERCENTAGE },
                 }),
@@ -316,9 +439,7 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                     new Paragraph({ children: [new TextRun({ text: "6. Design Type:", bold: true })] }),
                     new Paragraph({ 
                       children: [
-                        new TextRun({ 
-                          text: `${getDesignTypeCheckboxes(data?.designType)} ${data?.designType || ''}` 
-                        })
+                        valueRun('designType', `${getDesignTypeCheckboxes(data?.designType)} ${data?.designType || ''}`)
                       ] 
                     }),
                   ],
@@ -327,7 +448,7 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "7. Project Type:", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: "{projectType}" })] }),
+                    new Paragraph({ children: [valueRun('projectType', data?.projectType || '')] }),
                   ],
                   width: { size: 40, type: WidthType.PERCENTAGE },
                 }),
@@ -361,21 +482,21 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "a. Related Building/Facilities ☐ N/A", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: data?.relatedBuildings || "To Be Determined During Site Survey" })] }),
+                    new Paragraph({ children: [valueRun('relatedBuildings', data?.relatedBuildings || "To Be Determined During Site Survey")] }),
                   ],
                   width: { size: 33, type: WidthType.PERCENTAGE },
                 }),
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "b. Related Systems ☐ N/A", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: data?.relatedSystems || "To Be Determined During Engineering Review" })] }),
+                    new Paragraph({ children: [valueRun('relatedSystems', data?.relatedSystems || "To Be Determined During Engineering Review")] }),
                   ],
                   width: { size: 33, type: WidthType.PERCENTAGE },
                 }),
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "c. Related Equipment ID Nos. (EIN) ☐ N/A", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: data?.relatedEquipment || "To Be Determined During Component Analysis" })] }),
+                    new Paragraph({ children: [valueRun('relatedEquipment', data?.relatedEquipment || "To Be Determined During Component Analysis")] }),
                   ],
                   width: { size: 34, type: WidthType.PERCENTAGE },
                 }),
@@ -399,7 +520,7 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "9. Problem Description", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: data?.description || "[Detailed description of the modification problem or need]" })] }),
+                    new Paragraph({ children: [valueRun('description', data?.description || "[Detailed description of the modification problem or need]")] }),
                     new Paragraph({ children: [new TextRun({ text: "" })] }), // Spacer
                     new Paragraph({ children: [new TextRun({ text: "" })] }), // Spacer
                   ],
@@ -424,7 +545,7 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "10. Justification", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: data?.justification || "[Technical and business justification for the modification]" })] }),
+                    new Paragraph({ children: [valueRun('justification', data?.justification || "[Technical and business justification for the modification]")] }),
                     new Paragraph({ children: [new TextRun({ text: "." })] }),
                     new Paragraph({ children: [new TextRun({ text: "" })] }), // Spacer
                   ],
@@ -461,21 +582,21 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "11a. Project Design Review Required (TFC-ENG-DESIGN-D-17.1)?", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: getYesNoCheckboxes(data?.projectDesignReviewRequired, true) })] }),
+                    new Paragraph({ children: [valueRun('projectDesignReviewRequired', getYesNoCheckboxes(data?.projectDesignReviewRequired, true))] }),
                   ],
                   width: { size: 33, type: WidthType.PERCENTAGE },
                 }),
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "11b. Major Modification Evaluation Required (Use 1189 Checklist)?", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: getYesNoCheckboxes(data?.majorModificationEvaluationRequired, true) })] }),
+                    new Paragraph({ children: [valueRun('majorModificationEvaluationRequired', getYesNoCheckboxes(data?.majorModificationEvaluationRequired, true))] }),
                   ],
                   width: { size: 33, type: WidthType.PERCENTAGE },
                 }),
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "11c. Safety In Design Strategy Required?", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: getYesNoCheckboxes(data?.safetyInDesignStrategyRequired, true) })] }),
+                    new Paragraph({ children: [valueRun('safetyInDesignStrategyRequired', getYesNoCheckboxes(data?.safetyInDesignStrategyRequired, true))] }),
                   ],
                   width: { size: 34, type: WidthType.PERCENTAGE },
                 }),
@@ -511,7 +632,7 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "12. Proposed Solution", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: data?.proposedSolution || "[Detailed description of the proposed modification solution]" })] }),
+                    new Paragraph({ children: [valueRun('proposedSolution', data?.proposedSolution || "[Detailed description of the proposed modification solution]")] }),
                     new Paragraph({ children: [new TextRun({ text: "" })] }), // Spacer
                     new Paragraph({ children: [new TextRun({ text: "" })] }), // Spacer
                   ],
@@ -682,7 +803,7 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "15. Preliminary Safety Classification:", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: getSafetyClassificationCheckboxes(data?.preliminarySafetyClassification) })] }),
+                    new Paragraph({ children: [valueRun('preliminarySafetyClassification', getSafetyClassificationCheckboxes(data?.preliminarySafetyClassification))] }),
                   ],
                   width: { size: 25, type: WidthType.PERCENTAGE },
                 }),
@@ -690,7 +811,7 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "16a. Environmental Risk:", bold: true })] }),
                     new Paragraph({ children: [new TextRun({ text: "(TFC-ENG-DESIGN-C-52 Att. D)" })] }),
-                    new Paragraph({ children: [new TextRun({ text: getYesNoCheckboxes(data?.environmentalRisk) })] }),
+                    new Paragraph({ children: [valueRun('environmentalRisk', getYesNoCheckboxes(data?.environmentalRisk))] }),
                   ],
                   width: { size: 25, type: WidthType.PERCENTAGE },
                 }),
@@ -698,16 +819,16 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "16b. Radiological Risk:", bold: true })] }),
                     new Paragraph({ children: [new TextRun({ text: "(TFC-ENG-DESIGN-C-52 Att. D)" })] }),
-                    new Paragraph({ children: [new TextRun({ text: getYesNoCheckboxes(data?.radiologicalRisk) })] }),
+                    new Paragraph({ children: [valueRun('radiologicalRisk', getYesNoCheckboxes(data?.radiologicalRisk))] }),
                   ],
                   width: { size: 25, type: WidthType.PERCENTAGE },
                 }),
                 new TableCell({
                   children: [
                     new Paragraph({ children: [new TextRun({ text: "17. Hazard Category", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: data?.hazardCategory || "To be determined" })] }), // Remove hardcoded category
+                    new Paragraph({ children: [valueRun('hazardCategory', data?.hazardCategory || "To be determined")] }), // Remove hardcoded category
                     new Paragraph({ children: [new TextRun({ text: "18. Approval Designators", bold: true })] }),
-                    new Paragraph({ children: [new TextRun({ text: (data as any)?.approvalDesignators || "Standard Modification" })] }),
+                    new Paragraph({ children: [valueRun('approvalDesignators', (data as any)?.approvalDesignators || "Standard Modification")] }),
                   ],
                   width: { size: 25, type: WidthType.PERCENTAGE },
                 }),
@@ -961,6 +1082,7 @@ export async function createMTTemplate(data?: Partial<MTDocumentData>): Promise<
           spacing: { before: 300 },
         }),
 
+        ...createAttachmentASection(data?.attachmentA, data?.attachmentARiskLevels),
       ],
     }],
   });
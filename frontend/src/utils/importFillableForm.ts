@@ -0,0 +1,115 @@
+import { PDFCheckBox, PDFDocument, PDFTextField } from 'pdf-lib';
+import type { MTDocumentData } from '../services/mtDocumentService';
+import {
+  MT_PDF_CHECKBOXES,
+  MT_PDF_CONTINUATION_SUFFIX,
+  MT_PDF_SECTIONS,
+  type MTPdfFieldDefinition
+} from './createFillableForm';
+
+export interface MTPdfInvalidField {
+  field: string;
+  value: string;
+  reason: string;
+}
+
+export interface MTPdfReadResult {
+  // Values found in the form; blank fields are left out so they never erase existing data
+  data: Partial<MTDocumentData>;
+  fieldCount: number;
+  // Form fields that are not part of the MT form
+  unknownFields: string[];
+  // Fields whose values cannot be stored in MTDocumentData
+  invalidFields: MTPdfInvalidField[];
+}
+
+const SAFETY_CLASSIFICATIONS: Array<NonNullable<MTDocumentData['preliminarySafetyClassification']>> = ['SC', 'SS', 'GS', 'N/A'];
+
+// Written on export and meaningless to read back
+const IGNORED_FIELDS = ['generatedDate'];
+
+/**
+ * Read a filled MT AcroForm (as produced by createFillableMTForm) back into MT data.
+ * Overflow continuation fields are joined onto their base field.
+ */
+export async function readFillableMTForm(pdfBytes: ArrayBuffer): Promise<MTPdfReadResult> {
+  let pdfDoc: PDFDocument;
+  try {
+    pdfDoc = await PDFDocument.load(pdfBytes);
+  } catch (error) {
+    throw new Error(`Not a readable PDF: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const fields = pdfDoc.getForm().getFields();
+  if (fields.length === 0) {
+    throw new Error('The PDF has no form fields. Flattened (issued) copies cannot be imported.');
+  }
+
+  const definitions = new Map<string, MTPdfFieldDefinition>();
+  MT_PDF_SECTIONS.forEach(section => section.fields.forEach(field => definitions.set(field.name, field)));
+
+  const continuation = new RegExp(`^(.+)${MT_PDF_CONTINUATION_SUFFIX}(\\d+)$`);
+  const textParts = new Map<string, Array<{ part: number; text: string }>>();
+  const checkboxes: Record<string, boolean> = {};
+  const unknownFields: string[] = [];
+
+  fields.forEach(field => {
+    const name = field.getName();
+    const match = name.match(continuation);
+    const baseName = match && definitions.has(match[1]) ? match[1] : name;
+
+    if (field instanceof PDFTextField && definitions.has(baseName)) {
+      const parts = textParts.get(baseName) || [];
+      parts.push({ part: match ? parseInt(match[2], 10) : 1, text: field.getText() || '' });
+      textParts.set(baseName, parts);
+    } else if (field instanceof PDFCheckBox && Object.values(MT_PDF_CHECKBOXES).includes(name)) {
+      checkboxes[name] = field.isChecked();
+    } else {
+      unknownFields.push(name);
+    }
+  });
+
+  const data: Partial<MTDocumentData> = {};
+  const riskAssessment: Partial<NonNullable<MTDocumentData['riskAssessment']>> = {};
+  const invalidFields: MTPdfInvalidField[] = [];
+
+  textParts.forEach((parts, name) => {
+    const definition = definitions.get(name)!;
+    const value = parts.sort((a, b) => a.part - b.part).map(part => part.text).join('').trim();
+    if (!value || IGNORED_FIELDS.includes(name)) return;
+
+    if (definition.riskKey) {
+      riskAssessment[definition.riskKey] = value;
+    } else if (definition.source === 'preliminarySafetyClassification') {
+      const classification = SAFETY_CLASSIFICATIONS.find(option => option === value.toUpperCase());
+      if (classification) {
+        data.preliminarySafetyClassification = classification;
+      } else {
+        invalidFields.push({ field: name, value, reason: `expected one of ${SAFETY_CLASSIFICATIONS.join(', ')}` });
+      }
+    } else if (definition.source === 'confidence') {
+      const confidence = parseFloat(value.replace('%', ''));
+      if (Number.isNaN(confidence)) {
+        invalidFields.push({ field: name, value, reason: 'expected a number' });
+      } else {
+        data.confidence = confidence;
+      }
+    } else if (definition.source) {
+      (data as Record<string, unknown>)[definition.source] = value;
+    }
+  });
+
+  if (Object.keys(riskAssessment).length > 0) {
+    data.riskAssessment = riskAssessment as MTDocumentData['riskAssessment'];
+  }
+
+  const yes = checkboxes[MT_PDF_CHECKBOXES.yes];
+  const no = checkboxes[MT_PDF_CHECKBOXES.no];
+  if (yes && no) {
+    invalidFields.push({ field: 'mtRequired', value: 'Yes and No', reason: 'both MT Required boxes are checked' });
+  } else if (yes || no) {
+    data.mtRequired = !!yes;
+  }
+
+  return { data, fieldCount: fields.length, unknownFields, invalidFields };
+}
@@ -0,0 +1,99 @@
+import type { MTDocumentData, MTDocumentReference } from '../services/mtDocumentService';
+import { ATTACHMENT_A_CATEGORIES, calculateChecklistCompletion } from '../services/attachmentAChecklist';
+import { getDesignTypeCheckboxes, getSafetyClassificationCheckboxes, getYesNoCheckboxes } from './createMTTemplate';
+
+// Placeholders in an uploaded MT template use single braces, e.g. {projectNumber}
+export const MT_TEMPLATE_DELIMITER: [string, string] = ['{', '}'];
+
+// Plain-text fields available as {fieldName}; missing values are filled with ''
+export const MT_TEMPLATE_FIELDS: Array<keyof MTDocumentData> = [
+  'mtNumber', 'revision', 'projectNumber', 'title', 'facility', 'submittedBy', 'submissionDate',
+  'estimatedStartDate', 'estimatedCompleteDate', 'dueDate', 'priority', 'requestedCompletionDate',
+  'cacn', 'projectType', 'relatedBuildings', 'relatedSystems', 'relatedEquipment', 'problemDescription',
+  'proposedSolution', 'projectDesignReviewRequired', 'majorModificationEvaluationRequired',
+  'safetyInDesignStrategyRequired', 'description', 'justification', 'scopeOfWork', 'workLocation',
+  'designInputs', 'designInputConsiderations', 'applicableCodes', 'designCriteria', 'environmentalConditions',
+  'interfaceRequirements', 'mtRequiredReason', 'hazardCategory', 'designType', 'analysisPath',
+  'preliminarySafetyClassification', 'environmentalRisk', 'radiologicalRisk', 'approvalDesignators',
+  'workPackageNumbers', 'otherOutputs', 'safetyImpacts', 'operationalImpacts', 'maintenanceImpacts',
+  'otherImpacts', 'preparedBy', 'preparedDate', 'reviewedBy', 'reviewedDate', 'approvedBy', 'approvedDate'
+];
+
+export interface MTTemplateContext {
+  [key: string]: unknown;
+  designInputDocuments: Required<MTDocumentReference>[];
+  impactedDocuments: Required<MTDocumentReference>[];
+  approvals: Array<{ role: string; name: string; date: string }>;
+  attachmentA: Array<{
+    title: string;
+    percentage: number;
+    items: Array<{ number: number; description: string; status: string; reviewer: string; date: string; comments: string }>;
+  }>;
+}
+
+const toReferenceRow = (reference: MTDocumentReference): Required<MTDocumentReference> => ({
+  documentType: reference.documentType || '',
+  documentNumber: reference.documentNumber || '',
+  title: reference.title || '',
+  revision: reference.revision || ''
+});
+
+/**
+ * Data handed to docx-templates. Besides the plain fields the template can use:
+ * - checkbox strings: {designTypeCheckboxes}, {preliminarySafetyClassificationCheckboxes},
+ *   {<section II field>Checkboxes}, {environmentalRiskCheckboxes}, {radiologicalRiskCheckboxes}, {mtRequired}
+ * - loops: {FOR doc IN designInputDocuments} / {FOR doc IN impactedDocuments} with
+ *   {$doc.documentType} {$doc.documentNumber} {$doc.title} {$doc.revision},
+ *   {FOR approval IN approvals} with {$approval.role} {$approval.name} {$approval.date},
+ *   {FOR category IN attachmentA} with {$category.title} {$category.percentage} and a nested
+ *   {FOR item IN $category.items} loop
+ */
+export function buildMTTemplateContext(data: Partial<MTDocumentData>): MTTemplateContext {
+  const fields: Record<string, string> = {};
+  MT_TEMPLATE_FIELDS.forEach(field => {
+    const value = data[field];
+    fields[field] = value === undefined || value === null ? '' : String(value);
+  });
+
+  // Without structured references, fall back to the comma-separated design input summary
+  const designInputDocuments = data.designInputDocuments?.length
+    ? data.designInputDocuments
+    : (data.designInputs || '').split(/,\s*|\n/).filter(entry => entry.trim()).map(title => ({ title: title.trim() }));
+
+  return {
+    ...fields,
+    mtRequired: data.mtRequired === undefined ? '' : data.mtRequired ? 'Yes' : 'No',
+    confidence: data.confidence === undefined ? '' : String(data.confidence),
+    designTypeCheckboxes: getDesignTypeCheckboxes(fields.designType),
+    projectDesignReviewRequiredCheckboxes: getYesNoCheckboxes(data.projectDesignReviewRequired, true),
+    majorModificationEvaluationRequiredCheckboxes: getYesNoCheckboxes(data.majorModificationEvaluationRequired, true),
+    safetyInDesignStrategyRequiredCheckboxes: getYesNoCheckboxes(data.safetyInDesignStrategyRequired, true),
+    preliminarySafetyClassificationCheckboxes: getSafetyClassificationCheckboxes(data.preliminarySafetyClassification),
+    environmentalRiskCheckboxes: getYesNoCheckboxes(data.environmentalRisk),
+    radiologicalRiskCheckboxes: getYesNoCheckboxes(data.radiologicalRisk),
+    designInputDocuments: designInputDocuments.map(toReferenceRow),
+    impactedDocuments: (data.impactedDocuments || []).map(toReferenceRow),
+    approvals: [
+      { role: 'Prepared By', name: data.preparedBy || '', date: data.preparedDate || '' },
+      { role: 'Reviewed By', name: data.reviewedBy || '', date: data.reviewedDate || '' },
+      { role: 'Approved By', name: data.approvedBy || '', date: data.approvedDate || '' }
+    ],
+    attachmentA: ATTACHMENT_A_CATEGORIES
+      .filter(category => (data.attachmentA?.[category.key] || []).length > 0)
+      .map(category => {
+        const items = data.attachmentA?.[category.key] || [];
+        return {
+          title: category.title,
+          percentage: calculateChecklistCompletion(items).percentage,
+          items: items.map((item, index) => ({
+            number: index + 1,
+            description: item.description,
+            status: item.status,
+            reviewer: item.reviewer || '',
+            date: item.date || '',
+            comments: item.comments || ''
+          }))
+        };
+      })
+  };
+}